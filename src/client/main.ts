@@ -8,17 +8,165 @@ interface Item {
   id: string;
   title: string;
   description: string;
+  sellerId: string | null;
+  currency: string;
   startingPrice: number;
+  buyNowPrice: number | null;
+  reserveMet: boolean;
+  minimumBid: number;
   currentBid: number | null;
   bidCount: number;
+  highBidderId: string | null;
+  startsAt: string | null;
   endsAt: string;
-  status: 'active' | 'closed';
+  status: 'scheduled' | 'active' | 'paused' | 'closed' | 'cancelled';
   createdAt: string;
+  auctionType: AuctionType;
+  dutch: { floorPrice: number; dropAmount: number; dropIntervalSeconds: number } | null;
+  quantity: number;
+  lotPricing: LotPricing | null;
+  softClose: { windowSeconds: number; extensionSeconds: number; hardCloseAt: string | null } | null;
+  eventId: string | null;
+  lotNumber: number | null;
+  categoryId: string | null;
+  tags: string[];
+  images: { id: string; url: string; thumbnailUrl: string; width: number; height: number }[];
+  allocations: { bidderId: string; quantity: number; price: number }[];
+  clearingPrice: number | null;
+  outcome: 'sold' | 'no_bids' | 'reserve_not_met' | null;
+  winnerId: string | null;
+  winningBid: number | null;
+  closedAt: string | null;
+  version: number;
 }
 
+// How an item sells: rising bids, a falling price or sealed bids
+type AuctionType = 'english' | 'dutch' | 'sealed_first_price' | 'sealed_vickrey';
+
+// How a lot of several units charges its winners
+type LotPricing = 'uniform' | 'pay_as_bid';
+
 // Store items for reference
 let itemsCache: Item[] = [];
 
+// Category type matching the API response
+interface Category {
+  id: string;
+  name: string;
+}
+
+// Categories for the filter, create form and item chips
+let categories: Category[] = [];
+
+// Auction event type matching the API response
+interface AuctionEvent {
+  id: string;
+  title: string;
+  description: string;
+  sellerId: string;
+  startsAt: string | null;
+  firstLotEndsAt: string;
+  staggerSeconds: number;
+  pausedAt: string | null;
+}
+
+// Auction events for the event list and create form, and the one whose page
+// is showing (null on the main list)
+let auctionEvents: AuctionEvent[] = [];
+let currentEvent: AuctionEvent | null = null;
+
+// One page of GET /api/items
+interface ItemPage {
+  items: Item[];
+  nextCursor: string | null;
+}
+
+// Error body returned by the API
+interface ApiErrorBody {
+  error: string;
+  code?: string;
+  details?: { field: string; message: string }[];
+  minimumBid?: number; // with BID_TOO_LOW
+  currency?: string; // with BID_TOO_LOW
+  item?: Item; // with VERSION_CONFLICT
+}
+
+// An API request that failed, with the server's error code
+class RequestError extends Error {
+  readonly code: string | undefined;
+  readonly data: ApiErrorBody;
+
+  constructor(data: ApiErrorBody, fallback: string) {
+    super(data.error || fallback);
+    this.code = data.code;
+    this.data = data;
+  }
+}
+
+// What bidders are told for each error code the bid form can hit
+const BID_ERROR_MESSAGES: Record<string, (data: ApiErrorBody) => string> = {
+  BID_TOO_LOW: data => `Your bid must be at least ${formatPrice(data.minimumBid ?? 0, data.currency ?? 'USD')}`,
+  AUCTION_NOT_STARTED: () => "Bidding hasn't opened yet",
+  AUCTION_PAUSED: () => 'Bidding is paused for this event',
+  AUCTION_CLOSED: () => 'This auction has ended',
+  AUCTION_CANCELLED: () => 'The seller cancelled this auction',
+  BUY_NOW_UNAVAILABLE: () => "This auction can't be bought outright",
+  PROXY_BID_UNAVAILABLE: () => 'Only rising-bid auctions take maximum bids',
+  VERSION_CONFLICT: () => 'This auction just changed - check the new price and try again',
+  ITEM_NOT_FOUND: () => 'This auction no longer exists',
+  NOT_SELLER: () => 'Only the seller can change this auction',
+};
+
+// Filters and sort for the list, and the cursor for its next page
+let listQuery = new URLSearchParams();
+let nextCursor: string | null = null;
+
+// Inbox message matching the API response
+interface InboxNotification {
+  id: string;
+  type: 'outbid' | 'ending_soon' | 'won';
+  itemId: string;
+  message: string;
+  createdAt: string;
+  readAt: string | null;
+}
+
+// The logged-in user's watched item IDs and latest notifications
+let watchlist = new Set<string>();
+let inbox: InboxNotification[] = [];
+let unreadCount = 0;
+
+// How often to check the inbox while logged in
+const INBOX_POLL_MS = 30000;
+
+// Item and photo shown in the lightbox
+let lightbox: { item: Item; index: number } | null = null;
+
+// Logged-in user, persisted across page loads
+interface Session {
+  token: string;
+  username: string;
+}
+
+const SESSION_STORAGE_KEY = 'auction.session';
+
+let session: Session | null = loadSession();
+
+// Anti-sniping settings offered in the create form
+const SOFT_CLOSE_SECONDS = 120;
+
+// Most photos the server accepts per item
+const MAX_ITEM_IMAGES = 8;
+
+// Delay before reopening a failed event stream
+const EVENTS_RECONNECT_MS = 3000;
+
+// ID of the last server event applied, for replay after reconnect
+let lastEventId: string | null = null;
+
+// Whether the event stream dropped since the list was last loaded
+let eventsInterrupted = false;
+
 /**
  * Format milliseconds as HH:MM:SS
  */
@@ -36,23 +184,89 @@ function formatCountdown(ms: number): string {
 }
 
 /**
- * Format price as currency
+ * Get the browser's number format for amounts in a currency
+ */
+function getCurrencyFormat(currency: string): Intl.NumberFormat {
+  return new Intl.NumberFormat(undefined, { style: 'currency', currency });
+}
+
+/**
+ * Format a price in its currency for the browser's locale, e.g. $1,250.00
+ * or ¥1,250
+ */
+function formatPrice(amount: number, currency: string): string {
+  return getCurrencyFormat(currency).format(amount);
+}
+
+/**
+ * Get how many decimal places a currency's amounts have, e.g. 2 for USD
+ */
+function getMinorUnitDigits(currency: string): number {
+  return getCurrencyFormat(currency).resolvedOptions().maximumFractionDigits ?? 2;
+}
+
+/**
+ * Get the smallest step a price input in a currency takes, e.g. 0.01
  */
-function formatPrice(amount: number): string {
-  return `$${amount.toFixed(2)}`;
+function getPriceStep(currency: string): string {
+  return (1 / 10 ** getMinorUnitDigits(currency)).toString();
 }
 
 /**
- * Fetch items from the API
+ * Get a currency's symbol for the browser's locale, e.g. $ or ¥
  */
-async function fetchItems(): Promise<Item[]> {
-  const response = await fetch('/api/items');
+function getCurrencySymbol(currency: string): string {
+  return getCurrencyFormat(currency).formatToParts(0).find(part => part.type === 'currency')?.value ?? currency;
+}
+
+/**
+ * Fetch a page of items from the API
+ */
+async function fetchItems(query: URLSearchParams, cursor: string | null = null): Promise<ItemPage> {
+  const params = new URLSearchParams(query);
+  if (cursor) {
+    params.set('cursor', cursor);
+  }
+  const response = await fetch(`/api/items?${params}`);
   if (!response.ok) {
     throw new Error('Failed to fetch items');
   }
   return response.json();
 }
 
+/**
+ * Fetch the category list from the API
+ */
+async function fetchCategories(): Promise<Category[]> {
+  const response = await fetch('/api/categories');
+  if (!response.ok) {
+    throw new Error('Failed to fetch categories');
+  }
+  return response.json();
+}
+
+/**
+ * Fetch the auction event list from the API
+ */
+async function fetchAuctionEvents(): Promise<AuctionEvent[]> {
+  const response = await fetch('/api/auction-events');
+  if (!response.ok) {
+    throw new Error('Failed to fetch auction events');
+  }
+  return response.json();
+}
+
+/**
+ * Re-fetch a single item and redraw it
+ * Fetching also lets the server bring the item's status up to date
+ */
+async function refreshItem(itemId: string): Promise<void> {
+  const response = await fetch(`/api/items/${itemId}`);
+  if (response.ok) {
+    updateItemInDOM(await response.json());
+  }
+}
+
 /**
  * Get the current price (current bid or starting price)
  */
@@ -60,48 +274,215 @@ function getCurrentPrice(item: Item): number {
   return item.currentBid ?? item.startingPrice;
 }
 
+/**
+ * Get a dutch item's asking price at a moment, following the server's
+ * schedule: startingPrice when it opens, less dropAmount per interval, down
+ * to floorPrice
+ * Works in the currency's minor units, as the server does, so the price
+ * matches it exactly
+ */
+function getDutchPrice(item: Item, now: number): number {
+  const { floorPrice, dropAmount, dropIntervalSeconds } = item.dutch!;
+  const scale = 10 ** getMinorUnitDigits(item.currency);
+  const toMinorUnits = (amount: number) => Math.round(amount * scale);
+  const opensAt = new Date(item.startsAt ?? item.createdAt).getTime();
+  const drops = Math.floor(Math.max(0, now - opensAt) / (dropIntervalSeconds * 1000));
+  const price = toMinorUnits(item.startingPrice) - drops * toMinorUnits(dropAmount);
+  return Math.max(toMinorUnits(floorPrice), price) / scale;
+}
+
+/**
+ * Check whether an item hides its bids until it closes
+ */
+function isSealedItem(item: Item): boolean {
+  return item.auctionType === 'sealed_first_price' || item.auctionType === 'sealed_vickrey';
+}
+
+/**
+ * Count the units of a lot held by bidders
+ */
+function countAllocatedUnits(item: Item): number {
+  return item.allocations.reduce((total, allocation) => total + allocation.quantity, 0);
+}
+
+/**
+ * Render a lot's fill: "3 of 10 units at $X", or its units and starting
+ * price before any bids
+ */
+function renderLotFill(item: Item): string {
+  if (item.clearingPrice === null) {
+    return `${item.quantity} units from ${formatPrice(item.startingPrice, item.currency)}`;
+  }
+  const pricing = item.lotPricing === 'pay_as_bid' ? ' and up' : '';
+  return `${countAllocatedUnits(item)} of ${item.quantity} units at ${formatPrice(item.clearingPrice, item.currency)}${pricing}`;
+}
+
+/**
+ * Render the result line for a closed item
+ */
+function renderResult(item: Item): string {
+  if (item.status === 'cancelled') {
+    return '<p class="auction-result auction-result--unsold">Cancelled by the seller</p>';
+  }
+  if (item.status !== 'closed') return '';
+
+  if (item.quantity > 1 && item.outcome === 'sold') {
+    const mine = session && item.allocations.find(a => a.bidderId === session!.username);
+    const yours = mine ? ` - you won ${mine.quantity} at ${formatPrice(mine.price, item.currency)} each` : '';
+    return `<p class="auction-result">Sold ${renderLotFill(item)} to ${item.allocations.length} bidder${item.allocations.length !== 1 ? 's' : ''}${yours}</p>`;
+  }
+
+  if (item.outcome === 'sold' && item.winnerId && item.winningBid !== null) {
+    return `<p class="auction-result">Won by <strong>${escapeHtml(item.winnerId)}</strong> for ${formatPrice(item.winningBid, item.currency)}</p>`;
+  }
+  if (item.outcome === 'reserve_not_met') {
+    return '<p class="auction-result auction-result--unsold">Ended without meeting the reserve</p>';
+  }
+  return '<p class="auction-result auction-result--unsold">Ended with no bids</p>';
+}
+
+/**
+ * Render the data attribute the countdown timer follows: the start time of a
+ * scheduled item, or the end time of an active one
+ */
+function renderTimerData(item: Item): string {
+  if (item.status === 'scheduled' && item.startsAt) return ` data-starts-at="${item.startsAt}"`;
+  if (item.status === 'active') return ` data-ends-at="${item.endsAt}"`;
+  return '';
+}
+
+/**
+ * Render an item's event, category and tags as chips
+ * The event chip opens the event's page; the others filter the list
+ */
+function renderChips(item: Item): string {
+  const category = categories.find(c => c.id === item.categoryId);
+  const event = currentEvent ? undefined : auctionEvents.find(e => e.id === item.eventId);
+  const chips = [
+    event ? `<button type="button" class="chip chip--event" data-event-id="${event.id}">${escapeHtml(event.title)}</button>` : '',
+    category ? `<button type="button" class="chip chip--category" data-category-id="${category.id}">${escapeHtml(category.name)}</button>` : '',
+    ...item.tags.map(tag => `<button type="button" class="chip" data-tag="${escapeHtml(tag)}">#${escapeHtml(tag)}</button>`),
+  ].join('');
+  return chips ? `<div class="chips">${chips}</div>` : '';
+}
+
+/**
+ * Render an item's cover photo, which opens the gallery
+ */
+function renderThumbnail(item: Item): string {
+  if (item.images.length === 0) return '';
+  const [cover] = item.images;
+  const count = item.images.length > 1 ? `<span class="auction-thumb-count">${item.images.length} photos</span>` : '';
+  return `
+    <button type="button" class="auction-thumb" data-item-id="${item.id}" aria-label="View photos of ${escapeHtml(item.title)}">
+      <img src="${cover.thumbnailUrl}" alt="" loading="lazy">
+      ${count}
+    </button>
+  `;
+}
+
 /**
  * Render a single auction item
  */
 function renderItem(item: Item): string {
   const endsAt = new Date(item.endsAt).getTime();
   const now = Date.now();
-  const isEnded = endsAt <= now || item.status === 'closed';
-  const currentPrice = getCurrentPrice(item);
+  const isScheduled = item.status === 'scheduled';
+  const isPaused = item.status === 'paused';
+  const isEnded = item.status === 'closed' || item.status === 'cancelled' || (!isScheduled && !isPaused && endsAt <= now);
+  const currentPrice = item.dutch && !isEnded ? getDutchPrice(item, now) : getCurrentPrice(item);
   const hasBids = item.bidCount > 0;
+  const isSealed = isSealedItem(item) && !isEnded;
+  const isLot = item.quantity > 1;
+  const priceLabel = item.dutch && !isEnded ? 'Price' : isSealed ? 'Sealed Bids From' : hasBids ? 'Current Bid' : 'Starting Price';
+  const isSeller = session !== null && item.sellerId === session.username;
+  const endedLabel = item.status === 'cancelled' ? 'CANCELLED' : 'ENDED';
+  const isWatching = watchlist.has(item.id);
+
+  const watchButtonHtml = session && !isSeller ? `
+    <button type="button" class="watch-button${isWatching ? ' watch-button--active' : ''}" data-item-id="${item.id}">
+      ${isWatching ? '&#9733; Watching' : '&#9734; Watch'}
+    </button>
+  ` : '';
+
+  const sellerActionsHtml = `
+    <div class="seller-actions" data-item-id="${item.id}">
+      <button type="button" class="cancel-button">Cancel auction</button>
+      <div class="bid-feedback" hidden></div>
+    </div>
+  `;
+
+  // Dutch items are bought by accepting the falling price
+  const dutchActionsHtml = `
+    <div class="dutch-actions" data-item-id="${item.id}">
+      <button type="button" class="bid-button accept-button">Accept ${formatPrice(currentPrice, item.currency)}</button>
+      <div class="bid-feedback" hidden></div>
+    </div>
+  `;
 
-  const bidFormHtml = isEnded ? '' : `
+  // Bidding opens when a scheduled item starts, and stops while its event is paused
+  const bidFormHtml = isSeller ? sellerActionsHtml : isScheduled || isPaused ? '' : item.dutch ? dutchActionsHtml : `
     <form class="bid-form" data-item-id="${item.id}">
       <div class="bid-input-group">
-        <span class="currency-prefix">$</span>
+        <span class="currency-prefix">${escapeHtml(getCurrencySymbol(item.currency))}</span>
         <input
           type="number"
           class="bid-input"
-          placeholder="${(currentPrice + 1).toFixed(0)}"
-          min="${currentPrice + 1}"
-          step="1"
+          placeholder="${item.minimumBid}"
+          min="${item.minimumBid}"
+          step="${getPriceStep(item.currency)}"
           required
         />
       </div>
-      <button type="submit" class="bid-button">Place Bid</button>
+      ${isLot ? `
+      <input
+        type="number"
+        class="quantity-input"
+        placeholder="Units"
+        title="How many of the ${item.quantity} units you want, at your bid each"
+        min="1"
+        max="${item.quantity}"
+        step="1"
+        value="1"
+      />` : ''}
+      ${isSealed || isLot ? '' : `
+      <input
+        type="number"
+        class="max-bid-input"
+        placeholder="Max (optional)"
+        title="We'll bid for you up to this amount"
+        min="${item.minimumBid}"
+        step="${getPriceStep(item.currency)}"
+      />`}
+      <button type="submit" class="bid-button">${isSealed ? 'Submit Sealed Bid' : 'Place Bid'}</button>
+      ${item.buyNowPrice !== null ? `<button type="button" class="buy-now-button">Buy now for ${formatPrice(item.buyNowPrice, item.currency)}</button>` : ''}
       <div class="bid-feedback" hidden></div>
     </form>
   `;
 
   return `
-    <article class="auction-item${isEnded ? ' auction-item--ended' : ''}" data-item-id="${item.id}" data-ends-at="${item.endsAt}">
+    <article class="auction-item${isEnded ? ' auction-item--ended' : ''}" data-item-id="${item.id}"${renderTimerData(item)}${item.dutch && !isEnded ? ' data-dutch' : ''}>
+      ${renderThumbnail(item)}
       <div class="auction-info">
-        <h4>${escapeHtml(item.title)}</h4>
+        <h4>${item.lotNumber !== null ? `<span class="lot-number">Lot ${item.lotNumber}</span>` : ''}${escapeHtml(item.title)}${watchButtonHtml}</h4>
         <p class="auction-description">${escapeHtml(item.description)}</p>
+        ${renderChips(item)}
         <div class="auction-meta">
-          <span class="current-bid">${hasBids ? 'Current Bid' : 'Starting Price'}: ${formatPrice(currentPrice)}</span>
+          <span class="current-bid">${isLot ? renderLotFill(item) : `${priceLabel}: ${formatPrice(currentPrice, item.currency)}`}</span>
           <span class="bid-count">${item.bidCount} bid${item.bidCount !== 1 ? 's' : ''}</span>
+          ${!isEnded && session && item.highBidderId === session.username ? '<span class="high-bidder-badge">You are the high bidder</span>' : ''}
+          ${isSeller ? '<span class="seller-badge">Your listing</span>' : ''}
+          ${!item.reserveMet && !isEnded ? '<span class="reserve-badge">Reserve not met</span>' : ''}
+          ${item.dutch && !isEnded ? `<span class="dutch-badge" title="Drops ${formatPrice(item.dutch.dropAmount, item.currency)} every ${Math.round(item.dutch.dropIntervalSeconds / 60)} min to ${formatPrice(item.dutch.floorPrice, item.currency)}">Dutch</span>` : ''}
+          ${isSealed ? `<span class="sealed-badge" title="Bids stay hidden until the end; the winner pays ${item.auctionType === 'sealed_vickrey' ? 'the second-highest bid' : 'their own bid'}">Sealed</span>` : ''}
+          ${item.softClose && !isEnded ? `<span class="soft-close" title="Bids in the last ${Math.round(item.softClose.windowSeconds / 60)} min extend the auction">Soft close</span>` : ''}
         </div>
-        ${bidFormHtml}
+        ${renderResult(item)}
+        ${isEnded ? '' : bidFormHtml}
       </div>
       <div class="auction-timer">
-        <span class="timer-label">${isEnded ? 'Status' : 'Time Remaining'}</span>
-        <span class="countdown${isEnded ? ' countdown--ended' : ''}" data-countdown>${isEnded ? 'ENDED' : '--:--:--'}</span>
+        <span class="timer-label">${isEnded || isPaused ? 'Status' : isScheduled ? 'Starts In' : 'Time Remaining'}</span>
+        <span class="countdown${isEnded ? ' countdown--ended' : ''}" data-countdown>${isEnded ? endedLabel : isPaused ? 'PAUSED' : '--:--:--'}</span>
       </div>
     </article>
   `;
@@ -129,6 +510,14 @@ function renderItems(items: Item[]): void {
   if (items.length === 0) {
     listEl.innerHTML = '';
     emptyEl.hidden = false;
+    const messageEl = emptyEl.querySelector('p');
+    if (messageEl) {
+      if (currentEvent) {
+        messageEl.textContent = 'This event has no lots yet.';
+      } else {
+        messageEl.textContent = listQuery.toString() ? 'No auctions match your search.' : 'No auctions available yet.';
+      }
+    }
   } else {
     emptyEl.hidden = true;
     listEl.innerHTML = items.map(renderItem).join('');
@@ -136,19 +525,100 @@ function renderItems(items: Item[]): void {
 }
 
 /**
- * Place a bid on an item
+ * Build request headers that tie a bid to the version of the item on screen
+ */
+function bidHeaders(itemId: string): Record<string, string> {
+  const headers = authHeaders();
+  const cached = itemsCache.find(i => i.id === itemId);
+  if (cached) {
+    headers['If-Match'] = `"${cached.version}"`;
+  }
+  return headers;
+}
+
+/**
+ * Show the latest item after a version conflict, then fail the request
+ */
+function handleConflict(data: ApiErrorBody): never {
+  if (data.item) {
+    updateItemInDOM(data.item);
+  }
+  throw new RequestError(data, 'This auction just changed');
+}
+
+/**
+ * Place a bid on an item, optionally with a maximum for automatic bidding
  */
-async function placeBid(itemId: string, amount: number): Promise<Item> {
+async function placeBid(
+  itemId: string,
+  amount: number,
+  maxAmount?: number,
+  quantity?: number
+): Promise<Item & { winning: boolean | null }> {
   const response = await fetch(`/api/items/${itemId}/bid`, {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ amount, bidderId: 'anonymous' }),
+    headers: bidHeaders(itemId),
+    body: JSON.stringify({ amount, maxAmount, quantity }),
+  });
+
+  const data = await response.json();
+
+  if (response.status === 401) {
+    handleUnauthorized();
+  }
+  if (data.code === 'VERSION_CONFLICT') {
+    handleConflict(data);
+  }
+  if (!response.ok) {
+    throw new RequestError(data, 'Failed to place bid');
+  }
+
+  return data;
+}
+
+/**
+ * Buy an item at its buy-now price
+ */
+async function buyNow(itemId: string): Promise<Item> {
+  const response = await fetch(`/api/items/${itemId}/buy-now`, {
+    method: 'POST',
+    headers: bidHeaders(itemId),
+  });
+
+  const data = await response.json();
+
+  if (response.status === 401) {
+    handleUnauthorized();
+  }
+  if (data.code === 'VERSION_CONFLICT') {
+    handleConflict(data);
+  }
+  if (!response.ok) {
+    throw new RequestError(data, 'Failed to buy item');
+  }
+
+  return data;
+}
+
+/**
+ * Cancel one of the logged-in user's auctions
+ */
+async function cancelAuction(itemId: string): Promise<Item> {
+  const response = await fetch(`/api/items/${itemId}/cancel`, {
+    method: 'POST',
+    headers: bidHeaders(itemId),
   });
 
   const data = await response.json();
 
+  if (response.status === 401) {
+    handleUnauthorized();
+  }
+  if (data.code === 'VERSION_CONFLICT') {
+    handleConflict(data);
+  }
   if (!response.ok) {
-    throw new Error(data.error || 'Failed to place bid');
+    throw new RequestError(data, 'Failed to cancel auction');
   }
 
   return data;
@@ -178,18 +648,25 @@ function updateItemInDOM(updatedItem: Item): void {
 }
 
 /**
- * Show feedback message on a bid form
+ * Show feedback message on a bid form or seller actions
+ * Failed requests are explained by their error code where there is a
+ * message for it, otherwise by the server's message
  */
-function showBidFeedback(form: HTMLFormElement, message: string, isError: boolean): void {
-  const feedback = form.querySelector<HTMLElement>('.bid-feedback');
-  if (feedback) {
-    feedback.textContent = message;
-    feedback.hidden = false;
-    feedback.className = `bid-feedback ${isError ? 'bid-feedback--error' : 'bid-feedback--success'}`;
+function showBidFeedback(container: HTMLElement, feedback: string | Error, isError: boolean): void {
+  let message = typeof feedback === 'string' ? feedback : feedback.message;
+  if (feedback instanceof RequestError && feedback.code && BID_ERROR_MESSAGES[feedback.code]) {
+    message = BID_ERROR_MESSAGES[feedback.code](feedback.data);
+  }
+
+  const feedbackEl = container.querySelector<HTMLElement>('.bid-feedback');
+  if (feedbackEl) {
+    feedbackEl.textContent = message;
+    feedbackEl.hidden = false;
+    feedbackEl.className = `bid-feedback ${isError ? 'bid-feedback--error' : 'bid-feedback--success'}`;
 
     // Hide after 3 seconds
     setTimeout(() => {
-      feedback.hidden = true;
+      feedbackEl.hidden = true;
     }, 3000);
   }
 }
@@ -203,41 +680,156 @@ async function handleBidSubmit(event: Event): Promise<void> {
   const form = event.target as HTMLFormElement;
   const itemId = form.dataset.itemId;
   const input = form.querySelector<HTMLInputElement>('.bid-input');
+  const maxInput = form.querySelector<HTMLInputElement>('.max-bid-input');
+  const quantityInput = form.querySelector<HTMLInputElement>('.quantity-input');
   const button = form.querySelector<HTMLButtonElement>('.bid-button');
 
   if (!itemId || !input || !button) return;
 
+  if (!session) {
+    showBidFeedback(form, 'Log in to place a bid', true);
+    return;
+  }
+
   const amount = parseFloat(input.value);
   if (isNaN(amount) || amount <= 0) {
     showBidFeedback(form, 'Please enter a valid amount', true);
     return;
   }
 
+  const maxAmount = maxInput?.value ? parseFloat(maxInput.value) : undefined;
+  if (maxAmount !== undefined && (isNaN(maxAmount) || maxAmount < amount)) {
+    showBidFeedback(form, 'Max bid must be at least your bid', true);
+    return;
+  }
+
+  const quantity = quantityInput ? parseInt(quantityInput.value, 10) : undefined;
+  if (quantity !== undefined && (isNaN(quantity) || quantity < 1)) {
+    showBidFeedback(form, 'Please enter how many units you want', true);
+    return;
+  }
+
   // Disable form while submitting
+  const buttonText = button.textContent;
   input.disabled = true;
   button.disabled = true;
   button.textContent = 'Placing...';
 
   try {
-    const updatedItem = await placeBid(itemId, amount);
-    showBidFeedback(form, `Bid of ${formatPrice(amount)} placed!`, false);
+    const { winning, ...updatedItem } = await placeBid(itemId, amount, maxAmount, quantity);
+    if (quantity !== undefined) {
+      const held = updatedItem.allocations.find(a => a.bidderId === session!.username)?.quantity ?? 0;
+      showBidFeedback(
+        form,
+        winning
+          ? `Bid placed - you hold ${held} of ${quantity} unit${quantity !== 1 ? 's' : ''}`
+          : 'Bid placed, but higher bids hold every unit',
+        !winning
+      );
+    } else if (winning === null) {
+      showBidFeedback(form, `Sealed bid of ${formatPrice(amount, updatedItem.currency)} submitted - you can revise it until the end`, false);
+    } else {
+      showBidFeedback(
+        form,
+        winning
+          ? `Bid of ${formatPrice(amount, updatedItem.currency)} placed - you're the high bidder!`
+          : `Bid of ${formatPrice(amount, updatedItem.currency)} placed, but another bidder's maximum is higher`,
+        !winning
+      );
+    }
 
     // Update the item display
     setTimeout(() => {
       updateItemInDOM(updatedItem);
     }, 1000);
   } catch (error) {
-    const message = error instanceof Error ? error.message : 'Failed to place bid';
-    showBidFeedback(form, message, true);
+    showBidFeedback(form, error instanceof Error ? error : 'Failed to place bid', true);
 
     // Re-enable form on error
     input.disabled = false;
     button.disabled = false;
-    button.textContent = 'Place Bid';
+    button.textContent = buttonText;
     input.value = '';
   }
 }
 
+/**
+ * Handle a buy-now button click
+ */
+async function handleBuyNowClick(button: HTMLButtonElement): Promise<void> {
+  const form = button.closest<HTMLFormElement>('.bid-form');
+  const itemId = form?.dataset.itemId;
+  if (!form || !itemId) return;
+
+  if (!session) {
+    showBidFeedback(form, 'Log in to buy this item', true);
+    return;
+  }
+
+  button.disabled = true;
+
+  try {
+    const updatedItem = await buyNow(itemId);
+    showBidFeedback(form, 'Purchased!', false);
+
+    setTimeout(() => {
+      updateItemInDOM(updatedItem);
+    }, 1000);
+  } catch (error) {
+    showBidFeedback(form, error instanceof Error ? error : 'Failed to buy item', true);
+    button.disabled = false;
+  }
+}
+
+/**
+ * Handle an accept button click on a dutch item, bidding its current price
+ */
+async function handleAcceptClick(button: HTMLButtonElement): Promise<void> {
+  const actions = button.closest<HTMLElement>('.dutch-actions');
+  const item = itemsCache.find(i => i.id === actions?.dataset.itemId);
+  if (!actions || !item) return;
+
+  if (!session) {
+    showBidFeedback(actions, 'Log in to buy this item', true);
+    return;
+  }
+
+  button.disabled = true;
+
+  try {
+    const { winning: _winning, ...updatedItem } = await placeBid(item.id, getDutchPrice(item, Date.now()));
+    showBidFeedback(actions, `Bought for ${formatPrice(updatedItem.winningBid ?? 0, updatedItem.currency)}!`, false);
+
+    setTimeout(() => {
+      updateItemInDOM(updatedItem);
+    }, 1000);
+  } catch (error) {
+    showBidFeedback(actions, error instanceof Error ? error : 'Failed to buy item', true);
+    button.disabled = false;
+  }
+}
+
+/**
+ * Handle a seller's cancel button click
+ */
+async function handleCancelClick(button: HTMLButtonElement): Promise<void> {
+  const actions = button.closest<HTMLElement>('.seller-actions');
+  const itemId = actions?.dataset.itemId;
+  if (!actions || !itemId) return;
+
+  if (!confirm('Cancel this auction? Bidders will no longer be able to win it.')) return;
+
+  button.disabled = true;
+
+  try {
+    const updatedItem = await cancelAuction(itemId);
+    updateItemInDOM(updatedItem);
+  } catch (error) {
+    showBidFeedback(actions, error instanceof Error ? error : 'Failed to cancel auction', true);
+    button.disabled = false;
+  }
+}
+
 /**
  * Set up event delegation for bid forms
  */
@@ -251,31 +843,443 @@ function setupBidFormHandlers(): void {
       handleBidSubmit(event);
     }
   });
+
+  listEl.addEventListener('click', (event) => {
+    const target = event.target as HTMLElement;
+    if (target.classList.contains('buy-now-button')) {
+      handleBuyNowClick(target as HTMLButtonElement);
+    }
+    if (target.classList.contains('accept-button')) {
+      handleAcceptClick(target as HTMLButtonElement);
+    }
+    if (target.classList.contains('cancel-button')) {
+      handleCancelClick(target as HTMLButtonElement);
+    }
+    if (target.classList.contains('chip')) {
+      handleChipClick(target);
+    }
+    if (target.classList.contains('watch-button')) {
+      handleWatchClick(target as HTMLButtonElement);
+    }
+    const thumb = target.closest<HTMLElement>('.auction-thumb');
+    if (thumb) {
+      const item = itemsCache.find(i => i.id === thumb.dataset.itemId);
+      if (item) openLightbox(item, 0);
+    }
+  });
 }
 
-// ========== Create Auction Modal ==========
+// ========== Watchlist and Notifications ==========
 
 /**
- * Get modal elements
+ * Fetch the IDs of the logged-in user's watched items
  */
-function getModalElements() {
-  return {
-    modal: document.getElementById('create-modal'),
-    form: document.getElementById('create-auction-form') as HTMLFormElement | null,
-    openBtn: document.getElementById('create-auction-btn'),
-    closeBtn: document.querySelector('.modal-close'),
-    cancelBtn: document.querySelector('.modal-cancel'),
-    backdrop: document.querySelector('.modal-backdrop'),
-    feedback: document.querySelector('.form-feedback') as HTMLElement | null,
-  };
+async function fetchWatchlist(): Promise<string[]> {
+  const response = await fetch('/api/watchlist', { headers: authHeaders() });
+  if (response.status === 401) {
+    handleUnauthorized();
+  }
+  if (!response.ok) {
+    throw new Error('Failed to fetch watchlist');
+  }
+  const items: Item[] = await response.json();
+  return items.map(item => item.id);
 }
 
 /**
- * Open the create auction modal
+ * Watch or stop watching an item
  */
-function openModal(): void {
-  const { modal, form } = getModalElements();
-  if (modal) {
+async function setWatching(itemId: string, watching: boolean): Promise<void> {
+  const response = await fetch(`/api/watchlist/${itemId}`, {
+    method: watching ? 'POST' : 'DELETE',
+    headers: authHeaders(),
+  });
+
+  if (response.status === 401) {
+    handleUnauthorized();
+  }
+  if (!response.ok) {
+    const data = await response.json();
+    throw new Error(data.error || 'Failed to update watchlist');
+  }
+}
+
+/**
+ * Handle watch button click
+ */
+async function handleWatchClick(button: HTMLButtonElement): Promise<void> {
+  const itemId = button.dataset.itemId;
+  if (!itemId) return;
+
+  const watching = !watchlist.has(itemId);
+  button.disabled = true;
+
+  try {
+    await setWatching(itemId, watching);
+    if (watching) {
+      watchlist.add(itemId);
+    } else {
+      watchlist.delete(itemId);
+    }
+    const item = itemsCache.find(i => i.id === itemId);
+    if (item) updateItemInDOM(item);
+  } catch (error) {
+    console.error('Failed to update watchlist:', error);
+    button.disabled = false;
+  }
+}
+
+/**
+ * Fetch the logged-in user's latest notifications
+ */
+async function fetchInbox(): Promise<{ notifications: InboxNotification[]; unreadCount: number }> {
+  const response = await fetch('/api/notifications', { headers: authHeaders() });
+  if (response.status === 401) {
+    handleUnauthorized();
+  }
+  if (!response.ok) {
+    throw new Error('Failed to fetch notifications');
+  }
+  return response.json();
+}
+
+/**
+ * Render the unread badge and the inbox list
+ */
+function renderInbox(): void {
+  const badge = document.getElementById('unread-badge');
+  const listEl = document.getElementById('inbox-list');
+
+  if (badge) {
+    badge.textContent = unreadCount > 99 ? '99+' : String(unreadCount);
+    badge.hidden = unreadCount === 0;
+  }
+  if (listEl) {
+    listEl.innerHTML = inbox.length === 0
+      ? '<li class="inbox-empty">No notifications yet</li>'
+      : inbox.map(notification => `
+        <li class="inbox-item${notification.readAt ? '' : ' inbox-item--unread'}" data-notification-id="${notification.id}" data-item-id="${notification.itemId}">
+          ${escapeHtml(notification.message)}
+          <time datetime="${notification.createdAt}">${new Date(notification.createdAt).toLocaleString()}</time>
+        </li>
+      `).join('');
+  }
+}
+
+/**
+ * Refresh the inbox from the server
+ */
+async function loadInbox(): Promise<void> {
+  if (!session) return;
+  const data = await fetchInbox();
+  inbox = data.notifications;
+  unreadCount = data.unreadCount;
+  renderInbox();
+}
+
+/**
+ * Load the logged-in user's watchlist and inbox, or clear them after logout
+ */
+async function loadUserData(): Promise<void> {
+  if (!session) {
+    watchlist = new Set();
+    inbox = [];
+    unreadCount = 0;
+    renderInbox();
+    return;
+  }
+
+  try {
+    watchlist = new Set(await fetchWatchlist());
+    renderItems(itemsCache);
+    await loadInbox();
+  } catch (error) {
+    console.error('Failed to load watchlist and notifications:', error);
+  }
+}
+
+/**
+ * Mark a notification read and scroll to its item
+ */
+async function handleInboxItemClick(itemEl: HTMLElement): Promise<void> {
+  const { notificationId, itemId } = itemEl.dataset;
+  document.querySelector(`.auction-item[data-item-id="${itemId}"]`)?.scrollIntoView({ behavior: 'smooth' });
+
+  const notification = inbox.find(n => n.id === notificationId);
+  if (!notification || notification.readAt) return;
+
+  const response = await fetch(`/api/notifications/${notificationId}/read`, {
+    method: 'POST',
+    headers: authHeaders(),
+  });
+  if (response.ok) {
+    notification.readAt = new Date().toISOString();
+    unreadCount = Math.max(0, unreadCount - 1);
+    renderInbox();
+  }
+}
+
+/**
+ * Mark every notification read
+ */
+async function handleMarkAllRead(): Promise<void> {
+  const response = await fetch('/api/notifications/read', { method: 'POST', headers: authHeaders() });
+  if (response.ok) {
+    await loadInbox();
+  }
+}
+
+/**
+ * Set up the inbox button, panel and polling
+ */
+function setupInboxHandlers(): void {
+  const inboxBtn = document.getElementById('inbox-btn');
+  const panel = document.getElementById('inbox-panel');
+  if (!inboxBtn || !panel) return;
+
+  inboxBtn.addEventListener('click', () => {
+    panel.hidden = !panel.hidden;
+    inboxBtn.setAttribute('aria-expanded', String(!panel.hidden));
+  });
+
+  // Close the panel on clicks outside it
+  document.addEventListener('click', (event) => {
+    if (!panel.hidden && !(event.target as HTMLElement).closest('.inbox')) {
+      panel.hidden = true;
+      inboxBtn.setAttribute('aria-expanded', 'false');
+    }
+  });
+
+  document.getElementById('mark-all-read-btn')?.addEventListener('click', () => {
+    handleMarkAllRead().catch(error => console.error('Failed to mark notifications read:', error));
+  });
+
+  document.getElementById('inbox-list')?.addEventListener('click', (event) => {
+    const itemEl = (event.target as HTMLElement).closest<HTMLElement>('.inbox-item');
+    if (itemEl) {
+      handleInboxItemClick(itemEl).catch(error => console.error('Failed to mark notification read:', error));
+    }
+  });
+
+  // Ending-soon warnings come from the server's sweep, so check regularly
+  setInterval(() => {
+    loadInbox().catch(error => console.error('Failed to refresh notifications:', error));
+  }, INBOX_POLL_MS);
+}
+
+// ========== Gallery ==========
+
+/**
+ * Show one of an item's photos in the lightbox, wrapping at either end
+ */
+function showLightboxImage(index: number): void {
+  if (!lightbox) return;
+  const { images } = lightbox.item;
+  lightbox.index = (index + images.length) % images.length;
+
+  const image = images[lightbox.index];
+  const imageEl = document.querySelector<HTMLImageElement>('.lightbox-image');
+  const captionEl = document.querySelector('.lightbox-caption');
+  if (imageEl) {
+    imageEl.src = image.url;
+    imageEl.alt = lightbox.item.title;
+  }
+  if (captionEl) {
+    captionEl.textContent = `${lightbox.item.title} (${lightbox.index + 1} of ${images.length})`;
+  }
+  document.querySelectorAll<HTMLElement>('.lightbox-prev, .lightbox-next').forEach(button => {
+    button.hidden = images.length < 2;
+  });
+}
+
+/**
+ * Open the lightbox on an item's photos
+ */
+function openLightbox(item: Item, index: number): void {
+  const lightboxEl = document.getElementById('lightbox');
+  if (!lightboxEl || item.images.length === 0) return;
+  lightbox = { item, index };
+  showLightboxImage(index);
+  lightboxEl.hidden = false;
+}
+
+/**
+ * Close the lightbox
+ */
+function closeLightbox(): void {
+  const lightboxEl = document.getElementById('lightbox');
+  if (lightboxEl) lightboxEl.hidden = true;
+  lightbox = null;
+}
+
+/**
+ * Set up the lightbox's buttons and arrow keys
+ */
+function setupLightboxHandlers(): void {
+  document.querySelector('.lightbox-close')?.addEventListener('click', closeLightbox);
+  document.querySelector('.lightbox-backdrop')?.addEventListener('click', closeLightbox);
+  document.querySelector('.lightbox-prev')?.addEventListener('click', () => showLightboxImage((lightbox?.index ?? 0) - 1));
+  document.querySelector('.lightbox-next')?.addEventListener('click', () => showLightboxImage((lightbox?.index ?? 0) + 1));
+
+  document.addEventListener('keydown', (event) => {
+    if (!lightbox) return;
+    if (event.key === 'Escape') closeLightbox();
+    if (event.key === 'ArrowLeft') showLightboxImage(lightbox.index - 1);
+    if (event.key === 'ArrowRight') showLightboxImage(lightbox.index + 1);
+  });
+}
+
+// ========== Accounts ==========
+
+/**
+ * Read the saved session, if any
+ */
+function loadSession(): Session | null {
+  const saved = localStorage.getItem(SESSION_STORAGE_KEY);
+  return saved ? (JSON.parse(saved) as Session) : null;
+}
+
+/**
+ * Switch to a new session (or none) and refresh everything that depends on it
+ */
+function setSession(newSession: Session | null): void {
+  session = newSession;
+  if (session) {
+    localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+  } else {
+    localStorage.removeItem(SESSION_STORAGE_KEY);
+  }
+  renderAuthState();
+  renderItems(itemsCache);
+  renderEventHeader();
+  loadUserData();
+}
+
+/**
+ * Build JSON request headers, with the session token when logged in
+ */
+function authHeaders(): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (session) {
+    headers['Authorization'] = `Bearer ${session.token}`;
+  }
+  return headers;
+}
+
+/**
+ * Drop a session the server no longer accepts
+ */
+function handleUnauthorized(): never {
+  setSession(null);
+  throw new Error('Your session has expired - please log in again');
+}
+
+/**
+ * Show the login form or the logged-in user
+ */
+function renderAuthState(): void {
+  const loginForm = document.getElementById('login-form');
+  const userPanel = document.getElementById('user-panel');
+  const usernameEl = document.getElementById('current-username');
+  if (!loginForm || !userPanel || !usernameEl) return;
+
+  loginForm.hidden = session !== null;
+  userPanel.hidden = session === null;
+  usernameEl.textContent = session?.username ?? '';
+}
+
+/**
+ * Show feedback next to the login form
+ */
+function showLoginFeedback(message: string): void {
+  const feedback = document.querySelector<HTMLElement>('.login-feedback');
+  if (feedback) {
+    feedback.textContent = message;
+    feedback.hidden = false;
+  }
+}
+
+/**
+ * Log in or register with the credentials in the login form
+ */
+async function submitCredentials(action: 'login' | 'register'): Promise<void> {
+  const usernameInput = document.getElementById('login-username') as HTMLInputElement;
+  const passwordInput = document.getElementById('login-password') as HTMLInputElement;
+
+  const response = await fetch(`/api/auth/${action}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username: usernameInput.value.trim(), password: passwordInput.value }),
+  });
+  const data = await response.json();
+
+  if (!response.ok) {
+    showLoginFeedback(data.error || `Failed to ${action}`);
+    return;
+  }
+
+  passwordInput.value = '';
+  document.querySelector<HTMLElement>('.login-feedback')!.hidden = true;
+  setSession({ token: data.token, username: data.user.username });
+}
+
+/**
+ * Log out of the current session
+ */
+async function handleLogout(): Promise<void> {
+  await fetch('/api/auth/logout', { method: 'POST', headers: authHeaders() });
+  setSession(null);
+}
+
+/**
+ * Set up login, register and logout handlers
+ */
+function setupAuthHandlers(): void {
+  const loginForm = document.getElementById('login-form');
+  const registerBtn = document.getElementById('register-btn');
+  const logoutBtn = document.getElementById('logout-btn');
+
+  if (loginForm) {
+    loginForm.addEventListener('submit', (event) => {
+      event.preventDefault();
+      submitCredentials('login');
+    });
+  }
+
+  if (registerBtn) {
+    registerBtn.addEventListener('click', () => submitCredentials('register'));
+  }
+
+  if (logoutBtn) {
+    logoutBtn.addEventListener('click', handleLogout);
+  }
+
+  renderAuthState();
+}
+
+// ========== Create Auction Modal ==========
+
+/**
+ * Get modal elements
+ */
+function getModalElements() {
+  return {
+    modal: document.getElementById('create-modal'),
+    form: document.getElementById('create-auction-form') as HTMLFormElement | null,
+    openBtn: document.getElementById('create-auction-btn'),
+    closeBtn: document.querySelector('.modal-close'),
+    cancelBtn: document.querySelector('.modal-cancel'),
+    backdrop: document.querySelector('.modal-backdrop'),
+    feedback: document.querySelector('.form-feedback') as HTMLElement | null,
+  };
+}
+
+/**
+ * Open the create auction modal
+ */
+function openModal(): void {
+  const { modal, form } = getModalElements();
+  if (modal) {
     modal.hidden = false;
     // Set minimum datetime to now
     const endsAtInput = document.getElementById('item-ends') as HTMLInputElement;
@@ -284,9 +1288,23 @@ function openModal(): void {
       now.setMinutes(now.getMinutes() - now.getTimezoneOffset() + 60); // 1 hour from now minimum
       endsAtInput.min = now.toISOString().slice(0, 16);
     }
+    const startsAtInput = document.getElementById('item-starts') as HTMLInputElement;
+    if (startsAtInput) {
+      const now = new Date();
+      now.setMinutes(now.getMinutes() - now.getTimezoneOffset());
+      startsAtInput.min = now.toISOString().slice(0, 16);
+    }
   }
   if (form) {
     form.reset();
+    // Adding from an event page makes a lot of that event by default
+    renderEventOptions();
+    const eventSelect = document.getElementById('item-event') as HTMLSelectElement | null;
+    if (eventSelect && currentEvent && eventSelect.querySelector(`option[value="${currentEvent.id}"]`)) {
+      eventSelect.value = currentEvent.id;
+    }
+    showAuctionTypeFields();
+    setPriceSteps();
   }
 }
 
@@ -321,17 +1339,32 @@ function showCreateFeedback(message: string, isError: boolean): void {
 async function createItem(data: {
   title: string;
   description: string;
+  currency: string;
   startingPrice: number;
-  endsAt: string;
+  reservePrice?: number;
+  buyNowPrice?: number;
+  startsAt?: string;
+  endsAt?: string;
+  auctionType: AuctionType;
+  dutch?: { floorPrice: number; dropAmount: number; dropIntervalSeconds: number };
+  quantity?: number;
+  lotPricing?: LotPricing;
+  softClose?: { windowSeconds: number; extensionSeconds: number };
+  eventId?: string;
+  categoryId?: string;
+  tags?: string[];
 }): Promise<Item> {
   const response = await fetch('/api/items', {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
+    headers: authHeaders(),
     body: JSON.stringify(data),
   });
 
   const result = await response.json();
 
+  if (response.status === 401) {
+    handleUnauthorized();
+  }
   if (!response.ok) {
     throw new Error(result.error || 'Failed to create auction');
   }
@@ -339,6 +1372,29 @@ async function createItem(data: {
   return result;
 }
 
+/**
+ * Upload a photo for one of the logged-in user's auctions
+ */
+async function uploadImage(itemId: string, file: File): Promise<Item> {
+  const body = new FormData();
+  body.append('image', file);
+
+  // Let the browser set the multipart Content-Type and boundary
+  const { 'Content-Type': _contentType, ...headers } = authHeaders();
+  const response = await fetch(`/api/items/${itemId}/images`, { method: 'POST', headers, body });
+
+  const result = await response.json();
+
+  if (response.status === 401) {
+    handleUnauthorized();
+  }
+  if (!response.ok) {
+    throw new Error(result.error || `Failed to upload ${file.name}`);
+  }
+
+  return result;
+}
+
 /**
  * Handle create auction form submission
  */
@@ -350,15 +1406,47 @@ async function handleCreateSubmit(event: Event): Promise<void> {
 
   const titleInput = document.getElementById('item-title') as HTMLInputElement;
   const descInput = document.getElementById('item-description') as HTMLTextAreaElement;
+  const auctionTypeInput = document.getElementById('item-auction-type') as HTMLSelectElement;
+  const floorInput = document.getElementById('item-floor') as HTMLInputElement;
+  const dropInput = document.getElementById('item-drop') as HTMLInputElement;
+  const dropIntervalInput = document.getElementById('item-drop-interval') as HTMLInputElement;
+  const currencyInput = document.getElementById('item-currency') as HTMLSelectElement;
   const priceInput = document.getElementById('item-price') as HTMLInputElement;
+  const quantityInput = document.getElementById('item-quantity') as HTMLInputElement;
+  const lotPricingInput = document.getElementById('item-lot-pricing') as HTMLSelectElement;
+  const reserveInput = document.getElementById('item-reserve') as HTMLInputElement;
+  const buyNowInput = document.getElementById('item-buy-now') as HTMLInputElement;
+  const startsInput = document.getElementById('item-starts') as HTMLInputElement;
   const endsInput = document.getElementById('item-ends') as HTMLInputElement;
+  const softCloseInput = document.getElementById('item-soft-close') as HTMLInputElement;
+  const eventInput = document.getElementById('item-event') as HTMLSelectElement;
+  const categoryInput = document.getElementById('item-category') as HTMLSelectElement;
+  const tagsInput = document.getElementById('item-tags') as HTMLInputElement;
+  const imagesInput = document.getElementById('item-images') as HTMLInputElement;
   const submitBtn = form.querySelector('button[type="submit"]') as HTMLButtonElement;
 
   // Validate
   const title = titleInput.value.trim();
   const description = descInput.value.trim();
+  const auctionType = auctionTypeInput.value as AuctionType;
+  const isDutch = auctionType === 'dutch';
+  const isEnglish = auctionType === 'english';
+  const currency = currencyInput.value;
   const startingPrice = parseFloat(priceInput.value);
+  const quantity = isEnglish && quantityInput.value ? parseInt(quantityInput.value, 10) : 1;
+  const reservePrice = reserveInput.value ? parseFloat(reserveInput.value) : undefined;
+  const buyNowPrice = buyNowInput.value ? parseFloat(buyNowInput.value) : undefined;
+  const startsAtLocal = startsInput.value;
   const endsAtLocal = endsInput.value;
+  const eventId = isDutch ? undefined : eventInput.value || undefined;
+  const categoryId = categoryInput.value || undefined;
+  const tags = tagsInput.value.split(',').map(tag => tag.trim()).filter(Boolean);
+  const files = Array.from(imagesInput.files ?? []);
+
+  if (!session) {
+    showCreateFeedback('Log in to create an auction', true);
+    return;
+  }
 
   if (!title) {
     showCreateFeedback('Title is required', true);
@@ -366,17 +1454,73 @@ async function handleCreateSubmit(event: Event): Promise<void> {
   }
 
   if (isNaN(startingPrice) || startingPrice < 1) {
-    showCreateFeedback('Starting price must be at least $1', true);
+    showCreateFeedback(`Starting price must be at least ${formatPrice(1, currency)}`, true);
     return;
   }
 
-  if (!endsAtLocal) {
+  // Dutch items close on their price schedule, so take no end date; only
+  // english items take a reserve or buy-now price
+  const dutch = isDutch
+    ? {
+        floorPrice: parseFloat(floorInput.value),
+        dropAmount: parseFloat(dropInput.value),
+        dropIntervalSeconds: parseInt(dropIntervalInput.value, 10) * 60,
+      }
+    : undefined;
+
+  if (dutch && (isNaN(dutch.floorPrice) || dutch.floorPrice < 0 || dutch.floorPrice >= startingPrice)) {
+    showCreateFeedback('Floor price must be below the starting price', true);
+    return;
+  }
+
+  if (dutch && (isNaN(dutch.dropAmount) || dutch.dropAmount <= 0)) {
+    showCreateFeedback(`Price drop must be more than ${formatPrice(0, currency)}`, true);
+    return;
+  }
+
+  if (dutch && (isNaN(dutch.dropIntervalSeconds) || dutch.dropIntervalSeconds <= 0)) {
+    showCreateFeedback('Drop interval must be at least a minute', true);
+    return;
+  }
+
+  if (isNaN(quantity) || quantity < 1) {
+    showCreateFeedback('Quantity must be at least 1', true);
+    return;
+  }
+
+  if (quantity > 1 && (reservePrice !== undefined || buyNowPrice !== undefined)) {
+    showCreateFeedback('Lots of several units cannot have a reserve or buy now price', true);
+    return;
+  }
+
+  if (isEnglish && reservePrice !== undefined && reservePrice < startingPrice) {
+    showCreateFeedback('Reserve price cannot be below the starting price', true);
+    return;
+  }
+
+  if (isEnglish && buyNowPrice !== undefined && buyNowPrice < (reservePrice ?? startingPrice)) {
+    showCreateFeedback('Buy now price cannot be below the starting or reserve price', true);
+    return;
+  }
+
+  if (!isDutch && !eventId && !endsAtLocal) {
     showCreateFeedback('End date is required', true);
     return;
   }
 
-  // Convert local datetime to ISO string
-  const endsAt = new Date(endsAtLocal).toISOString();
+  if (files.length > MAX_ITEM_IMAGES) {
+    showCreateFeedback(`Choose at most ${MAX_ITEM_IMAGES} photos`, true);
+    return;
+  }
+
+  // Convert local datetimes to ISO strings; lots of an event run on its schedule
+  const startsAt = startsAtLocal && !eventId ? new Date(startsAtLocal).toISOString() : undefined;
+  const endsAt = isDutch || eventId ? undefined : new Date(endsAtLocal).toISOString();
+
+  if (startsAt !== undefined && endsAt !== undefined && startsAt >= endsAt) {
+    showCreateFeedback('Start time must be before the end time', true);
+    return;
+  }
 
   // Disable form
   submitBtn.disabled = true;
@@ -384,17 +1528,57 @@ async function handleCreateSubmit(event: Event): Promise<void> {
   if (feedback) feedback.hidden = true;
 
   try {
-    const newItem = await createItem({ title, description, startingPrice, endsAt });
+    const softClose = softCloseInput.checked && isEnglish
+      ? { windowSeconds: SOFT_CLOSE_SECONDS, extensionSeconds: SOFT_CLOSE_SECONDS }
+      : undefined;
+    let newItem = await createItem({
+      title,
+      description,
+      currency,
+      startingPrice,
+      reservePrice: isEnglish ? reservePrice : undefined,
+      buyNowPrice: isEnglish ? buyNowPrice : undefined,
+      startsAt,
+      endsAt,
+      auctionType,
+      dutch,
+      quantity: quantity > 1 ? quantity : undefined,
+      lotPricing: quantity > 1 ? lotPricingInput.value as LotPricing : undefined,
+      softClose,
+      eventId,
+      categoryId,
+      tags,
+    });
+
+    // Photos are uploaded one at a time once the item exists; a failed
+    // upload still leaves the auction listed
+    let uploadError: string | null = null;
+    if (files.length > 0) {
+      submitBtn.textContent = 'Uploading photos...';
+    }
+    try {
+      for (const file of files) {
+        newItem = await uploadImage(newItem.id, file);
+      }
+    } catch (error) {
+      uploadError = error instanceof Error ? error.message : 'Failed to upload photos';
+    }
 
-    // Add to cache and re-render
-    itemsCache.unshift(newItem);
-    renderItems(itemsCache);
+    // Add to cache and re-render (unless the live stream already added it)
+    if (!itemsCache.some(i => i.id === newItem.id)) {
+      itemsCache.unshift(newItem);
+      renderItems(itemsCache);
+    }
 
     // Show success and close modal
-    showCreateFeedback('Auction created!', false);
+    if (uploadError) {
+      showCreateFeedback(`Auction created, but a photo failed to upload: ${uploadError}`, true);
+    } else {
+      showCreateFeedback('Auction created!', false);
+    }
     setTimeout(() => {
       closeModal();
-    }, 1000);
+    }, uploadError ? 4000 : 1000);
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Failed to create auction';
     showCreateFeedback(message, true);
@@ -404,12 +1588,47 @@ async function handleCreateSubmit(event: Event): Promise<void> {
   }
 }
 
+/**
+ * Show the create form fields for the chosen auction type
+ * A lot of an auction event takes its times from the event, so hides them
+ */
+function showAuctionTypeFields(): void {
+  const auctionTypeInput = document.getElementById('item-auction-type') as HTMLSelectElement | null;
+  const eventInput = document.getElementById('item-event') as HTMLSelectElement | null;
+  const endsInput = document.getElementById('item-ends') as HTMLInputElement | null;
+  const auctionType = auctionTypeInput?.value ?? 'english';
+  const isEventLot = auctionType !== 'dutch' && Boolean(eventInput?.value);
+
+  document.querySelectorAll<HTMLElement>('[data-auction-types], [data-event-schedule]').forEach(el => {
+    const auctionTypes = el.dataset.auctionTypes?.split(' ');
+    el.hidden = (auctionTypes !== undefined && !auctionTypes.includes(auctionType))
+      || (isEventLot && el.dataset.eventSchedule !== undefined);
+  });
+  if (endsInput) endsInput.required = auctionType !== 'dutch' && !isEventLot;
+}
+
+/**
+ * Step the create form's price inputs by the chosen currency's minor unit
+ */
+function setPriceSteps(): void {
+  const currencyInput = document.getElementById('item-currency') as HTMLSelectElement | null;
+  const step = getPriceStep(currencyInput?.value ?? 'USD');
+
+  document.querySelectorAll<HTMLInputElement>('#create-auction-form input[data-price]').forEach(input => {
+    input.step = step;
+  });
+}
+
 /**
  * Set up modal event handlers
  */
 function setupModalHandlers(): void {
   const { openBtn, closeBtn, cancelBtn, backdrop, form } = getModalElements();
 
+  document.getElementById('item-auction-type')?.addEventListener('change', showAuctionTypeFields);
+  document.getElementById('item-event')?.addEventListener('change', showAuctionTypeFields);
+  document.getElementById('item-currency')?.addEventListener('change', setPriceSteps);
+
   if (openBtn) {
     openBtn.addEventListener('click', openModal);
   }
@@ -438,6 +1657,417 @@ function setupModalHandlers(): void {
   });
 }
 
+// ========== Live Updates ==========
+
+/**
+ * Apply an item pushed by the server
+ */
+function applyItemEvent(event: MessageEvent, isNew: boolean): void {
+  lastEventId = event.lastEventId || lastEventId;
+  const { item } = JSON.parse(event.data) as { item: Item };
+
+  // New items belong at the end of the default list; a filtered, re-sorted
+  // or partly loaded list picks them up when it is next loaded
+  const exists = itemsCache.some(i => i.id === item.id);
+  if (isNew && !exists && !listQuery.toString() && nextCursor === null) {
+    itemsCache.push(item);
+    renderItems(itemsCache);
+  } else if (exists) {
+    updateItemInDOM(item);
+  }
+}
+
+/**
+ * Refresh the inbox after a bid or close that may have notified the user
+ */
+function refreshInbox(): void {
+  loadInbox().catch(error => console.error('Failed to refresh notifications:', error));
+}
+
+/**
+ * Check whether the logged-in user could be notified about an item: they
+ * watch it, lead it, hold units of it or won it
+ */
+function concernsUser(item: Item): boolean {
+  if (!session) return false;
+  const { username } = session;
+  return watchlist.has(item.id)
+    || item.highBidderId === username
+    || item.winnerId === username
+    || item.allocations.some(allocation => allocation.bidderId === username);
+}
+
+/**
+ * Apply a bid or close pushed by the server, refreshing the inbox only when
+ * the user was or is involved in the item; the inbox poll catches the rest
+ */
+function applyNotifyingEvent(event: MessageEvent): void {
+  const { item } = JSON.parse(event.data) as { item: Item };
+  const previous = itemsCache.find(i => i.id === item.id);
+  const involved = concernsUser(item) || (previous !== undefined && concernsUser(previous));
+
+  applyItemEvent(event, false);
+  if (involved) refreshInbox();
+}
+
+/**
+ * Reload the list and inbox after the event stream missed events
+ */
+function reloadAfterGap(): void {
+  loadItems().catch(error => console.error('Failed to reload items:', error));
+  refreshInbox();
+}
+
+/**
+ * Subscribe to server-sent auction events
+ * EventSource retries dropped connections itself and sends Last-Event-ID;
+ * if it gives up entirely, reopen it and pass the last ID explicitly. The
+ * list is reloaded when the stream comes back, and again if the server
+ * sends `reset` because it can't replay what was missed
+ */
+function connectEvents(): void {
+  const url = lastEventId ? `/api/events?lastEventId=${encodeURIComponent(lastEventId)}` : '/api/events';
+  const source = new EventSource(url);
+
+  source.addEventListener('item.created', (event) => applyItemEvent(event as MessageEvent, true));
+  source.addEventListener('item.started', (event) => applyItemEvent(event as MessageEvent, false));
+  source.addEventListener('bid.placed', (event) => applyNotifyingEvent(event as MessageEvent));
+  source.addEventListener('item.extended', (event) => applyItemEvent(event as MessageEvent, false));
+  source.addEventListener('item.updated', (event) => applyItemEvent(event as MessageEvent, false));
+  source.addEventListener('item.closed', (event) => applyNotifyingEvent(event as MessageEvent));
+  source.addEventListener('item.cancelled', (event) => applyItemEvent(event as MessageEvent, false));
+  source.addEventListener('reset', (event) => {
+    lastEventId = (event as MessageEvent).lastEventId || lastEventId;
+    reloadAfterGap();
+  });
+
+  source.addEventListener('open', () => {
+    if (eventsInterrupted) {
+      eventsInterrupted = false;
+      reloadAfterGap();
+    }
+  });
+  source.addEventListener('error', () => {
+    eventsInterrupted = true;
+    if (source.readyState === EventSource.CLOSED) {
+      setTimeout(connectEvents, EVENTS_RECONNECT_MS);
+    }
+  });
+}
+
+// ========== Auction Events ==========
+
+/**
+ * Describe when an event's lots close
+ */
+function formatEventSchedule(event: AuctionEvent): string {
+  const stagger = event.staggerSeconds < 60
+    ? `${event.staggerSeconds} sec`
+    : `${Math.round(event.staggerSeconds / 60)} min`;
+  const opens = event.startsAt ? `Opens ${new Date(event.startsAt).toLocaleString()}. ` : '';
+  return `${opens}Lot 1 closes ${new Date(event.firstLotEndsAt).toLocaleString()}, then one every ${stagger}.`;
+}
+
+/**
+ * Render the event list as cards linking to each event's page
+ */
+function renderEventList(): void {
+  const listEl = document.getElementById('event-list');
+  if (!listEl) return;
+
+  if (auctionEvents.length === 0) {
+    listEl.innerHTML = '<p class="loading-message">No auction events yet.</p>';
+    return;
+  }
+  listEl.innerHTML = auctionEvents.map(event => `
+    <a class="event-card" href="#event-${event.id}">
+      <h4>${escapeHtml(event.title)} ${event.pausedAt ? '<span class="paused-badge">Paused</span>' : ''}</h4>
+      <p class="event-schedule">${formatEventSchedule(event)}</p>
+    </a>
+  `).join('');
+}
+
+/**
+ * Show the header of the event whose page is open, in place of the list
+ * heading and filters; its seller gets pause and resume buttons
+ */
+function renderEventHeader(): void {
+  const header = document.getElementById('event-header');
+  const heading = document.getElementById('auctions-heading');
+  const filterForm = document.getElementById('filter-form');
+  if (heading) heading.hidden = currentEvent !== null;
+  if (filterForm) filterForm.hidden = currentEvent !== null;
+  if (!header) return;
+
+  header.hidden = currentEvent === null;
+  if (!currentEvent) {
+    header.innerHTML = '';
+    return;
+  }
+
+  const isPaused = currentEvent.pausedAt !== null;
+  const actionsHtml = session?.username === currentEvent.sellerId ? `
+    <div class="event-actions">
+      <button type="button" class="btn-secondary" data-event-action="${isPaused ? 'resume' : 'pause'}">${isPaused ? 'Resume event' : 'Pause event'}</button>
+      <span class="bid-feedback" hidden></span>
+    </div>
+  ` : '';
+  header.innerHTML = `
+    <a href="#auctions">&larr; All auctions</a>
+    <h3>${escapeHtml(currentEvent.title)} ${isPaused ? '<span class="paused-badge">Paused</span>' : ''}</h3>
+    ${currentEvent.description ? `<p class="auction-description">${escapeHtml(currentEvent.description)}</p>` : ''}
+    <p class="event-schedule">${formatEventSchedule(currentEvent)}</p>
+    ${actionsHtml}
+  `;
+}
+
+/**
+ * Fill the create form's event picker with the logged-in user's events that
+ * can take new lots
+ */
+function renderEventOptions(): void {
+  const select = document.getElementById('item-event') as HTMLSelectElement | null;
+  if (!select) return;
+
+  const options = auctionEvents
+    .filter(event => event.sellerId === session?.username && event.pausedAt === null)
+    .map(event => `<option value="${event.id}">${escapeHtml(event.title)}</option>`)
+    .join('');
+  select.innerHTML = `<option value="">Not part of an event</option>${options}`;
+}
+
+/**
+ * Pause or resume one of the logged-in user's events
+ */
+async function setEventPaused(eventId: string, paused: boolean): Promise<AuctionEvent> {
+  const response = await fetch(`/api/auction-events/${eventId}/${paused ? 'pause' : 'resume'}`, {
+    method: 'POST',
+    headers: authHeaders(),
+  });
+
+  const data = await response.json();
+
+  if (response.status === 401) {
+    handleUnauthorized();
+  }
+  if (!response.ok) {
+    throw new RequestError(data, paused ? 'Failed to pause event' : 'Failed to resume event');
+  }
+
+  return data;
+}
+
+/**
+ * Handle the seller's pause or resume button on an event page
+ */
+async function handleEventActionClick(button: HTMLButtonElement): Promise<void> {
+  const actions = button.closest<HTMLElement>('.event-actions');
+  if (!actions || !currentEvent) return;
+
+  button.disabled = true;
+
+  try {
+    const updatedEvent = await setEventPaused(currentEvent.id, button.dataset.eventAction === 'pause');
+    auctionEvents = auctionEvents.map(event => (event.id === updatedEvent.id ? updatedEvent : event));
+    currentEvent = updatedEvent;
+    renderEventHeader();
+    renderEventList();
+    // Resuming moves every lot's deadline, so reload them all
+    await loadItems();
+  } catch (error) {
+    showBidFeedback(actions, error instanceof Error ? error : 'Failed to update event', true);
+    button.disabled = false;
+  }
+}
+
+/**
+ * Show the event page for an #event-<id> hash, or the filtered list
+ * otherwise; lots are listed in lot order
+ */
+function applyRoute(): void {
+  const match = /^#event-(.+)$/.exec(location.hash);
+  currentEvent = match ? auctionEvents.find(event => event.id === match[1]) ?? null : null;
+  listQuery = currentEvent
+    ? new URLSearchParams({ event: currentEvent.id, sort: 'lotNumber' })
+    : readFilters();
+  renderEventHeader();
+}
+
+/**
+ * Set up event page routing and the seller's event buttons
+ */
+function setupEventHandlers(): void {
+  window.addEventListener('hashchange', () => {
+    const previousId = currentEvent?.id;
+    applyRoute();
+    if (currentEvent?.id !== previousId) {
+      document.getElementById('auctions')?.scrollIntoView();
+      loadItems().catch(error => console.error('Failed to load auctions:', error));
+    }
+  });
+
+  document.getElementById('event-header')?.addEventListener('click', (event) => {
+    const button = (event.target as HTMLElement).closest<HTMLButtonElement>('[data-event-action]');
+    if (button) handleEventActionClick(button);
+  });
+}
+
+// ========== Filters and Paging ==========
+
+/**
+ * Read a filter control's value
+ */
+function readControl(id: string): string {
+  const control = document.getElementById(id) as HTMLInputElement | HTMLSelectElement | null;
+  return control?.value.trim() ?? '';
+}
+
+/**
+ * Build the list query from the filter controls
+ * Empty controls and the default sort are left out
+ */
+function readFilters(): URLSearchParams {
+  const params = new URLSearchParams();
+
+  const q = readControl('filter-q');
+  if (q) params.set('q', q);
+  const category = readControl('filter-category');
+  if (category) params.set('category', category);
+  const tag = readControl('filter-tag');
+  if (tag) params.set('tag', tag);
+  const status = readControl('filter-status');
+  if (status) params.set('status', status);
+  const currency = readControl('filter-currency');
+  if (currency) params.set('currency', currency);
+  const minPrice = readControl('filter-min-price');
+  if (minPrice) params.set('minPrice', minPrice);
+  const maxPrice = readControl('filter-max-price');
+  if (maxPrice) params.set('maxPrice', maxPrice);
+
+  const endingWithin = readControl('filter-ending');
+  if (endingWithin) {
+    params.set('endingBefore', new Date(Date.now() + Number(endingWithin)).toISOString());
+  }
+
+  const sort = readControl('filter-sort');
+  if (sort) {
+    const [field, order] = sort.split(':');
+    params.set('sort', field);
+    params.set('order', order);
+  }
+  return params;
+}
+
+/**
+ * Require a currency while the filters compare prices, as the server only
+ * compares prices within one currency
+ */
+function updateCurrencyRequired(): void {
+  const currency = document.getElementById('filter-currency') as HTMLSelectElement | null;
+  if (!currency) return;
+  currency.required = Boolean(readControl('filter-min-price') || readControl('filter-max-price'))
+    || readControl('filter-sort').startsWith('price:');
+}
+
+/**
+ * Fill the category pickers in the filter form and create modal
+ */
+function renderCategoryOptions(): void {
+  const options = categories
+    .map(category => `<option value="${category.id}">${escapeHtml(category.name)}</option>`)
+    .join('');
+  for (const [id, emptyLabel] of [['filter-category', 'All categories'], ['item-category', 'No category']]) {
+    const select = document.getElementById(id) as HTMLSelectElement | null;
+    if (select) {
+      const selected = select.value;
+      select.innerHTML = `<option value="">${emptyLabel}</option>${options}`;
+      select.value = selected;
+    }
+  }
+}
+
+/**
+ * Filter the list by a clicked category or tag chip, or open a clicked
+ * event's page
+ */
+function handleChipClick(chip: HTMLElement): void {
+  if (chip.dataset.eventId) {
+    location.hash = `event-${chip.dataset.eventId}`;
+    return;
+  }
+  const categorySelect = document.getElementById('filter-category') as HTMLSelectElement | null;
+  const tagInput = document.getElementById('filter-tag') as HTMLInputElement | null;
+  if (chip.dataset.categoryId && categorySelect) {
+    categorySelect.value = chip.dataset.categoryId;
+  }
+  if (chip.dataset.tag && tagInput) {
+    tagInput.value = chip.dataset.tag;
+  }
+  document.getElementById('filter-form')?.dispatchEvent(new Event('submit', { cancelable: true }));
+}
+
+/**
+ * Show the load more button while there are more pages
+ */
+function updateLoadMore(): void {
+  const button = document.getElementById('load-more-btn');
+  if (button) {
+    button.hidden = nextCursor === null;
+  }
+}
+
+/**
+ * Load the first page of the list for the current query
+ */
+async function loadItems(): Promise<void> {
+  const page = await fetchItems(listQuery);
+  nextCursor = page.nextCursor;
+  renderItems(page.items);
+  updateLoadMore();
+}
+
+/**
+ * Append the next page of the list
+ */
+async function handleLoadMore(button: HTMLButtonElement): Promise<void> {
+  button.disabled = true;
+  try {
+    const page = await fetchItems(listQuery, nextCursor);
+    nextCursor = page.nextCursor;
+    renderItems([...itemsCache, ...page.items.filter(item => !itemsCache.some(i => i.id === item.id))]);
+    updateLoadMore();
+  } catch (error) {
+    console.error('Failed to load more auctions:', error);
+  } finally {
+    button.disabled = false;
+  }
+}
+
+/**
+ * Set up the filter form and load more button
+ */
+function setupFilterHandlers(): void {
+  const form = document.getElementById('filter-form');
+  if (form) {
+    form.addEventListener('input', updateCurrencyRequired);
+    form.addEventListener('submit', (event) => {
+      event.preventDefault();
+      // Filtering from an event page (by a chip) goes back to the full list
+      if (currentEvent) {
+        location.hash = 'auctions';
+        return;
+      }
+      listQuery = readFilters();
+      loadItems().catch(error => console.error('Failed to filter auctions:', error));
+    });
+  }
+
+  const loadMoreBtn = document.getElementById('load-more-btn') as HTMLButtonElement | null;
+  if (loadMoreBtn) {
+    loadMoreBtn.addEventListener('click', () => handleLoadMore(loadMoreBtn));
+  }
+}
+
 // ========== Countdown Timer ==========
 
 /**
@@ -445,6 +2075,35 @@ function setupModalHandlers(): void {
  */
 function updateCountdowns(): void {
   const now = Date.now();
+
+  // Scheduled items count down to their start
+  document.querySelectorAll<HTMLElement>('.auction-item[data-starts-at]').forEach(item => {
+    const startsAtStr = item.dataset.startsAt;
+    const countdownEl = item.querySelector<HTMLElement>('[data-countdown]');
+    if (!startsAtStr || !countdownEl) return;
+
+    const remaining = new Date(startsAtStr).getTime() - now;
+    countdownEl.textContent = formatCountdown(remaining);
+
+    if (remaining <= 0 && item.dataset.itemId) {
+      // Started: stop counting and fetch the now-active item
+      delete item.dataset.startsAt;
+      refreshItem(item.dataset.itemId);
+    }
+  });
+
+  // Dutch items show their price falling
+  document.querySelectorAll<HTMLElement>('.auction-item[data-dutch]').forEach(itemEl => {
+    const item = itemsCache.find(i => i.id === itemEl.dataset.itemId);
+    if (!item?.dutch) return;
+
+    const price = formatPrice(getDutchPrice(item, now), item.currency);
+    const priceEl = itemEl.querySelector<HTMLElement>('.current-bid');
+    const acceptBtn = itemEl.querySelector<HTMLButtonElement>('.accept-button');
+    if (priceEl) priceEl.textContent = `Price: ${price}`;
+    if (acceptBtn) acceptBtn.textContent = `Accept ${price}`;
+  });
+
   const items = document.querySelectorAll<HTMLElement>('.auction-item[data-ends-at]');
 
   items.forEach(item => {
@@ -489,11 +2148,29 @@ async function init(): Promise<void> {
   // Set up event handlers before loading items
   setupBidFormHandlers();
   setupModalHandlers();
+  setupAuthHandlers();
+  setupFilterHandlers();
+  setupLightboxHandlers();
+  setupInboxHandlers();
+  setupEventHandlers();
 
   try {
-    // Fetch and render items
-    const items = await fetchItems();
-    renderItems(items);
+    // Categories and events label the items, so load them first
+    categories = await fetchCategories();
+    renderCategoryOptions();
+    auctionEvents = await fetchAuctionEvents();
+    renderEventList();
+
+    // Fetch and render the first page of items, or the lots of an event
+    // page opened by its link
+    applyRoute();
+    await loadItems();
+
+    // Mark watched items and fill the inbox
+    await loadUserData();
+
+    // Keep the list live
+    connectEvents();
 
     // Start countdown updates
     updateCountdowns();
@@ -0,0 +1,101 @@
+/**
+ * User accounts: registration, password hashing and login sessions
+ */
+
+import crypto from 'crypto';
+import { User, Session } from './types.js';
+import { Store } from './store.js';
+
+// scrypt parameters for password hashes
+const SALT_BYTES = 16;
+const KEY_LENGTH = 64;
+
+// Session tokens are random and long-lived
+const TOKEN_BYTES = 32;
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+/**
+ * Hash a password with a random salt
+ * The result is self-contained: "salt:hash", both hex encoded
+ */
+export function hashPassword(password: string): string {
+  const salt = crypto.randomBytes(SALT_BYTES);
+  const hash = crypto.scryptSync(password, salt, KEY_LENGTH);
+  return `${salt.toString('hex')}:${hash.toString('hex')}`;
+}
+
+/**
+ * Check a password against a hash from hashPassword
+ */
+export function verifyPassword(password: string, passwordHash: string): boolean {
+  const [saltHex, hashHex] = passwordHash.split(':');
+  if (!saltHex || !hashHex) return false;
+
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = crypto.scryptSync(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+/**
+ * Register a new user
+ * Returns the user, or null if the username is taken
+ */
+export function registerUser(
+  store: Store,
+  username: string,
+  password: string,
+  createdAt: Date = new Date()
+): User | null {
+  const passwordHash = hashPassword(password);
+
+  return store.transaction(() => {
+    if (store.getUserByUsername(username)) return null;
+    return store.insertUser({ username, passwordHash, createdAt });
+  });
+}
+
+/**
+ * Start a session for a user
+ */
+export function createSession(store: Store, user: User, now: Date): Session {
+  const session: Session = {
+    token: crypto.randomBytes(TOKEN_BYTES).toString('hex'),
+    userId: user.id,
+    createdAt: now,
+    expiresAt: new Date(now.getTime() + SESSION_TTL_MS),
+  };
+  store.insertSession(session);
+  return session;
+}
+
+/**
+ * Check a username and password
+ * Returns the user, or null if the credentials are wrong
+ */
+export function authenticate(store: Store, username: string, password: string): User | null {
+  const user = store.getUserByUsername(username);
+  if (!user || !verifyPassword(password, user.passwordHash)) return null;
+  return user;
+}
+
+/**
+ * Look up the user behind a session token
+ * Expired sessions are removed and treated as missing
+ */
+export function getSessionUser(store: Store, token: string, now: Date): User | undefined {
+  const session = store.getSession(token);
+  if (!session) return undefined;
+
+  if (session.expiresAt <= now) {
+    store.deleteSession(token);
+    return undefined;
+  }
+  return store.getUser(session.userId);
+}
+
+/**
+ * End a session
+ */
+export function logout(store: Store, token: string): void {
+  store.deleteSession(token);
+}
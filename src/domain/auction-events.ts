@@ -0,0 +1,76 @@
+/**
+ * Auction events: catalogue sales whose lots close one after another
+ * Lots are numbered from 1 in the order they are added. Lot n closes
+ * (n - 1) * staggerSeconds after firstLotEndsAt, and every lot opens for
+ * bidding at the event's startsAt. Pausing and resuming an event, which
+ * moves its lots' deadlines, lives with the other auction rules.
+ */
+
+import { AuctionEvent, CreateAuctionEventInput, Item } from './types.js';
+import { Store } from './store.js';
+
+/**
+ * Get the time a lot of an event closes, before any soft close extension
+ */
+export function getLotEndsAt(event: AuctionEvent, lotNumber: number): Date {
+  return new Date(event.firstLotEndsAt.getTime() + (lotNumber - 1) * event.staggerSeconds * 1000);
+}
+
+/**
+ * Get the time an event's lots open for bidding, or null if they already
+ * can at the given time
+ */
+export function getLotStartsAt(event: AuctionEvent, now: Date): Date | null {
+  return event.startsAt && event.startsAt > now ? event.startsAt : null;
+}
+
+/**
+ * List an event's lots in lot order
+ */
+export function listLots(store: Store, eventId: string): Item[] {
+  return store
+    .listItems()
+    .filter(item => item.eventId === eventId)
+    .sort((a, b) => a.lotNumber! - b.lotNumber!);
+}
+
+/**
+ * Get the number the next lot added to an event gets
+ */
+export function getNextLotNumber(store: Store, eventId: string): number {
+  const lots = listLots(store, eventId);
+  return lots.length === 0 ? 1 : lots[lots.length - 1].lotNumber! + 1;
+}
+
+/**
+ * Create an auction event run by the given seller
+ */
+export function createAuctionEvent(
+  store: Store,
+  input: CreateAuctionEventInput,
+  sellerId: string,
+  createdAt: Date = new Date()
+): AuctionEvent {
+  return store.insertAuctionEvent({
+    title: input.title,
+    description: input.description,
+    sellerId,
+    startsAt: input.startsAt ? new Date(input.startsAt) : null,
+    firstLotEndsAt: new Date(input.firstLotEndsAt),
+    staggerSeconds: input.staggerSeconds,
+    pausedAt: null,
+    createdAt,
+  });
+}
+
+/**
+ * Delete an auction event
+ * Returns false, leaving it in place, if it has any lots
+ */
+export function deleteAuctionEvent(store: Store, id: string): boolean {
+  return store.transaction(() => {
+    if (listLots(store, id).length > 0) return false;
+    store.deleteAuctionEvent(id);
+    return true;
+  });
+}
@@ -0,0 +1,660 @@
+/**
+ * Auction rules: creating items, bidding and settlement
+ * Operates on an injected Store; every operation runs in one transaction and
+ * publishes its events only after it commits
+ */
+
+import {
+  Item,
+  ItemImage,
+  CreateItemInput,
+  EditItemInput,
+  Bid,
+  PlaceBidInput,
+  PlaceBidResult,
+  AuctionEvent,
+  EditAuctionEventInput,
+} from './types.js';
+import { Store } from './store.js';
+import { VersionConflictError } from './errors.js';
+import { DomainEvent, publish } from './events.js';
+import { Money, DEFAULT_CURRENCY, toMoney, toMajorUnits } from './money.js';
+import { getIncrement, getMinimumBid } from './increments.js';
+import { getDutchEndsAt, getDutchPrice } from './dutch.js';
+import { isSealed, getSealedSettlement } from './sealed.js';
+import { isLot, allocateUnits, getClearingPrice, getLotMinimumBid } from './lots.js';
+import { getLotEndsAt, getLotStartsAt, getNextLotNumber, listLots } from './auction-events.js';
+import { normalizeTags } from './categories.js';
+import { notify } from './notifications.js';
+
+type Emit = (event: DomainEvent) => void;
+
+// Most images an item can have
+export const MAX_ITEM_IMAGES = 8;
+
+/**
+ * Run an operation in a transaction, publishing the events it emits once
+ * the transaction commits
+ */
+function commit<T>(store: Store, operation: (emit: Emit) => T): T {
+  const pending: DomainEvent[] = [];
+  const emit: Emit = event => {
+    // Snapshot now: the item may change again before the transaction ends
+    pending.push({ ...event, item: structuredClone(event.item) });
+  };
+
+  const result = store.transaction(() => operation(emit));
+  pending.forEach(publish);
+  return result;
+}
+
+/**
+ * Write an item back, keeping its version in step with the store
+ * Throws VersionConflictError if the item changed since it was read
+ */
+function saveItem(store: Store, item: Item): void {
+  item.version = store.updateItem(item);
+}
+
+/**
+ * Throw VersionConflictError unless the item is at the expected version
+ * An undefined expectedVersion accepts any version
+ */
+function checkVersion(item: Item, expectedVersion: number | undefined): void {
+  if (expectedVersion !== undefined && item.version !== expectedVersion) {
+    throw new VersionConflictError(item.id);
+  }
+}
+
+/**
+ * Check whether an item has yet to finish (it is scheduled, active or paused)
+ */
+function isOpen(item: Item): boolean {
+  return item.status === 'scheduled' || item.status === 'active' || item.status === 'paused';
+}
+
+/**
+ * Get the lowest amount a bid on an item may be at a moment: a dutch
+ * auction's current price, a sealed auction's starting price, the price per
+ * unit that wins some of a lot, otherwise the next increment up
+ */
+export function getMinimumBidAt(item: Item, now: Date): Money {
+  if (item.auctionType === 'dutch') return getDutchPrice(item, now);
+  if (isSealed(item.auctionType)) return item.startingPrice;
+  if (isLot(item)) return getLotMinimumBid(item);
+  return getMinimumBid(item);
+}
+
+/**
+ * Create a new auction item listed by the given seller
+ * Items with a startsAt are scheduled until startItem opens them for bids;
+ * a dutch auction's endsAt follows from its price schedule. An item added
+ * to an auction event becomes its next lot and takes its startsAt and
+ * endsAt from the event's schedule. Prices are converted to Money in the
+ * item's currency
+ */
+export function createItem(
+  store: Store,
+  input: CreateItemInput,
+  sellerId: string,
+  createdAt: Date = new Date()
+): Item {
+  const inputStartsAt = input.startsAt ? new Date(input.startsAt) : null;
+  const currency = input.currency ?? DEFAULT_CURRENCY;
+  const price = (value: number | undefined) => (value === undefined ? null : toMoney(value, currency));
+  const startingPrice = toMoney(input.startingPrice, currency);
+  const dutch = input.dutch
+    ? {
+        floorPrice: toMoney(input.dutch.floorPrice, currency),
+        dropAmount: toMoney(input.dutch.dropAmount, currency),
+        dropIntervalSeconds: input.dutch.dropIntervalSeconds,
+      }
+    : null;
+
+  return commit(store, emit => {
+    const event = input.eventId ? store.getAuctionEvent(input.eventId) : undefined;
+    const lotNumber = event ? getNextLotNumber(store, event.id) : null;
+    const startsAt = event ? getLotStartsAt(event, createdAt) : inputStartsAt;
+    let endsAt: Date;
+    if (event) {
+      endsAt = getLotEndsAt(event, lotNumber!);
+    } else if (dutch) {
+      endsAt = getDutchEndsAt(startingPrice, dutch, startsAt ?? createdAt);
+    } else {
+      endsAt = new Date(input.endsAt!);
+    }
+
+    const item = store.insertItem({
+      title: input.title,
+      description: input.description,
+      sellerId,
+      startingPrice,
+      reservePrice: price(input.reservePrice),
+      buyNowPrice: price(input.buyNowPrice),
+      currentBid: null,
+      bidCount: 0,
+      highBidderId: null,
+      startsAt,
+      endsAt,
+      status: startsAt ? 'scheduled' : 'active',
+      createdAt,
+      auctionType: input.auctionType ?? 'english',
+      dutch,
+      quantity: input.quantity ?? 1,
+      lotPricing: (input.quantity ?? 1) > 1 ? input.lotPricing ?? 'uniform' : null,
+      softClose: input.softClose
+        ? {
+            windowSeconds: input.softClose.windowSeconds,
+            extensionSeconds: input.softClose.extensionSeconds,
+            hardCloseAt: input.softClose.hardCloseAt ? new Date(input.softClose.hardCloseAt) : null,
+          }
+        : null,
+      incrementTable: input.incrementTable ?? null,
+      eventId: event?.id ?? null,
+      lotNumber,
+      categoryId: input.categoryId ?? null,
+      tags: normalizeTags(input.tags ?? []),
+      images: [],
+      allocations: [],
+      outcome: null,
+      winnerId: null,
+      winningBid: null,
+      closedAt: null,
+    });
+
+    emit({ type: 'item.created', item });
+    return item;
+  });
+}
+
+/**
+ * Open a scheduled item for bidding
+ * Returns the item unchanged if it is not scheduled
+ */
+export function startItem(store: Store, id: string): Item | undefined {
+  return commit(store, emit => {
+    const item = store.getItem(id);
+    if (!item || item.status !== 'scheduled') return item;
+
+    item.status = 'active';
+    saveItem(store, item);
+    emit({ type: 'item.started', item });
+    return item;
+  });
+}
+
+/**
+ * Settle an active item against its highest bid
+ * Winner, winning bid, outcome and close time are all set together; an item
+ * whose highest bid is below its reserve closes without a winner. Sealed
+ * items reveal their price and winner here (see getSealedSettlement). A lot
+ * fixes its allocations, and every bidder holding units wins; the top one is
+ * recorded as its winnerId.
+ */
+function settleItem(store: Store, item: Item, closedAt: Date, emit: Emit): Item {
+  if (item.status !== 'active') return item;
+
+  const bids = store.listBids(item.id);
+  let highestBid: Pick<Bid, 'bidderId' | 'amount'> | null;
+  if (isSealed(item.auctionType)) {
+    highestBid = getSealedSettlement(item, bids);
+  } else if (isLot(item)) {
+    item.allocations = allocateUnits(item, bids);
+    const [top] = item.allocations;
+    highestBid = top ? { bidderId: top.bidderId, amount: top.price } : null;
+  } else {
+    highestBid = bids.reduce<Bid | null>(
+      // Later bids win ties: a proxy defending at an equal amount keeps the lead
+      (best, bid) => (best === null || bid.amount.amount >= best.amount.amount ? bid : best),
+      null
+    );
+  }
+  if (highestBid && isSealed(item.auctionType)) {
+    item.currentBid = highestBid.amount;
+    item.highBidderId = highestBid.bidderId;
+  }
+
+  item.status = 'closed';
+  item.closedAt = closedAt;
+  if (!highestBid) {
+    item.outcome = 'no_bids';
+  } else if (item.reservePrice !== null && highestBid.amount.amount < item.reservePrice.amount) {
+    item.outcome = 'reserve_not_met';
+  } else {
+    item.outcome = 'sold';
+    item.winnerId = highestBid.bidderId;
+    item.winningBid = highestBid.amount;
+  }
+
+  saveItem(store, item);
+  emit({ type: 'item.closed', item });
+  const winnerIds = isLot(item) ? item.allocations.map(allocation => allocation.bidderId) : [item.winnerId];
+  for (const winnerId of winnerIds) {
+    if (winnerId !== null) notify(store, winnerId, 'won', item, closedAt);
+  }
+  return item;
+}
+
+/**
+ * Close an active item and settle it against its highest bid
+ */
+export function closeItem(store: Store, id: string, closedAt: Date): Item | undefined {
+  return commit(store, emit => {
+    const item = store.getItem(id);
+    if (!item) return undefined;
+
+    return settleItem(store, item, closedAt, emit);
+  });
+}
+
+/**
+ * Change an item's listing details
+ * Only scheduled or active items without bids can be edited
+ * Returns the updated item, or null if the item can't be edited
+ */
+export function editItem(
+  store: Store,
+  id: string,
+  changes: EditItemInput,
+  expectedVersion?: number
+): Item | null {
+  return commit(store, emit => {
+    const item = store.getItem(id);
+    if (!item) return null;
+    checkVersion(item, expectedVersion);
+    if (!isOpen(item) || item.bidCount > 0) return null;
+
+    if (changes.title !== undefined) item.title = changes.title;
+    if (changes.description !== undefined) item.description = changes.description;
+    if (changes.endsAt !== undefined) item.endsAt = new Date(changes.endsAt);
+
+    saveItem(store, item);
+    emit({ type: 'item.updated', item });
+    return item;
+  });
+}
+
+/**
+ * Add an uploaded image to a scheduled or active item
+ * Returns the updated item, or null if the item has finished or already has
+ * MAX_ITEM_IMAGES images
+ */
+export function addItemImage(
+  store: Store,
+  id: string,
+  image: ItemImage,
+  expectedVersion?: number
+): Item | null {
+  return commit(store, emit => {
+    const item = store.getItem(id);
+    if (!item) return null;
+    checkVersion(item, expectedVersion);
+    if (!isOpen(item) || item.images.length >= MAX_ITEM_IMAGES) return null;
+
+    item.images.push(image);
+
+    saveItem(store, item);
+    emit({ type: 'item.updated', item });
+    return item;
+  });
+}
+
+/**
+ * Withdraw a scheduled or active item; existing bids stay in the history but
+ * nobody wins
+ * Returns the cancelled item, or null if the item has already finished
+ */
+export function cancelItem(
+  store: Store,
+  id: string,
+  cancelledAt: Date,
+  expectedVersion?: number
+): Item | null {
+  return commit(store, emit => {
+    const item = store.getItem(id);
+    if (!item) return null;
+    checkVersion(item, expectedVersion);
+    if (!isOpen(item)) return null;
+
+    item.status = 'cancelled';
+    item.closedAt = cancelledAt;
+
+    saveItem(store, item);
+    emit({ type: 'item.cancelled', item });
+    return item;
+  });
+}
+
+/**
+ * Change an auction event's details
+ * A change to its schedule moves every open lot to the new times; that is
+ * only allowed while the event is running and none of its lots has a bid
+ * Returns the updated event, or null if it can't be edited
+ */
+export function editAuctionEvent(
+  store: Store,
+  id: string,
+  changes: EditAuctionEventInput,
+  now: Date
+): AuctionEvent | null {
+  return commit(store, emit => {
+    const event = store.getAuctionEvent(id);
+    if (!event) return null;
+
+    const lots = listLots(store, id);
+    const rescheduling =
+      changes.startsAt !== undefined || changes.firstLotEndsAt !== undefined || changes.staggerSeconds !== undefined;
+    if (rescheduling && (event.pausedAt !== null || lots.some(lot => lot.bidCount > 0))) return null;
+
+    if (changes.title !== undefined) event.title = changes.title;
+    if (changes.description !== undefined) event.description = changes.description;
+    if (changes.startsAt !== undefined) event.startsAt = new Date(changes.startsAt);
+    if (changes.firstLotEndsAt !== undefined) event.firstLotEndsAt = new Date(changes.firstLotEndsAt);
+    if (changes.staggerSeconds !== undefined) event.staggerSeconds = changes.staggerSeconds;
+    store.updateAuctionEvent(event);
+
+    if (rescheduling) {
+      const startsAt = getLotStartsAt(event, now);
+      for (const lot of lots.filter(isOpen)) {
+        if (startsAt) {
+          lot.startsAt = startsAt;
+          lot.status = 'scheduled';
+        }
+        lot.endsAt = getLotEndsAt(event, lot.lotNumber!);
+        saveItem(store, lot);
+        emit({ type: 'item.updated', item: lot });
+      }
+    }
+    return event;
+  });
+}
+
+/**
+ * Pause an auction event: its lots stop taking bids and their deadlines
+ * stop running until the event resumes
+ * Lots already past their endsAt are left to close
+ * Returns the paused event, or null if it is already paused
+ */
+export function pauseAuctionEvent(store: Store, id: string, pausedAt: Date): AuctionEvent | null {
+  return commit(store, emit => {
+    const event = store.getAuctionEvent(id);
+    if (!event || event.pausedAt !== null) return null;
+
+    event.pausedAt = pausedAt;
+    store.updateAuctionEvent(event);
+
+    for (const lot of listLots(store, id)) {
+      if ((lot.status === 'scheduled' || lot.status === 'active') && lot.endsAt > pausedAt) {
+        lot.status = 'paused';
+        saveItem(store, lot);
+        emit({ type: 'item.updated', item: lot });
+      }
+    }
+    return event;
+  });
+}
+
+/**
+ * Resume a paused auction event
+ * Every deadline still ahead when it paused (lot starts, ends and hard
+ * closes, and the event's own schedule) moves back by the time it spent
+ * paused, so each lot gets the time it had left
+ * Returns the resumed event, or null if it isn't paused
+ */
+export function resumeAuctionEvent(store: Store, id: string, resumedAt: Date): AuctionEvent | null {
+  return commit(store, emit => {
+    const event = store.getAuctionEvent(id);
+    if (!event || event.pausedAt === null) return null;
+
+    const { pausedAt } = event;
+    const shift = (date: Date) => new Date(date.getTime() + resumedAt.getTime() - pausedAt.getTime());
+
+    if (event.startsAt && event.startsAt > pausedAt) event.startsAt = shift(event.startsAt);
+    event.firstLotEndsAt = shift(event.firstLotEndsAt);
+    event.pausedAt = null;
+    store.updateAuctionEvent(event);
+
+    for (const lot of listLots(store, id)) {
+      if (lot.status !== 'paused') continue;
+
+      const previousEndsAt = lot.endsAt;
+      if (lot.startsAt && lot.startsAt > pausedAt) lot.startsAt = shift(lot.startsAt);
+      lot.endsAt = shift(lot.endsAt);
+      if (lot.softClose?.hardCloseAt) lot.softClose.hardCloseAt = shift(lot.softClose.hardCloseAt);
+      lot.status = lot.startsAt && lot.startsAt > resumedAt ? 'scheduled' : 'active';
+      saveItem(store, lot);
+      emit({ type: 'item.extended', item: lot, previousEndsAt });
+    }
+    return event;
+  });
+}
+
+/**
+ * Extend an item's end time if a bid landed inside its soft close window
+ * Returns the previous end time if the item was extended, otherwise null
+ */
+function applySoftClose(item: Item, bidTime: Date): Date | null {
+  if (!item.softClose) return null;
+
+  const { windowSeconds, extensionSeconds, hardCloseAt } = item.softClose;
+  const remainingMs = item.endsAt.getTime() - bidTime.getTime();
+  if (remainingMs > windowSeconds * 1000) return null;
+
+  let extendedMs = item.endsAt.getTime() + extensionSeconds * 1000;
+  if (hardCloseAt) {
+    extendedMs = Math.min(extendedMs, hardCloseAt.getTime());
+  }
+  if (extendedMs <= item.endsAt.getTime()) return null;
+
+  const previousEndsAt = item.endsAt;
+  item.endsAt = new Date(extendedMs);
+  return previousEndsAt;
+}
+
+/**
+ * Record a visible bid and update the item's current price and high bidder
+ */
+function recordBid(
+  store: Store,
+  item: Item,
+  amount: Money,
+  bidderId: string,
+  timestamp: Date,
+  isAutomatic: boolean,
+  emit: Emit
+): Bid {
+  const bid = store.insertBid({ itemId: item.id, amount, quantity: 1, bidderId, timestamp, isAutomatic });
+
+  item.currentBid = amount;
+  item.bidCount += 1;
+  item.highBidderId = bidderId;
+  saveItem(store, item);
+  emit({ type: 'bid.placed', item, bid });
+  return bid;
+}
+
+/**
+ * Raise a proxy's bid to the reserve price once the bidder's maximum reaches
+ * it, so a bidder willing to pay the reserve never sits below it
+ */
+function meetReserve(item: Item, amount: number, maxAmount: number): number {
+  const reserve = item.reservePrice?.amount;
+  return reserve !== undefined && maxAmount >= reserve ? Math.max(amount, reserve) : amount;
+}
+
+/**
+ * Tell the bidder who led before a bid if they no longer do
+ */
+function notifyOutbid(store: Store, item: Item, previousLeaderId: string | null, timestamp: Date): void {
+  if (previousLeaderId !== null && previousLeaderId !== item.highBidderId) {
+    notify(store, previousLeaderId, 'outbid', item, timestamp);
+  }
+}
+
+/**
+ * Place a bid on an item and record it in the item's bid history
+ *
+ * Each bidder has a private maximum (their maxAmount, or the bid itself).
+ * When the bid challenges another bidder's lead, the two maxima are resolved
+ * with automatic bids so the price ends at the lower maximum plus one
+ * increment from the item's increment table (ties go to the earlier bidder),
+ * or at the reserve price if the winning maximum reaches it. The leader
+ * bidding again only raises their maximum. Late bids extend endsAt when the
+ * item has a soft close; bids that reach the buy-now price, automatic ones
+ * included, close the item immediately at that price. A leader who loses the lead
+ * gets an outbid notification. On a dutch auction the first bid that meets
+ * the current price wins at that price and closes the item. A sealed bid is
+ * only recorded, replacing the bidder's earlier one; it is settled at close
+ * and hidden until then, so `winning` is null. A bid on a lot is for some
+ * of its units and likewise replaces the bidder's earlier one; the units are
+ * reallocated and `winning` tells the bidder whether they hold any.
+ *
+ * When expectedVersion is given the bid only applies to that version of the
+ * item, otherwise VersionConflictError is thrown and nothing is written.
+ * Amounts are in major units of the item's currency.
+ *
+ * Returns the updated item and whether the bidder now leads, or null if the
+ * bid is invalid
+ */
+export function placeBid(
+  store: Store,
+  itemId: string,
+  input: PlaceBidInput,
+  timestamp: Date,
+  expectedVersion?: number
+): PlaceBidResult | null {
+  const { bidderId, quantity = 1 } = input;
+
+  return commit(store, emit => {
+    const item = store.getItem(itemId);
+    if (!item) return null;
+    checkVersion(item, expectedVersion);
+    if (item.status !== 'active') return null;
+
+    const { currency } = item.startingPrice;
+    const money = (value: number): Money => ({ amount: value, currency });
+    const amount = toMoney(input.amount, currency);
+
+    if (item.auctionType === 'dutch') {
+      const price = getDutchPrice(item, timestamp);
+      if (amount.amount < price.amount) return null;
+      recordBid(store, item, price, bidderId, timestamp, false, emit);
+      return { item: settleItem(store, item, timestamp, emit), winning: true };
+    }
+
+    if (isSealed(item.auctionType)) {
+      if (amount.amount < item.startingPrice.amount) return null;
+      const revising = store.listBids(itemId).some(bid => bid.bidderId === bidderId);
+      const bid = store.insertBid({ itemId, amount, quantity: 1, bidderId, timestamp, isAutomatic: false });
+      if (!revising) item.bidCount += 1;
+      saveItem(store, item);
+      emit({ type: 'bid.placed', item, bid });
+      return { item, winning: null };
+    }
+
+    if (isLot(item)) {
+      if (amount.amount < getLotMinimumBid(item).amount || quantity > item.quantity) return null;
+      const previousHolders = item.allocations.map(allocation => allocation.bidderId);
+      const bid = store.insertBid({ itemId, amount, quantity, bidderId, timestamp, isAutomatic: false });
+
+      item.bidCount += 1;
+      item.allocations = allocateUnits(item, store.listBids(itemId));
+      item.currentBid = getClearingPrice(item);
+      item.highBidderId = item.allocations[0].bidderId;
+      const previousEndsAt = applySoftClose(item, timestamp);
+      saveItem(store, item);
+      emit({ type: 'bid.placed', item, bid });
+      if (previousEndsAt) {
+        emit({ type: 'item.extended', item, previousEndsAt });
+      }
+
+      // Bidders squeezed out of the lot are told, like outbid leaders
+      for (const holderId of previousHolders) {
+        if (!item.allocations.some(allocation => allocation.bidderId === holderId)) {
+          notify(store, holderId, 'outbid', item, timestamp);
+        }
+      }
+      return { item, winning: item.allocations.some(allocation => allocation.bidderId === bidderId) };
+    }
+
+    const leaderId = item.highBidderId;
+    const buyNowAt = item.buyNowPrice?.amount ?? Infinity;
+
+    // A bid at or above the buy-now price wins outright at that price
+    if (amount.amount >= buyNowAt) {
+      recordBid(store, item, item.buyNowPrice!, bidderId, timestamp, false, emit);
+      notifyOutbid(store, item, leaderId, timestamp);
+      return { item: settleItem(store, item, timestamp, emit), winning: true };
+    }
+
+    const maxAmount = input.maxAmount === undefined ? amount : toMoney(input.maxAmount, currency);
+    const isLeader = leaderId === bidderId;
+    if (!isLeader && amount.amount < getMinimumBid(item).amount) return null;
+    if (maxAmount.amount < amount.amount) return null;
+
+    const bidderMax = Math.max(amount.amount, maxAmount.amount, store.getMaxBid(itemId, bidderId)?.amount ?? 0);
+    store.setMaxBid(itemId, bidderId, money(bidderMax));
+
+    // Record a bid, stopping at the buy-now price; returns whether it got there
+    const bid = (value: number, id: string, isAutomatic: boolean): boolean => {
+      recordBid(store, item, money(Math.min(value, buyNowAt)), id, timestamp, isAutomatic, emit);
+      return value >= buyNowAt;
+    };
+
+    let boughtNow: boolean;
+    if (isLeader) {
+      // The leader's bid only raises their maximum, unless it now reaches the reserve
+      const price = meetReserve(item, item.currentBid!.amount, bidderMax);
+      if (price === item.currentBid!.amount) return { item, winning: true };
+      boughtNow = bid(price, bidderId, true);
+    } else {
+      boughtNow = bid(meetReserve(item, amount.amount, bidderMax), bidderId, false);
+
+      if (!boughtNow && leaderId !== null) {
+        const leaderMax = store.getMaxBid(itemId, leaderId)?.amount ?? 0;
+
+        if (leaderMax >= bidderMax) {
+          // The current leader's proxy defends the lead
+          const step = getIncrement(money(bidderMax), item.incrementTable).amount;
+          boughtNow = bid(meetReserve(item, Math.min(leaderMax, bidderMax + step), leaderMax), leaderId, true);
+        } else if (leaderMax >= item.currentBid!.amount) {
+          // The new bidder's proxy outbids the leader's maximum
+          const step = getIncrement(money(leaderMax), item.incrementTable).amount;
+          boughtNow = bid(meetReserve(item, Math.min(bidderMax, leaderMax + step), bidderMax), bidderId, true);
+        }
+      }
+    }
+
+    if (boughtNow) {
+      notifyOutbid(store, item, leaderId, timestamp);
+      const winning = item.highBidderId === bidderId;
+      return { item: settleItem(store, item, timestamp, emit), winning };
+    }
+
+    const previousEndsAt = applySoftClose(item, timestamp);
+    if (previousEndsAt) {
+      saveItem(store, item);
+      emit({ type: 'item.extended', item, previousEndsAt });
+    }
+    notifyOutbid(store, item, leaderId, timestamp);
+    return { item, winning: item.highBidderId === bidderId };
+  });
+}
+
+/**
+ * Buy an item outright at its buy-now price
+ * Returns the closed item, or null if the item has no buy-now price
+ */
+export function buyNow(
+  store: Store,
+  itemId: string,
+  buyerId: string,
+  timestamp: Date,
+  expectedVersion?: number
+): Item | null {
+  const item = store.getItem(itemId);
+  if (!item || item.buyNowPrice === null) return null;
+
+  const input = { amount: toMajorUnits(item.buyNowPrice), bidderId: buyerId };
+  return placeBid(store, itemId, input, timestamp, expectedVersion)?.item ?? null;
+}
@@ -0,0 +1,100 @@
+/**
+ * Item categories (a managed list) and free-form tags
+ */
+
+import { Category } from './types.js';
+import { Store } from './store.js';
+
+// Tags are short words; up to MAX_TAGS per item
+export const MAX_TAGS = 10;
+const TAG_PATTERN = /^[a-z0-9][a-z0-9-]{0,29}$/;
+
+// Category names are trimmed and 1-50 characters long
+const MAX_CATEGORY_NAME_LENGTH = 50;
+
+/**
+ * Lowercase and trim tags, dropping blanks and duplicates
+ */
+export function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+}
+
+/**
+ * Validate tags from a create request
+ * Returns an error message, or null if the tags are valid once normalized
+ */
+export function validateTags(tags: unknown): string | null {
+  if (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string')) {
+    return 'tags must be an array of strings';
+  }
+  const normalized = normalizeTags(tags);
+  if (normalized.length > MAX_TAGS) {
+    return `tags must have at most ${MAX_TAGS} entries`;
+  }
+  if (!normalized.every(tag => TAG_PATTERN.test(tag))) {
+    return 'tags must be 1-30 letters, digits or dashes';
+  }
+  return null;
+}
+
+/**
+ * Validate a category name
+ * Returns an error message, or null if the name is valid once trimmed
+ */
+export function validateCategoryName(name: unknown): string | null {
+  if (typeof name !== 'string' || name.trim().length === 0 || name.trim().length > MAX_CATEGORY_NAME_LENGTH) {
+    return `name must be 1-${MAX_CATEGORY_NAME_LENGTH} characters`;
+  }
+  return null;
+}
+
+/**
+ * Check whether another category already uses a name, ignoring case
+ */
+function isNameTaken(store: Store, name: string, exceptId?: string): boolean {
+  const lower = name.toLowerCase();
+  return store.listCategories().some(category => category.id !== exceptId && category.name.toLowerCase() === lower);
+}
+
+/**
+ * Create a category added by `creatorId`, who alone may rename or delete it
+ * Returns the category, or null if the name is taken
+ */
+export function createCategory(
+  store: Store,
+  name: string,
+  creatorId: string,
+  createdAt: Date = new Date()
+): Category | null {
+  return store.transaction(() => {
+    const trimmed = name.trim();
+    if (isNameTaken(store, trimmed)) return null;
+    return store.insertCategory({ name: trimmed, creatorId, createdAt });
+  });
+}
+
+/**
+ * Rename a category
+ * Returns the renamed category, or null if the name is taken
+ */
+export function renameCategory(store: Store, category: Category, name: string): Category | null {
+  return store.transaction(() => {
+    const trimmed = name.trim();
+    if (isNameTaken(store, trimmed, category.id)) return null;
+    const renamed = { ...category, name: trimmed };
+    store.updateCategory(renamed);
+    return renamed;
+  });
+}
+
+/**
+ * Delete a category
+ * Returns false, leaving it in place, if any item still uses it
+ */
+export function deleteCategory(store: Store, id: string): boolean {
+  return store.transaction(() => {
+    if (store.listItems().some(item => item.categoryId === id)) return false;
+    store.deleteCategory(id);
+    return true;
+  });
+}
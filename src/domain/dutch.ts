@@ -0,0 +1,70 @@
+/**
+ * Dutch (descending-price) auctions
+ * The price starts at the item's startingPrice when it opens and drops by
+ * dropAmount every dropIntervalSeconds until it reaches floorPrice, when
+ * the item closes unsold. The first bid at or above the current price wins
+ * at that price.
+ */
+
+import { Item, DutchSchedule } from './types.js';
+import { Money, validatePrecision } from './money.js';
+
+/**
+ * Get the number of drops it takes to get from a starting price to the floor
+ */
+function countDrops(startingPrice: Money, schedule: DutchSchedule): number {
+  return Math.ceil((startingPrice.amount - schedule.floorPrice.amount) / schedule.dropAmount.amount);
+}
+
+/**
+ * Get when a dutch auction opening at `opensAt` closes: when its price
+ * reaches the floor
+ */
+export function getDutchEndsAt(startingPrice: Money, schedule: DutchSchedule, opensAt: Date): Date {
+  const intervals = countDrops(startingPrice, schedule);
+  return new Date(opensAt.getTime() + intervals * schedule.dropIntervalSeconds * 1000);
+}
+
+/**
+ * Get a dutch auction's price at a moment
+ * Before the item opens the price is its startingPrice
+ */
+export function getDutchPrice(item: Item, now: Date): Money {
+  const schedule = item.dutch!;
+  const opensAt = item.startsAt ?? item.createdAt;
+  const elapsedMs = Math.max(0, now.getTime() - opensAt.getTime());
+  const drops = Math.floor(elapsedMs / (schedule.dropIntervalSeconds * 1000));
+  const amount = Math.max(schedule.floorPrice.amount, item.startingPrice.amount - drops * schedule.dropAmount.amount);
+  return { amount, currency: item.startingPrice.currency };
+}
+
+/**
+ * Validate a dutch price schedule, in major units, for an item starting at
+ * startingPrice in the given currency
+ * Returns an error message, or null if the schedule is valid
+ */
+export function validateDutchSchedule(schedule: unknown, startingPrice: unknown, currency: string): string | null {
+  if (typeof schedule !== 'object' || schedule === null) {
+    return 'dutch must be an object';
+  }
+  const { floorPrice, dropAmount, dropIntervalSeconds } = schedule as Partial<Record<keyof DutchSchedule, unknown>>;
+  if (typeof floorPrice !== 'number' || !Number.isFinite(floorPrice) || floorPrice < 0) {
+    return 'dutch.floorPrice must be a non-negative number';
+  }
+  if (typeof startingPrice === 'number' && floorPrice >= startingPrice) {
+    return 'dutch.floorPrice must be less than startingPrice';
+  }
+  if (typeof dropAmount !== 'number' || !Number.isFinite(dropAmount) || dropAmount <= 0) {
+    return 'dutch.dropAmount must be a positive number';
+  }
+  const precisionError =
+    validatePrecision(floorPrice, 'dutch.floorPrice', currency) ??
+    validatePrecision(dropAmount, 'dutch.dropAmount', currency);
+  if (precisionError) {
+    return precisionError;
+  }
+  if (typeof dropIntervalSeconds !== 'number' || !Number.isInteger(dropIntervalSeconds) || dropIntervalSeconds <= 0) {
+    return 'dutch.dropIntervalSeconds must be a positive integer';
+  }
+  return null;
+}
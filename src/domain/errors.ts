@@ -0,0 +1,14 @@
+/**
+ * Domain errors
+ */
+
+/**
+ * Thrown when a write is based on an outdated version of an item
+ * Throwing inside a store transaction rolls the whole operation back
+ */
+export class VersionConflictError extends Error {
+  constructor(public readonly itemId: string) {
+    super(`Item ${itemId} has been modified`);
+    this.name = 'VersionConflictError';
+  }
+}
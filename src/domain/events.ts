@@ -0,0 +1,99 @@
+/**
+ * Domain event bus for auction lifecycle events
+ * Keeps a bounded log so reconnecting clients can replay what they missed
+ */
+
+import { Item, Bid } from './types.js';
+
+// Events emitted by the store
+export type DomainEvent =
+  | { type: 'item.created'; item: Item }
+  | { type: 'item.started'; item: Item }
+  | { type: 'bid.placed'; item: Item; bid: Bid }
+  | { type: 'item.extended'; item: Item; previousEndsAt: Date }
+  | { type: 'item.updated'; item: Item }
+  | { type: 'item.closed'; item: Item }
+  | { type: 'item.cancelled'; item: Item };
+
+// Event as delivered to subscribers, with a monotonically increasing ID
+export type PublishedEvent = DomainEvent & { id: number };
+
+export type EventListener = (event: PublishedEvent) => void;
+
+// Number of events kept for replay
+const REPLAY_LOG_SIZE = 1000;
+
+// Prefix of stream IDs, so IDs handed out before a restart are recognised
+const epoch = Date.now().toString(36);
+
+// Event bus state
+let nextEventId = 1;
+const log: PublishedEvent[] = [];
+const listeners = new Set<EventListener>();
+
+/**
+ * Publish an event to all subscribers
+ * Items are snapshotted so later mutations don't leak into the log
+ */
+export function publish(event: DomainEvent): PublishedEvent {
+  const published = { ...event, item: { ...event.item }, id: nextEventId++ } as PublishedEvent;
+
+  log.push(published);
+  if (log.length > REPLAY_LOG_SIZE) {
+    log.shift();
+  }
+
+  for (const listener of listeners) {
+    listener(published);
+  }
+  return published;
+}
+
+/**
+ * Subscribe to published events
+ * Returns a function that removes the subscription
+ */
+export function subscribe(listener: EventListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Get the ID an event is streamed with: the boot epoch and the event ID
+ */
+export function getStreamId(eventId: number): string {
+  return `${epoch}-${eventId}`;
+}
+
+/**
+ * Get the stream ID of the latest event, or of the start of this boot
+ */
+export function getLatestStreamId(): string {
+  return getStreamId(nextEventId - 1);
+}
+
+/**
+ * Get logged events after the one with the given stream ID, oldest first
+ * Returns null if the ID is from another boot, or events after it have
+ * already left the log, so the caller can't catch up by replaying
+ */
+export function getEventsSince(lastStreamId: string): PublishedEvent[] | null {
+  const match = /^([0-9a-z]+)-(\d+)$/.exec(lastStreamId);
+  if (!match || match[1] !== epoch) return null;
+
+  const lastEventId = Number(match[2]);
+  const oldestEventId = log[0]?.id ?? nextEventId;
+  if (lastEventId < oldestEventId - 1 || lastEventId >= nextEventId) return null;
+  return log.filter(event => event.id > lastEventId);
+}
+
+/**
+ * Clear the event log and subscribers (useful for testing)
+ */
+export function clearEvents(): void {
+  log.length = 0;
+  listeners.clear();
+  nextEventId = 1;
+}
@@ -0,0 +1,123 @@
+/**
+ * Bid increment tables
+ * The step a new bid must add depends on the current price
+ */
+
+import { Item } from './types.js';
+import { Money, toMoney, validatePrecision } from './money.js';
+
+// Prices below `below` step by `increment`; the last tier has no upper bound
+// Both are decimal amounts in major units of the item's currency
+export interface IncrementTier {
+  below: number | null;
+  increment: number;
+}
+
+export type IncrementTable = IncrementTier[];
+
+// $1 under $50, $5 under $500, $25 above
+export const DEFAULT_INCREMENT_TABLE: IncrementTable = [
+  { below: 50, increment: 1 },
+  { below: 500, increment: 5 },
+  { below: null, increment: 25 },
+];
+
+// Table used by items without their own, in dollar-sized units
+let defaultTable: IncrementTable = DEFAULT_INCREMENT_TABLE;
+
+// Currencies whose major unit is worth far more or less than a dollar scale
+// the default table by this much, so ¥100 steps under ¥5,000
+const DEFAULT_TABLE_SCALE: Record<string, number> = {
+  BHD: 0.5,
+  JPY: 100,
+  KRW: 1000,
+  KWD: 0.5,
+};
+
+/**
+ * Set the global increment table
+ */
+export function setDefaultIncrementTable(table: IncrementTable): void {
+  defaultTable = table;
+}
+
+/**
+ * Reset to the built-in increment table
+ */
+export function resetDefaultIncrementTable(): void {
+  defaultTable = DEFAULT_INCREMENT_TABLE;
+}
+
+/**
+ * Get the default increment table for a currency
+ */
+export function getDefaultIncrementTable(currency: string): IncrementTable {
+  const scale = DEFAULT_TABLE_SCALE[currency] ?? 1;
+  return defaultTable.map(tier => ({
+    below: tier.below === null ? null : tier.below * scale,
+    increment: tier.increment * scale,
+  }));
+}
+
+/**
+ * Get the increment that applies at a price, in the price's currency
+ * Without an item table the currency's default table applies
+ */
+export function getIncrement(price: Money, table: IncrementTable | null = null): Money {
+  const tiers = table ?? getDefaultIncrementTable(price.currency);
+  const tier =
+    tiers.find(t => t.below === null || price.amount < toMoney(t.below, price.currency).amount) ??
+    tiers[tiers.length - 1];
+  return toMoney(tier.increment, price.currency);
+}
+
+/**
+ * Get the lowest amount the next bid on an item may be
+ * The opening bid may equal the starting price
+ */
+export function getMinimumBid(item: Item): Money {
+  if (item.currentBid === null) return item.startingPrice;
+  const increment = getIncrement(item.currentBid, item.incrementTable);
+  return { amount: item.currentBid.amount + increment.amount, currency: item.currentBid.currency };
+}
+
+/**
+ * Validate an increment table for an item in the given currency
+ * Tiers need positive increments and increasing bounds that fit the
+ * currency's minor units, and only the last tier may (and must) be unbounded
+ * Returns an error message, or null if the table is valid
+ */
+export function validateIncrementTable(table: unknown, currency: string): string | null {
+  if (!Array.isArray(table) || table.length === 0) {
+    return 'incrementTable must be a non-empty array';
+  }
+
+  let previousBound = 0;
+  for (let i = 0; i < table.length; i++) {
+    const tier = table[i] as Partial<IncrementTier> | null;
+    const isLast = i === table.length - 1;
+
+    if (typeof tier !== 'object' || tier === null) {
+      return 'incrementTable entries must be objects';
+    }
+    if (typeof tier.increment !== 'number' || tier.increment <= 0) {
+      return 'incrementTable increments must be positive numbers';
+    }
+    const precisionError =
+      validatePrecision(tier.increment, 'incrementTable increments', currency) ??
+      (typeof tier.below === 'number' ? validatePrecision(tier.below, 'incrementTable bounds', currency) : null);
+    if (precisionError) {
+      return precisionError;
+    }
+    if (isLast) {
+      if (tier.below !== null) {
+        return 'the last incrementTable tier must have below: null';
+      }
+    } else if (typeof tier.below !== 'number' || tier.below <= previousBound) {
+      return 'incrementTable bounds must be increasing positive numbers';
+    } else {
+      previousBound = tier.below;
+    }
+  }
+  return null;
+}
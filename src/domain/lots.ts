@@ -0,0 +1,70 @@
+/**
+ * Multi-unit lots
+ * A lot sells `quantity` identical units. Each bidder has one standing bid
+ * (their latest) for some units at a price per unit. Units go to the highest
+ * bids first, ties to the earliest, so the lowest bid to get units may only
+ * be partly filled. Uniform pricing charges every winner that lowest winning
+ * bid, the clearing price; pay-as-bid charges each winner their own bid.
+ */
+
+import { Item, Bid, LotAllocation } from './types.js';
+import { Money } from './money.js';
+import { getIncrement } from './increments.js';
+import { rankStandingBids } from './sealed.js';
+
+/**
+ * Check whether an item sells more than one unit
+ */
+export function isLot(item: Item): boolean {
+  return item.quantity > 1;
+}
+
+/**
+ * Allocate a lot's units to its standing bids
+ */
+export function allocateUnits(item: Item, bids: Bid[]): LotAllocation[] {
+  const allocations: LotAllocation[] = [];
+  let remaining = item.quantity;
+
+  for (const bid of rankStandingBids(bids)) {
+    if (remaining === 0) break;
+    const quantity = Math.min(bid.quantity, remaining);
+    allocations.push({ bidderId: bid.bidderId, quantity, price: bid.amount });
+    remaining -= quantity;
+  }
+
+  if (item.lotPricing === 'uniform' && allocations.length > 0) {
+    const clearingPrice = allocations[allocations.length - 1].price;
+    for (const allocation of allocations) allocation.price = clearingPrice;
+  }
+  return allocations;
+}
+
+/**
+ * Get a lot's clearing price: the lowest bid currently winning a unit
+ * Returns null before any bids
+ */
+export function getClearingPrice(item: Item): Money | null {
+  if (item.allocations.length === 0) return null;
+  const prices = item.allocations.map(allocation => allocation.price);
+  return prices.reduce((lowest, price) => (price.amount < lowest.amount ? price : lowest));
+}
+
+/**
+ * Count the units of a lot currently held by bidders
+ */
+export function countAllocatedUnits(item: Item): number {
+  return item.allocations.reduce((total, allocation) => total + allocation.quantity, 0);
+}
+
+/**
+ * Get the lowest bid per unit that wins some of a lot
+ * While units are unclaimed that is the starting price; after that a bid
+ * must beat the clearing price by one increment
+ */
+export function getLotMinimumBid(item: Item): Money {
+  const clearingPrice = getClearingPrice(item);
+  if (clearingPrice === null || countAllocatedUnits(item) < item.quantity) return item.startingPrice;
+  const increment = getIncrement(clearingPrice, item.incrementTable);
+  return { amount: clearingPrice.amount + increment.amount, currency: clearingPrice.currency };
+}
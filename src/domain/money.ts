@@ -0,0 +1,82 @@
+/**
+ * Money: exact amounts in a currency's minor units
+ * Prices and bids are held as whole numbers of the currency's smallest unit
+ * (cents for USD, yen for JPY), so arithmetic on them never drifts. The API
+ * takes and returns decimal amounts in major units; they are converted here
+ * and rejected if they have more decimal places than the currency allows.
+ */
+
+// Amount in whole minor units of an ISO 4217 currency
+export interface Money {
+  amount: number;
+  currency: string;
+}
+
+// Supported currencies and their number of minor unit digits
+const MINOR_UNIT_DIGITS: Record<string, number> = {
+  AUD: 2,
+  BHD: 3,
+  CAD: 2,
+  CHF: 2,
+  EUR: 2,
+  GBP: 2,
+  JPY: 0,
+  KRW: 0,
+  KWD: 3,
+  USD: 2,
+};
+
+export const CURRENCIES = Object.keys(MINOR_UNIT_DIGITS);
+
+// Currency of items listed without one
+export const DEFAULT_CURRENCY = 'USD';
+
+/**
+ * Get how many decimal places a currency's amounts have
+ */
+export function getMinorUnitDigits(currency: string): number {
+  return MINOR_UNIT_DIGITS[currency];
+}
+
+/**
+ * Count the decimal places of a number as written, e.g. 2 for 10.25
+ */
+function countDecimals(value: number): number {
+  const [mantissa, exponent = '0'] = value.toString().split('e');
+  const decimals = mantissa.split('.')[1]?.length ?? 0;
+  return Math.max(0, decimals - Number(exponent));
+}
+
+/**
+ * Check that a decimal amount fits a currency's minor units
+ * Returns an error message, or null if it does
+ */
+export function validatePrecision(value: number, field: string, currency: string): string | null {
+  const digits = getMinorUnitDigits(currency);
+  if (countDecimals(value) <= digits) return null;
+  return digits === 0
+    ? `${field} must be a whole number for ${currency}`
+    : `${field} must have at most ${digits} decimal places for ${currency}`;
+}
+
+/**
+ * Convert a decimal amount in major units to Money
+ * Rounds to the nearest minor unit, so check it with validatePrecision first
+ */
+export function toMoney(value: number, currency: string): Money {
+  return { amount: Math.round(value * 10 ** getMinorUnitDigits(currency)), currency };
+}
+
+/**
+ * Convert Money to a decimal amount in major units, as the API shows it
+ */
+export function toMajorUnits(money: Money): number {
+  return money.amount / 10 ** getMinorUnitDigits(money.currency);
+}
+
+/**
+ * Format Money for messages, e.g. $1,250.00 or ¥1,250
+ */
+export function formatMoney(money: Money): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: money.currency }).format(toMajorUnits(money));
+}
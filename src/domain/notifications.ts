@@ -0,0 +1,136 @@
+/**
+ * Watchlists and the notification inbox
+ * Notifications are written in the same transaction as the change that
+ * causes them
+ */
+
+import { Item, WatchlistEntry, Notification, NotificationType } from './types.js';
+import { Store } from './store.js';
+import { formatMoney } from './money.js';
+
+// Watchers hear about an item this long before it ends
+export const ENDING_SOON_MS = 10 * 60 * 1000;
+
+/**
+ * Describe the time left before an item ends, in whole minutes rounded up
+ */
+function describeTimeLeft(item: Item, now: Date): string {
+  const minutes = Math.max(1, Math.ceil((item.endsAt.getTime() - now.getTime()) / 60000));
+  return minutes === 1 ? '1 minute' : `${minutes} minutes`;
+}
+
+/**
+ * Write the message for a notification about an item
+ * Lot winners are told how many units they won and at what price
+ */
+function describe(type: NotificationType, item: Item, recipientId: string, now: Date): string {
+  const allocation = item.allocations.find(a => a.bidderId === recipientId);
+  switch (type) {
+    case 'outbid':
+      return `You were outbid on "${item.title}": the current bid is ${formatMoney(item.currentBid!)}`;
+    case 'ending_soon':
+      return `"${item.title}" ends in ${describeTimeLeft(item, now)}`;
+    case 'won':
+      return allocation && item.quantity > 1
+        ? `You won ${allocation.quantity} of ${item.quantity} units of "${item.title}" at ${formatMoney(allocation.price)} each`
+        : `You won "${item.title}" for ${formatMoney(item.winningBid!)}`;
+  }
+}
+
+/**
+ * Add a notification about an item to a user's inbox
+ */
+export function notify(
+  store: Store,
+  recipientId: string,
+  type: NotificationType,
+  item: Item,
+  createdAt: Date
+): Notification {
+  return store.insertNotification({
+    recipientId,
+    type,
+    itemId: item.id,
+    message: describe(type, item, recipientId, createdAt),
+    createdAt,
+    readAt: null,
+  });
+}
+
+/**
+ * Tell an item's watchers it is about to end
+ * Each watcher is told once per item
+ * Returns the number of notifications sent
+ */
+export function notifyEndingSoon(store: Store, item: Item, now: Date): number {
+  return store.transaction(() => {
+    let sentCount = 0;
+    for (const watcherId of store.listWatchers(item.id)) {
+      const alreadySent = store.listNotifications(watcherId)
+        .some(n => n.itemId === item.id && n.type === 'ending_soon');
+      if (!alreadySent) {
+        notify(store, watcherId, 'ending_soon', item, now);
+        sentCount++;
+      }
+    }
+    return sentCount;
+  });
+}
+
+/**
+ * Add an item to a user's watchlist
+ * Watching an item twice keeps the original entry
+ */
+export function watchItem(store: Store, watcherId: string, itemId: string, createdAt: Date = new Date()): WatchlistEntry {
+  return store.transaction(() => {
+    store.addWatch({ watcherId, itemId, createdAt });
+    return store.getWatch(watcherId, itemId)!;
+  });
+}
+
+/**
+ * Remove an item from a user's watchlist
+ * Returns false if the user wasn't watching it
+ */
+export function unwatchItem(store: Store, watcherId: string, itemId: string): boolean {
+  return store.transaction(() => {
+    if (!store.getWatch(watcherId, itemId)) return false;
+    store.removeWatch(watcherId, itemId);
+    return true;
+  });
+}
+
+/**
+ * Mark one of a user's notifications as read
+ * Returns the notification, or null if the user has no such notification
+ */
+export function markNotificationRead(
+  store: Store,
+  recipientId: string,
+  id: string,
+  readAt: Date = new Date()
+): Notification | null {
+  return store.transaction(() => {
+    const notification = store.getNotification(id);
+    if (!notification || notification.recipientId !== recipientId) return null;
+    if (notification.readAt === null) {
+      notification.readAt = readAt;
+      store.updateNotification(notification);
+    }
+    return notification;
+  });
+}
+
+/**
+ * Mark all of a user's notifications as read
+ * Returns the number that were unread
+ */
+export function markAllNotificationsRead(store: Store, recipientId: string, readAt: Date = new Date()): number {
+  return store.transaction(() => {
+    const unread = store.listNotifications(recipientId).filter(n => n.readAt === null);
+    for (const notification of unread) {
+      store.updateNotification({ ...notification, readAt });
+    }
+    return unread.length;
+  });
+}
@@ -0,0 +1,208 @@
+/**
+ * Deadline scheduler for starting and closing auctions on time
+ * Keeps upcoming startsAt/endsAt times in a priority queue and arms a
+ * single clock timer for the earliest one
+ */
+
+import { Item } from './types.js';
+import { Store } from './store.js';
+import { startItem, closeItem } from './auctions.js';
+import { subscribe } from './events.js';
+import { VersionConflictError } from './errors.js';
+import { hasStarted, isExpired, Clock, realClock } from './time.js';
+
+// Delay before retrying an item that changed while it was being processed
+const RETRY_DELAY_MS = 1000;
+
+// Queued deadline for one item
+interface Deadline {
+  at: number; // epoch milliseconds
+  itemId: string;
+}
+
+export interface DeadlineScheduler {
+  start(): void;
+  stop(): void;
+  // Time the timer is armed for, or null if nothing is pending
+  nextDeadline(): Date | null;
+}
+
+/**
+ * Add a deadline to a binary min-heap ordered by time
+ */
+function pushDeadline(heap: Deadline[], deadline: Deadline): void {
+  heap.push(deadline);
+  let index = heap.length - 1;
+  while (index > 0) {
+    const parent = (index - 1) >> 1;
+    if (heap[parent].at <= heap[index].at) break;
+    [heap[parent], heap[index]] = [heap[index], heap[parent]];
+    index = parent;
+  }
+}
+
+/**
+ * Remove and return the earliest deadline from a binary min-heap
+ */
+function popDeadline(heap: Deadline[]): Deadline | undefined {
+  const top = heap[0];
+  const last = heap.pop();
+  if (heap.length === 0 || last === undefined) return top;
+
+  heap[0] = last;
+  let index = 0;
+  for (;;) {
+    const left = index * 2 + 1;
+    const right = left + 1;
+    let smallest = index;
+    if (left < heap.length && heap[left].at < heap[smallest].at) smallest = left;
+    if (right < heap.length && heap[right].at < heap[smallest].at) smallest = right;
+    if (smallest === index) break;
+    [heap[smallest], heap[index]] = [heap[index], heap[smallest]];
+    index = smallest;
+  }
+  return top;
+}
+
+/**
+ * Get the next time an item needs attention: its start while scheduled,
+ * its end while active, or null once it has ended
+ */
+function getNextDeadline(item: Item): Date | null {
+  if (item.status === 'scheduled') return item.startsAt;
+  if (item.status === 'active') return item.endsAt;
+  return null;
+}
+
+/**
+ * Create a scheduler that starts and closes a store's items as their
+ * deadlines arrive
+ * Deadlines are picked up from the store on start and from domain events
+ * afterwards, so created, edited and extended items are re-armed
+ */
+export function createDeadlineScheduler(store: Store, clock: Clock = realClock): DeadlineScheduler {
+  const queue: Deadline[] = [];
+  // Current deadline per item; queue entries that don't match are stale
+  const deadlines = new Map<string, number>();
+
+  let unsubscribe: (() => void) | null = null;
+  let cancelTimer: (() => void) | null = null;
+  let armedAt: number | null = null;
+  let processing = false;
+
+  function track(itemId: string, at: number): void {
+    if (deadlines.get(itemId) === at) return;
+    deadlines.set(itemId, at);
+    pushDeadline(queue, { at, itemId });
+    arm();
+  }
+
+  function trackItem(item: Item): void {
+    const at = getNextDeadline(item);
+    if (at) {
+      track(item.id, at.getTime());
+    } else if (deadlines.delete(item.id)) {
+      arm();
+    }
+  }
+
+  function isStale(deadline: Deadline): boolean {
+    return deadlines.get(deadline.itemId) !== deadline.at;
+  }
+
+  /**
+   * Point the timer at the earliest live deadline
+   */
+  function arm(): void {
+    if (processing || !unsubscribe) return; // fire() re-arms when it finishes
+
+    while (queue.length > 0 && isStale(queue[0])) {
+      popDeadline(queue);
+    }
+    const next = queue[0]?.at ?? null;
+    if (next === armedAt) return;
+
+    cancelTimer?.();
+    cancelTimer = null;
+    armedAt = next;
+    if (next !== null) {
+      cancelTimer = clock.setTimer(new Date(next), fire);
+    }
+  }
+
+  /**
+   * Start or close an item whose deadline has arrived
+   */
+  function handleDeadline(itemId: string): void {
+    deadlines.delete(itemId);
+    const item = store.getItem(itemId);
+    if (!item) return;
+
+    try {
+      if (item.status === 'scheduled' && item.startsAt && hasStarted(item.startsAt, clock)) {
+        startItem(store, item.id); // item.started re-tracks it for its end
+      } else if (item.status === 'active' && isExpired(item.endsAt, clock)) {
+        closeItem(store, item.id, clock.now());
+      } else {
+        trackItem(item); // moved since it was queued
+      }
+    } catch (error) {
+      // Changed by someone else mid-update; try again shortly
+      if (!(error instanceof VersionConflictError)) throw error;
+      track(itemId, clock.now().getTime() + RETRY_DELAY_MS);
+    }
+  }
+
+  /**
+   * Handle every deadline that has arrived, then re-arm for the next one
+   */
+  function fire(): void {
+    cancelTimer = null;
+    armedAt = null;
+    processing = true;
+    try {
+      while (queue.length > 0 && queue[0].at <= clock.now().getTime()) {
+        const deadline = popDeadline(queue)!;
+        if (!isStale(deadline)) {
+          handleDeadline(deadline.itemId);
+        }
+      }
+    } finally {
+      processing = false;
+    }
+    arm();
+  }
+
+  return {
+    start() {
+      if (unsubscribe) return; // Already running
+
+      unsubscribe = subscribe(event => {
+        const item = store.getItem(event.item.id);
+        if (item) trackItem(item);
+      });
+      for (const item of store.listItems()) {
+        trackItem(item);
+      }
+      arm();
+      console.log(`[Scheduler] Started with ${deadlines.size} pending deadline(s)`);
+    },
+
+    stop() {
+      if (!unsubscribe) return;
+
+      unsubscribe();
+      unsubscribe = null;
+      cancelTimer?.();
+      cancelTimer = null;
+      armedAt = null;
+      queue.length = 0;
+      deadlines.clear();
+      console.log('[Scheduler] Stopped');
+    },
+
+    nextDeadline() {
+      return armedAt !== null ? new Date(armedAt) : null;
+    },
+  };
+}
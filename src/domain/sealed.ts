@@ -0,0 +1,63 @@
+/**
+ * Sealed-bid auctions
+ * Bids stay hidden until the item closes. Each bidder has one sealed bid,
+ * which they can revise until then; their latest bid replaces the earlier
+ * ones. At close the highest bid wins (ties go to the earliest bid) and the
+ * winner pays their own bid (first-price) or the runner-up's bid (Vickrey,
+ * or the starting price when nobody else bid).
+ */
+
+import { Item, Bid, AuctionType } from './types.js';
+import { Money } from './money.js';
+
+// Who won a sealed auction, and what they pay
+export interface SealedSettlement {
+  bidderId: string;
+  amount: Money;
+}
+
+/**
+ * Check whether an auction type takes sealed bids
+ */
+export function isSealed(auctionType: AuctionType): boolean {
+  return auctionType === 'sealed_first_price' || auctionType === 'sealed_vickrey';
+}
+
+/**
+ * Check whether an item's bid amounts are still hidden
+ * They are revealed once the item closes
+ */
+export function isSealedBidHidden(item: Item): boolean {
+  return isSealed(item.auctionType) && item.status !== 'closed';
+}
+
+/**
+ * Get each bidder's standing bid (their latest), highest first
+ * Sealed auctions and lots only count a bidder's latest bid. Takes bids
+ * oldest first, as the store lists them; equal bids are ordered by when
+ * they were placed, earliest first
+ */
+export function rankStandingBids(bids: Bid[]): Bid[] {
+  const latest = new Map<string, Bid>();
+  for (const bid of bids) {
+    latest.set(bid.bidderId, bid);
+  }
+
+  return [...latest.values()].sort(
+    (a, b) => b.amount.amount - a.amount.amount || a.timestamp.getTime() - b.timestamp.getTime()
+  );
+}
+
+/**
+ * Settle a sealed auction against its bids
+ * Returns the winner and the price they pay, or null if nobody bid
+ */
+export function getSealedSettlement(item: Item, bids: Bid[]): SealedSettlement | null {
+  const [best, runnerUp] = rankStandingBids(bids);
+  if (!best) return null;
+
+  if (item.auctionType === 'sealed_vickrey') {
+    return { bidderId: best.bidderId, amount: runnerUp?.amount ?? item.startingPrice };
+  }
+  return { bidderId: best.bidderId, amount: best.amount };
+}
@@ -0,0 +1,158 @@
+/**
+ * Item search: filtering, sorting and cursor pagination
+ */
+
+import { Item, ItemStatus } from './types.js';
+import { toMajorUnits } from './money.js';
+
+export type ItemSortField = 'endsAt' | 'price' | 'bidCount' | 'createdAt' | 'lotNumber';
+export type SortOrder = 'asc' | 'desc';
+
+export const ITEM_SORT_FIELDS: ItemSortField[] = ['endsAt', 'price', 'bidCount', 'createdAt', 'lotNumber'];
+
+// Position after the last item of a page: its sort value and ID
+export interface ItemCursor {
+  sort: ItemSortField;
+  order: SortOrder;
+  value: number;
+  id: string;
+}
+
+// Filters, ordering and page size; every filter is optional
+export interface ItemQuery {
+  statuses?: ItemStatus[];
+  text?: string; // every word must appear in the title or description
+  categoryId?: string;
+  eventId?: string;
+  tag?: string; // lowercase
+  currency?: string;
+  minPrice?: number; // on the current price, in major units of currency
+  maxPrice?: number;
+  endingBefore?: Date;
+  endingAfter?: Date;
+  sort: ItemSortField;
+  order: SortOrder;
+  limit: number;
+  cursor?: ItemCursor;
+}
+
+export interface ItemPage {
+  items: Item[];
+  nextCursor: string | null; // null on the last page
+}
+
+/**
+ * Get the price an item is currently at, in major units of its currency
+ * Only meaningful between items of one currency, so price filters and
+ * sorting come with a currency filter
+ */
+function getCurrentPrice(item: Item): number {
+  return toMajorUnits(item.currentBid ?? item.startingPrice);
+}
+
+/**
+ * Get the value an item is sorted by
+ */
+function getSortValue(item: Item, sort: ItemSortField): number {
+  switch (sort) {
+    case 'endsAt':
+      return item.endsAt.getTime();
+    case 'price':
+      return getCurrentPrice(item);
+    case 'bidCount':
+      return item.bidCount;
+    case 'createdAt':
+      return item.createdAt.getTime();
+    case 'lotNumber':
+      return item.lotNumber ?? 0; // items outside events sort first
+  }
+}
+
+/**
+ * Compare an item's position with a sort value and ID
+ * Ties are broken by ID, so every item has a distinct position
+ */
+function comparePosition(item: Item, value: number, id: string, query: ItemQuery): number {
+  const byValue = getSortValue(item, query.sort) - value;
+  const result = byValue !== 0 ? byValue : item.id.localeCompare(id, undefined, { numeric: true });
+  return query.order === 'asc' ? result : -result;
+}
+
+/**
+ * Check an item against the query's filters
+ */
+function matchesFilters(item: Item, query: ItemQuery): boolean {
+  if (query.statuses && !query.statuses.includes(item.status)) return false;
+  if (query.categoryId !== undefined && item.categoryId !== query.categoryId) return false;
+  if (query.eventId !== undefined && item.eventId !== query.eventId) return false;
+  if (query.tag !== undefined && !item.tags.includes(query.tag)) return false;
+  if (query.currency !== undefined && item.startingPrice.currency !== query.currency) return false;
+
+  const price = getCurrentPrice(item);
+  if (query.minPrice !== undefined && price < query.minPrice) return false;
+  if (query.maxPrice !== undefined && price > query.maxPrice) return false;
+
+  if (query.endingBefore && item.endsAt >= query.endingBefore) return false;
+  if (query.endingAfter && item.endsAt <= query.endingAfter) return false;
+
+  if (query.text) {
+    const haystack = `${item.title} ${item.description}`.toLowerCase();
+    const words = query.text.toLowerCase().split(/\s+/).filter(Boolean);
+    if (!words.every(word => haystack.includes(word))) return false;
+  }
+  return true;
+}
+
+/**
+ * Encode a cursor as an opaque URL-safe string
+ */
+export function encodeCursor(cursor: ItemCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Decode a cursor string
+ * Returns null if it wasn't produced by encodeCursor
+ */
+export function decodeCursor(encoded: string): ItemCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8')) as ItemCursor;
+    if (
+      !ITEM_SORT_FIELDS.includes(cursor.sort) ||
+      (cursor.order !== 'asc' && cursor.order !== 'desc') ||
+      typeof cursor.value !== 'number' ||
+      typeof cursor.id !== 'string'
+    ) {
+      return null;
+    }
+    return cursor;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Filter, sort and page a list of items
+ * The cursor resumes after the last item of the previous page, so items
+ * added or removed meanwhile don't shift later pages
+ */
+export function searchItems(items: Item[], query: ItemQuery): ItemPage {
+  const matches = items
+    .filter(item => matchesFilters(item, query))
+    .sort((a, b) => comparePosition(a, getSortValue(b, query.sort), b.id, query));
+
+  const { cursor } = query;
+  const start = cursor
+    ? matches.findIndex(item => comparePosition(item, cursor.value, cursor.id, query) > 0)
+    : 0;
+  const page = start === -1 ? [] : matches.slice(start, start + query.limit);
+
+  const last = page[page.length - 1];
+  const hasMore = start !== -1 && start + query.limit < matches.length;
+  return {
+    items: page,
+    nextCursor: hasMore
+      ? encodeCursor({ sort: query.sort, order: query.order, value: getSortValue(last, query.sort), id: last.id })
+      : null,
+  };
+}
@@ -0,0 +1,976 @@
+/**
+ * File-backed SQLite implementation of the Store interface
+ */
+
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import {
+  Item,
+  ItemImage,
+  Bid,
+  SoftClose,
+  DutchSchedule,
+  LotAllocation,
+  AuctionEvent,
+  Category,
+  WatchlistEntry,
+  Notification,
+  Webhook,
+  WebhookDelivery,
+  User,
+  Session,
+} from './types.js';
+import { Store, NewItem, NewBid, NewAuctionEvent, NewNotification, NewWebhook, NewWebhookDelivery } from './store.js';
+import { Money } from './money.js';
+import { VersionConflictError } from './errors.js';
+
+/**
+ * Schema migrations, applied in order on open
+ * The index of the last applied migration + 1 is kept in PRAGMA user_version;
+ * append new migrations, never edit released ones
+ */
+const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE items (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    title TEXT NOT NULL,
+    description TEXT NOT NULL,
+    starting_price REAL NOT NULL,
+    reserve_price REAL,
+    buy_now_price REAL,
+    current_bid REAL,
+    bid_count INTEGER NOT NULL DEFAULT 0,
+    ends_at TEXT NOT NULL,
+    status TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    soft_close TEXT,
+    increment_table TEXT,
+    outcome TEXT,
+    winner_id TEXT,
+    winning_bid REAL,
+    closed_at TEXT
+  );
+
+  CREATE TABLE bids (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    item_id INTEGER NOT NULL REFERENCES items(id),
+    amount REAL NOT NULL,
+    bidder_id TEXT NOT NULL,
+    timestamp TEXT NOT NULL,
+    is_automatic INTEGER NOT NULL DEFAULT 0
+  );
+
+  CREATE INDEX bids_item_id ON bids (item_id, id);
+
+  CREATE TABLE max_bids (
+    item_id INTEGER NOT NULL REFERENCES items(id),
+    bidder_id TEXT NOT NULL,
+    amount REAL NOT NULL,
+    PRIMARY KEY (item_id, bidder_id)
+  );
+  `,
+  `
+  ALTER TABLE items ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+  `,
+  `
+  ALTER TABLE items ADD COLUMN high_bidder_id TEXT;
+
+  UPDATE items SET high_bidder_id = (
+    SELECT bidder_id FROM bids WHERE bids.item_id = items.id ORDER BY bids.id DESC LIMIT 1
+  );
+  `,
+  `
+  CREATE TABLE users (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    username TEXT NOT NULL UNIQUE,
+    password_hash TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE sessions (
+    token TEXT PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id),
+    created_at TEXT NOT NULL,
+    expires_at TEXT NOT NULL
+  );
+  `,
+  `
+  ALTER TABLE items ADD COLUMN seller_id TEXT;
+  `,
+  `
+  ALTER TABLE items ADD COLUMN starts_at TEXT;
+  `,
+  `
+  CREATE TABLE categories (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    created_at TEXT NOT NULL
+  );
+
+  ALTER TABLE items ADD COLUMN category_id INTEGER REFERENCES categories(id);
+  ALTER TABLE items ADD COLUMN tags TEXT NOT NULL DEFAULT '[]';
+  `,
+  `
+  ALTER TABLE items ADD COLUMN images TEXT NOT NULL DEFAULT '[]';
+  `,
+  `
+  CREATE TABLE watchlist (
+    watcher_id TEXT NOT NULL,
+    item_id INTEGER NOT NULL REFERENCES items(id),
+    created_at TEXT NOT NULL,
+    PRIMARY KEY (watcher_id, item_id)
+  );
+
+  CREATE INDEX watchlist_item_id ON watchlist (item_id);
+
+  CREATE TABLE notifications (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    recipient_id TEXT NOT NULL,
+    type TEXT NOT NULL,
+    item_id INTEGER NOT NULL REFERENCES items(id),
+    message TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    read_at TEXT
+  );
+
+  CREATE INDEX notifications_recipient_id ON notifications (recipient_id);
+  `,
+  `
+  CREATE TABLE webhooks (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    owner_id TEXT NOT NULL,
+    url TEXT NOT NULL,
+    events TEXT NOT NULL,
+    secret TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE webhook_deliveries (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    webhook_id INTEGER NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+    event_id INTEGER NOT NULL,
+    event_type TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    status TEXT NOT NULL,
+    attempts INTEGER NOT NULL,
+    response_status INTEGER,
+    error TEXT,
+    created_at TEXT NOT NULL,
+    last_attempt_at TEXT,
+    next_attempt_at TEXT
+  );
+
+  CREATE INDEX webhook_deliveries_webhook_id ON webhook_deliveries (webhook_id);
+  CREATE INDEX webhook_deliveries_status ON webhook_deliveries (status);
+  `,
+  `
+  ALTER TABLE items ADD COLUMN auction_type TEXT NOT NULL DEFAULT 'english';
+  ALTER TABLE items ADD COLUMN dutch TEXT;
+  `,
+  `
+  ALTER TABLE items ADD COLUMN quantity INTEGER NOT NULL DEFAULT 1;
+  ALTER TABLE items ADD COLUMN lot_pricing TEXT;
+  ALTER TABLE items ADD COLUMN allocations TEXT NOT NULL DEFAULT '[]';
+  ALTER TABLE bids ADD COLUMN quantity INTEGER NOT NULL DEFAULT 1;
+  `,
+  `
+  CREATE TABLE auction_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    title TEXT NOT NULL,
+    description TEXT NOT NULL,
+    seller_id TEXT NOT NULL,
+    starts_at TEXT,
+    first_lot_ends_at TEXT NOT NULL,
+    stagger_seconds INTEGER NOT NULL,
+    paused_at TEXT,
+    created_at TEXT NOT NULL
+  );
+
+  ALTER TABLE items ADD COLUMN event_id INTEGER REFERENCES auction_events(id);
+  ALTER TABLE items ADD COLUMN lot_number INTEGER;
+
+  CREATE UNIQUE INDEX items_event_lot ON items (event_id, lot_number);
+  `,
+  `
+  ALTER TABLE items ADD COLUMN currency TEXT NOT NULL DEFAULT 'USD';
+  ALTER TABLE bids ADD COLUMN currency TEXT NOT NULL DEFAULT 'USD';
+  ALTER TABLE max_bids ADD COLUMN currency TEXT NOT NULL DEFAULT 'USD';
+
+  UPDATE items SET
+    starting_price = CAST(ROUND(starting_price * 100) AS INTEGER),
+    reserve_price = CAST(ROUND(reserve_price * 100) AS INTEGER),
+    buy_now_price = CAST(ROUND(buy_now_price * 100) AS INTEGER),
+    current_bid = CAST(ROUND(current_bid * 100) AS INTEGER),
+    winning_bid = CAST(ROUND(winning_bid * 100) AS INTEGER),
+    dutch = json_set(
+      dutch,
+      '$.floorPrice', CAST(ROUND(json_extract(dutch, '$.floorPrice') * 100) AS INTEGER),
+      '$.dropAmount', CAST(ROUND(json_extract(dutch, '$.dropAmount') * 100) AS INTEGER)
+    ),
+    allocations = (
+      SELECT json_group_array(json_set(value, '$.price', CAST(ROUND(json_extract(value, '$.price') * 100) AS INTEGER)))
+      FROM json_each(items.allocations)
+    );
+  UPDATE bids SET amount = CAST(ROUND(amount * 100) AS INTEGER);
+  UPDATE max_bids SET amount = CAST(ROUND(amount * 100) AS INTEGER);
+  `,
+  `
+  ALTER TABLE categories ADD COLUMN creator_id TEXT;
+  `,
+];
+
+// Row shapes as stored; amounts are in minor units of the row's currency
+interface ItemRow {
+  id: number;
+  title: string;
+  description: string;
+  seller_id: string | null;
+  currency: string;
+  starting_price: number;
+  reserve_price: number | null;
+  buy_now_price: number | null;
+  current_bid: number | null;
+  bid_count: number;
+  high_bidder_id: string | null;
+  starts_at: string | null;
+  ends_at: string;
+  status: Item['status'];
+  created_at: string;
+  auction_type: Item['auctionType'];
+  dutch: string | null; // JSON object
+  quantity: number;
+  lot_pricing: Item['lotPricing'];
+  soft_close: string | null;
+  increment_table: string | null;
+  event_id: number | null;
+  lot_number: number | null;
+  category_id: number | null;
+  tags: string; // JSON array
+  images: string; // JSON array
+  allocations: string; // JSON array
+  outcome: Item['outcome'];
+  winner_id: string | null;
+  winning_bid: number | null;
+  closed_at: string | null;
+  version: number;
+}
+
+interface BidRow {
+  id: number;
+  item_id: number;
+  amount: number;
+  currency: string;
+  quantity: number;
+  bidder_id: string;
+  timestamp: string;
+  is_automatic: number;
+}
+
+interface AuctionEventRow {
+  id: number;
+  title: string;
+  description: string;
+  seller_id: string;
+  starts_at: string | null;
+  first_lot_ends_at: string;
+  stagger_seconds: number;
+  paused_at: string | null;
+  created_at: string;
+}
+
+interface CategoryRow {
+  id: number;
+  name: string;
+  creator_id: string | null;
+  created_at: string;
+}
+
+interface WatchlistRow {
+  watcher_id: string;
+  item_id: number;
+  created_at: string;
+}
+
+interface NotificationRow {
+  id: number;
+  recipient_id: string;
+  type: Notification['type'];
+  item_id: number;
+  message: string;
+  created_at: string;
+  read_at: string | null;
+}
+
+interface WebhookRow {
+  id: number;
+  owner_id: string;
+  url: string;
+  events: string; // JSON array
+  secret: string;
+  created_at: string;
+}
+
+interface DeliveryRow {
+  id: number;
+  webhook_id: number;
+  event_id: number;
+  event_type: WebhookDelivery['eventType'];
+  payload: string;
+  status: WebhookDelivery['status'];
+  attempts: number;
+  response_status: number | null;
+  error: string | null;
+  created_at: string;
+  last_attempt_at: string | null;
+  next_attempt_at: string | null;
+}
+
+interface UserRow {
+  id: number;
+  username: string;
+  password_hash: string;
+  created_at: string;
+}
+
+interface SessionRow {
+  token: string;
+  user_id: number;
+  created_at: string;
+  expires_at: string;
+}
+
+// Writable item columns (everything but the ID and version)
+const ITEM_COLUMNS: (keyof Omit<ItemRow, 'id' | 'version'>)[] = [
+  'title',
+  'description',
+  'seller_id',
+  'currency',
+  'starting_price',
+  'reserve_price',
+  'buy_now_price',
+  'current_bid',
+  'bid_count',
+  'high_bidder_id',
+  'starts_at',
+  'ends_at',
+  'status',
+  'created_at',
+  'auction_type',
+  'dutch',
+  'quantity',
+  'lot_pricing',
+  'soft_close',
+  'increment_table',
+  'event_id',
+  'lot_number',
+  'category_id',
+  'tags',
+  'images',
+  'allocations',
+  'outcome',
+  'winner_id',
+  'winning_bid',
+  'closed_at',
+];
+
+// Writable auction event columns (everything but the ID)
+const AUCTION_EVENT_COLUMNS: (keyof Omit<AuctionEventRow, 'id'>)[] = [
+  'title',
+  'description',
+  'seller_id',
+  'starts_at',
+  'first_lot_ends_at',
+  'stagger_seconds',
+  'paused_at',
+  'created_at',
+];
+
+// Writable delivery columns (everything but the ID)
+const DELIVERY_COLUMNS: (keyof Omit<DeliveryRow, 'id'>)[] = [
+  'webhook_id',
+  'event_id',
+  'event_type',
+  'payload',
+  'status',
+  'attempts',
+  'response_status',
+  'error',
+  'created_at',
+  'last_attempt_at',
+  'next_attempt_at',
+];
+
+// Soft close as serialized to JSON
+type SoftCloseJson = Omit<SoftClose, 'hardCloseAt'> & { hardCloseAt: string | null };
+
+// Item image as serialized to JSON
+type ItemImageJson = Omit<ItemImage, 'uploadedAt'> & { uploadedAt: string };
+
+// Dutch schedule and lot allocations as serialized to JSON, in the item's
+// currency
+type DutchScheduleJson = Omit<DutchSchedule, 'floorPrice' | 'dropAmount'> & { floorPrice: number; dropAmount: number };
+type LotAllocationJson = Omit<LotAllocation, 'price'> & { price: number };
+
+/**
+ * Bring the schema up to date
+ */
+function migrate(db: Database.Database): void {
+  const version = db.pragma('user_version', { simple: true }) as number;
+
+  for (let i = version; i < MIGRATIONS.length; i++) {
+    db.transaction(() => {
+      db.exec(MIGRATIONS[i]);
+      db.pragma(`user_version = ${i + 1}`);
+    })();
+  }
+}
+
+function toDate(value: string | null): Date | null {
+  return value === null ? null : new Date(value);
+}
+
+function toMoney(amount: number | null, currency: string): Money | null {
+  return amount === null ? null : { amount, currency };
+}
+
+function fromMoney(money: Money | null): number | null {
+  return money === null ? null : money.amount;
+}
+
+function rowToItem(row: ItemRow): Item {
+  const softClose = row.soft_close ? (JSON.parse(row.soft_close) as SoftCloseJson) : null;
+  const dutch = row.dutch ? (JSON.parse(row.dutch) as DutchScheduleJson) : null;
+  const money = (amount: number) => ({ amount, currency: row.currency });
+
+  return {
+    id: String(row.id),
+    title: row.title,
+    description: row.description,
+    sellerId: row.seller_id,
+    startingPrice: money(row.starting_price),
+    reservePrice: toMoney(row.reserve_price, row.currency),
+    buyNowPrice: toMoney(row.buy_now_price, row.currency),
+    currentBid: toMoney(row.current_bid, row.currency),
+    bidCount: row.bid_count,
+    highBidderId: row.high_bidder_id,
+    startsAt: toDate(row.starts_at),
+    endsAt: new Date(row.ends_at),
+    status: row.status,
+    createdAt: new Date(row.created_at),
+    auctionType: row.auction_type,
+    dutch: dutch ? { ...dutch, floorPrice: money(dutch.floorPrice), dropAmount: money(dutch.dropAmount) } : null,
+    quantity: row.quantity,
+    lotPricing: row.lot_pricing,
+    softClose: softClose ? { ...softClose, hardCloseAt: toDate(softClose.hardCloseAt) } : null,
+    incrementTable: row.increment_table ? JSON.parse(row.increment_table) : null,
+    eventId: row.event_id === null ? null : String(row.event_id),
+    lotNumber: row.lot_number,
+    categoryId: row.category_id === null ? null : String(row.category_id),
+    tags: JSON.parse(row.tags),
+    images: (JSON.parse(row.images) as ItemImageJson[]).map(image => ({ ...image, uploadedAt: new Date(image.uploadedAt) })),
+    allocations: (JSON.parse(row.allocations) as LotAllocationJson[]).map(allocation => ({
+      ...allocation,
+      price: money(allocation.price),
+    })),
+    outcome: row.outcome,
+    winnerId: row.winner_id,
+    winningBid: toMoney(row.winning_bid, row.currency),
+    closedAt: toDate(row.closed_at),
+    version: row.version,
+  };
+}
+
+function itemToRow(item: NewItem): Omit<ItemRow, 'id' | 'version'> {
+  return {
+    title: item.title,
+    description: item.description,
+    seller_id: item.sellerId,
+    currency: item.startingPrice.currency,
+    starting_price: item.startingPrice.amount,
+    reserve_price: fromMoney(item.reservePrice),
+    buy_now_price: fromMoney(item.buyNowPrice),
+    current_bid: fromMoney(item.currentBid),
+    bid_count: item.bidCount,
+    high_bidder_id: item.highBidderId,
+    starts_at: item.startsAt?.toISOString() ?? null,
+    ends_at: item.endsAt.toISOString(),
+    status: item.status,
+    created_at: item.createdAt.toISOString(),
+    auction_type: item.auctionType,
+    dutch: item.dutch
+      ? JSON.stringify({ ...item.dutch, floorPrice: item.dutch.floorPrice.amount, dropAmount: item.dutch.dropAmount.amount })
+      : null,
+    quantity: item.quantity,
+    lot_pricing: item.lotPricing,
+    soft_close: item.softClose
+      ? JSON.stringify({ ...item.softClose, hardCloseAt: item.softClose.hardCloseAt?.toISOString() ?? null })
+      : null,
+    increment_table: item.incrementTable ? JSON.stringify(item.incrementTable) : null,
+    event_id: item.eventId === null ? null : Number(item.eventId),
+    lot_number: item.lotNumber,
+    category_id: item.categoryId === null ? null : Number(item.categoryId),
+    tags: JSON.stringify(item.tags),
+    images: JSON.stringify(item.images),
+    allocations: JSON.stringify(item.allocations.map(allocation => ({ ...allocation, price: allocation.price.amount }))),
+    outcome: item.outcome,
+    winner_id: item.winnerId,
+    winning_bid: fromMoney(item.winningBid),
+    closed_at: item.closedAt?.toISOString() ?? null,
+  };
+}
+
+function rowToBid(row: BidRow): Bid {
+  return {
+    id: String(row.id),
+    itemId: String(row.item_id),
+    amount: { amount: row.amount, currency: row.currency },
+    quantity: row.quantity,
+    bidderId: row.bidder_id,
+    timestamp: new Date(row.timestamp),
+    isAutomatic: row.is_automatic === 1,
+  };
+}
+
+function rowToAuctionEvent(row: AuctionEventRow): AuctionEvent {
+  return {
+    id: String(row.id),
+    title: row.title,
+    description: row.description,
+    sellerId: row.seller_id,
+    startsAt: toDate(row.starts_at),
+    firstLotEndsAt: new Date(row.first_lot_ends_at),
+    staggerSeconds: row.stagger_seconds,
+    pausedAt: toDate(row.paused_at),
+    createdAt: new Date(row.created_at),
+  };
+}
+
+function auctionEventToRow(event: NewAuctionEvent): Omit<AuctionEventRow, 'id'> {
+  return {
+    title: event.title,
+    description: event.description,
+    seller_id: event.sellerId,
+    starts_at: event.startsAt?.toISOString() ?? null,
+    first_lot_ends_at: event.firstLotEndsAt.toISOString(),
+    stagger_seconds: event.staggerSeconds,
+    paused_at: event.pausedAt?.toISOString() ?? null,
+    created_at: event.createdAt.toISOString(),
+  };
+}
+
+function rowToCategory(row: CategoryRow): Category {
+  return {
+    id: String(row.id),
+    name: row.name,
+    creatorId: row.creator_id,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+function rowToWatch(row: WatchlistRow): WatchlistEntry {
+  return {
+    watcherId: row.watcher_id,
+    itemId: String(row.item_id),
+    createdAt: new Date(row.created_at),
+  };
+}
+
+function rowToNotification(row: NotificationRow): Notification {
+  return {
+    id: String(row.id),
+    recipientId: row.recipient_id,
+    type: row.type,
+    itemId: String(row.item_id),
+    message: row.message,
+    createdAt: new Date(row.created_at),
+    readAt: toDate(row.read_at),
+  };
+}
+
+function rowToWebhook(row: WebhookRow): Webhook {
+  return {
+    id: String(row.id),
+    ownerId: row.owner_id,
+    url: row.url,
+    events: JSON.parse(row.events),
+    secret: row.secret,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+function rowToDelivery(row: DeliveryRow): WebhookDelivery {
+  return {
+    id: String(row.id),
+    webhookId: String(row.webhook_id),
+    eventId: row.event_id,
+    eventType: row.event_type,
+    payload: row.payload,
+    status: row.status,
+    attempts: row.attempts,
+    responseStatus: row.response_status,
+    error: row.error,
+    createdAt: new Date(row.created_at),
+    lastAttemptAt: toDate(row.last_attempt_at),
+    nextAttemptAt: toDate(row.next_attempt_at),
+  };
+}
+
+function deliveryToRow(delivery: NewWebhookDelivery): Omit<DeliveryRow, 'id'> {
+  return {
+    webhook_id: Number(delivery.webhookId),
+    event_id: delivery.eventId,
+    event_type: delivery.eventType,
+    payload: delivery.payload,
+    status: delivery.status,
+    attempts: delivery.attempts,
+    response_status: delivery.responseStatus,
+    error: delivery.error,
+    created_at: delivery.createdAt.toISOString(),
+    last_attempt_at: delivery.lastAttemptAt?.toISOString() ?? null,
+    next_attempt_at: delivery.nextAttemptAt?.toISOString() ?? null,
+  };
+}
+
+function rowToUser(row: UserRow): User {
+  return {
+    id: String(row.id),
+    username: row.username,
+    passwordHash: row.password_hash,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+function rowToSession(row: SessionRow): Session {
+  return {
+    token: row.token,
+    userId: String(row.user_id),
+    createdAt: new Date(row.created_at),
+    expiresAt: new Date(row.expires_at),
+  };
+}
+
+/**
+ * Open (creating if needed) a SQLite database file and migrate it
+ * Pass ':memory:' for a throwaway database
+ */
+export function createSqliteStore(filename: string): Store {
+  if (filename !== ':memory:') {
+    fs.mkdirSync(path.dirname(filename), { recursive: true });
+  }
+
+  const db = new Database(filename);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  migrate(db);
+
+  const statements = {
+    insertItem: db.prepare(
+      `INSERT INTO items (${ITEM_COLUMNS.join(', ')}) VALUES (${ITEM_COLUMNS.map(c => `@${c}`).join(', ')})`
+    ),
+    getItem: db.prepare('SELECT * FROM items WHERE id = ?'),
+    listItems: db.prepare('SELECT * FROM items ORDER BY id'),
+    updateItem: db.prepare(
+      `UPDATE items SET ${ITEM_COLUMNS.map(c => `${c} = @${c}`).join(', ')}, version = version + 1
+       WHERE id = @id AND version = @version`
+    ),
+    insertBid: db.prepare(
+      `INSERT INTO bids (item_id, amount, currency, quantity, bidder_id, timestamp, is_automatic)
+       VALUES (@item_id, @amount, @currency, @quantity, @bidder_id, @timestamp, @is_automatic)`
+    ),
+    getBid: db.prepare('SELECT * FROM bids WHERE id = ?'),
+    listBids: db.prepare('SELECT * FROM bids WHERE item_id = ? ORDER BY id'),
+    getMaxBid: db.prepare('SELECT amount, currency FROM max_bids WHERE item_id = ? AND bidder_id = ?'),
+    setMaxBid: db.prepare(
+      `INSERT INTO max_bids (item_id, bidder_id, amount, currency) VALUES (?, ?, ?, ?)
+       ON CONFLICT (item_id, bidder_id) DO UPDATE SET amount = excluded.amount, currency = excluded.currency`
+    ),
+    insertAuctionEvent: db.prepare(
+      `INSERT INTO auction_events (${AUCTION_EVENT_COLUMNS.join(', ')})
+       VALUES (${AUCTION_EVENT_COLUMNS.map(c => `@${c}`).join(', ')})`
+    ),
+    getAuctionEvent: db.prepare('SELECT * FROM auction_events WHERE id = ?'),
+    listAuctionEvents: db.prepare('SELECT * FROM auction_events ORDER BY id'),
+    updateAuctionEvent: db.prepare(
+      `UPDATE auction_events SET ${AUCTION_EVENT_COLUMNS.map(c => `${c} = @${c}`).join(', ')} WHERE id = @id`
+    ),
+    deleteAuctionEvent: db.prepare('DELETE FROM auction_events WHERE id = ?'),
+    insertCategory: db.prepare('INSERT INTO categories (name, creator_id, created_at) VALUES (?, ?, ?)'),
+    getCategory: db.prepare('SELECT * FROM categories WHERE id = ?'),
+    listCategories: db.prepare('SELECT * FROM categories ORDER BY name'),
+    updateCategory: db.prepare('UPDATE categories SET name = ? WHERE id = ?'),
+    deleteCategory: db.prepare('DELETE FROM categories WHERE id = ?'),
+    addWatch: db.prepare(
+      `INSERT INTO watchlist (watcher_id, item_id, created_at) VALUES (?, ?, ?)
+       ON CONFLICT (watcher_id, item_id) DO NOTHING`
+    ),
+    getWatch: db.prepare('SELECT * FROM watchlist WHERE watcher_id = ? AND item_id = ?'),
+    removeWatch: db.prepare('DELETE FROM watchlist WHERE watcher_id = ? AND item_id = ?'),
+    listWatches: db.prepare('SELECT * FROM watchlist WHERE watcher_id = ? ORDER BY rowid DESC'),
+    listWatchers: db.prepare('SELECT watcher_id FROM watchlist WHERE item_id = ? ORDER BY rowid'),
+    insertNotification: db.prepare(
+      `INSERT INTO notifications (recipient_id, type, item_id, message, created_at, read_at)
+       VALUES (@recipient_id, @type, @item_id, @message, @created_at, @read_at)`
+    ),
+    getNotification: db.prepare('SELECT * FROM notifications WHERE id = ?'),
+    listNotifications: db.prepare('SELECT * FROM notifications WHERE recipient_id = ? ORDER BY id DESC'),
+    updateNotification: db.prepare('UPDATE notifications SET read_at = ? WHERE id = ?'),
+    insertWebhook: db.prepare(
+      'INSERT INTO webhooks (owner_id, url, events, secret, created_at) VALUES (?, ?, ?, ?, ?)'
+    ),
+    getWebhook: db.prepare('SELECT * FROM webhooks WHERE id = ?'),
+    listWebhooks: db.prepare('SELECT * FROM webhooks ORDER BY id'),
+    deleteWebhook: db.prepare('DELETE FROM webhooks WHERE id = ?'),
+    insertDelivery: db.prepare(
+      `INSERT INTO webhook_deliveries (${DELIVERY_COLUMNS.join(', ')})
+       VALUES (${DELIVERY_COLUMNS.map(c => `@${c}`).join(', ')})`
+    ),
+    getDelivery: db.prepare('SELECT * FROM webhook_deliveries WHERE id = ?'),
+    listDeliveries: db.prepare('SELECT * FROM webhook_deliveries WHERE webhook_id = ? ORDER BY id DESC'),
+    listPendingDeliveries: db.prepare("SELECT * FROM webhook_deliveries WHERE status = 'pending' ORDER BY id"),
+    updateDelivery: db.prepare(
+      `UPDATE webhook_deliveries SET ${DELIVERY_COLUMNS.map(c => `${c} = @${c}`).join(', ')} WHERE id = @id`
+    ),
+    insertUser: db.prepare('INSERT INTO users (username, password_hash, created_at) VALUES (?, ?, ?)'),
+    getUser: db.prepare('SELECT * FROM users WHERE id = ?'),
+    getUserByUsername: db.prepare('SELECT * FROM users WHERE username = ?'),
+    insertSession: db.prepare('INSERT INTO sessions (token, user_id, created_at, expires_at) VALUES (?, ?, ?, ?)'),
+    getSession: db.prepare('SELECT * FROM sessions WHERE token = ?'),
+    deleteSession: db.prepare('DELETE FROM sessions WHERE token = ?'),
+  };
+
+  return {
+    insertItem(item) {
+      const { lastInsertRowid } = statements.insertItem.run(itemToRow(item));
+      return rowToItem(statements.getItem.get(lastInsertRowid) as ItemRow);
+    },
+
+    getItem(id) {
+      const row = statements.getItem.get(id) as ItemRow | undefined;
+      return row ? rowToItem(row) : undefined;
+    },
+
+    listItems() {
+      return (statements.listItems.all() as ItemRow[]).map(rowToItem);
+    },
+
+    updateItem(item) {
+      const { changes } = statements.updateItem.run({ ...itemToRow(item), id: item.id, version: item.version });
+      if (changes === 0) {
+        throw new VersionConflictError(item.id);
+      }
+      return item.version + 1;
+    },
+
+    insertBid(bid: NewBid) {
+      const { lastInsertRowid } = statements.insertBid.run({
+        item_id: bid.itemId,
+        amount: bid.amount.amount,
+        currency: bid.amount.currency,
+        quantity: bid.quantity,
+        bidder_id: bid.bidderId,
+        timestamp: bid.timestamp.toISOString(),
+        is_automatic: bid.isAutomatic ? 1 : 0,
+      });
+      return rowToBid(statements.getBid.get(lastInsertRowid) as BidRow);
+    },
+
+    listBids(itemId) {
+      return (statements.listBids.all(itemId) as BidRow[]).map(rowToBid);
+    },
+
+    getMaxBid(itemId, bidderId) {
+      return statements.getMaxBid.get(itemId, bidderId) as Money | undefined;
+    },
+
+    setMaxBid(itemId, bidderId, amount) {
+      statements.setMaxBid.run(itemId, bidderId, amount.amount, amount.currency);
+    },
+
+    insertAuctionEvent(event) {
+      const { lastInsertRowid } = statements.insertAuctionEvent.run(auctionEventToRow(event));
+      return rowToAuctionEvent(statements.getAuctionEvent.get(lastInsertRowid) as AuctionEventRow);
+    },
+
+    getAuctionEvent(id) {
+      const row = statements.getAuctionEvent.get(id) as AuctionEventRow | undefined;
+      return row ? rowToAuctionEvent(row) : undefined;
+    },
+
+    listAuctionEvents() {
+      return (statements.listAuctionEvents.all() as AuctionEventRow[]).map(rowToAuctionEvent);
+    },
+
+    updateAuctionEvent(event) {
+      statements.updateAuctionEvent.run({ ...auctionEventToRow(event), id: event.id });
+    },
+
+    deleteAuctionEvent(id) {
+      statements.deleteAuctionEvent.run(id);
+    },
+
+    insertCategory(category) {
+      const { lastInsertRowid } = statements.insertCategory.run(
+        category.name,
+        category.creatorId,
+        category.createdAt.toISOString()
+      );
+      return rowToCategory(statements.getCategory.get(lastInsertRowid) as CategoryRow);
+    },
+
+    getCategory(id) {
+      const row = statements.getCategory.get(id) as CategoryRow | undefined;
+      return row ? rowToCategory(row) : undefined;
+    },
+
+    listCategories() {
+      return (statements.listCategories.all() as CategoryRow[]).map(rowToCategory);
+    },
+
+    updateCategory(category) {
+      statements.updateCategory.run(category.name, category.id);
+    },
+
+    deleteCategory(id) {
+      statements.deleteCategory.run(id);
+    },
+
+    addWatch(entry) {
+      statements.addWatch.run(entry.watcherId, entry.itemId, entry.createdAt.toISOString());
+    },
+
+    getWatch(watcherId, itemId) {
+      const row = statements.getWatch.get(watcherId, itemId) as WatchlistRow | undefined;
+      return row ? rowToWatch(row) : undefined;
+    },
+
+    removeWatch(watcherId, itemId) {
+      statements.removeWatch.run(watcherId, itemId);
+    },
+
+    listWatches(watcherId) {
+      return (statements.listWatches.all(watcherId) as WatchlistRow[]).map(rowToWatch);
+    },
+
+    listWatchers(itemId) {
+      return (statements.listWatchers.all(itemId) as { watcher_id: string }[]).map(row => row.watcher_id);
+    },
+
+    insertNotification(notification: NewNotification) {
+      const { lastInsertRowid } = statements.insertNotification.run({
+        recipient_id: notification.recipientId,
+        type: notification.type,
+        item_id: notification.itemId,
+        message: notification.message,
+        created_at: notification.createdAt.toISOString(),
+        read_at: notification.readAt?.toISOString() ?? null,
+      });
+      return rowToNotification(statements.getNotification.get(lastInsertRowid) as NotificationRow);
+    },
+
+    getNotification(id) {
+      const row = statements.getNotification.get(id) as NotificationRow | undefined;
+      return row ? rowToNotification(row) : undefined;
+    },
+
+    listNotifications(recipientId) {
+      return (statements.listNotifications.all(recipientId) as NotificationRow[]).map(rowToNotification);
+    },
+
+    updateNotification(notification) {
+      statements.updateNotification.run(notification.readAt?.toISOString() ?? null, notification.id);
+    },
+
+    insertWebhook(webhook: NewWebhook) {
+      const { lastInsertRowid } = statements.insertWebhook.run(
+        webhook.ownerId,
+        webhook.url,
+        JSON.stringify(webhook.events),
+        webhook.secret,
+        webhook.createdAt.toISOString()
+      );
+      return rowToWebhook(statements.getWebhook.get(lastInsertRowid) as WebhookRow);
+    },
+
+    getWebhook(id) {
+      const row = statements.getWebhook.get(id) as WebhookRow | undefined;
+      return row ? rowToWebhook(row) : undefined;
+    },
+
+    listWebhooks() {
+      return (statements.listWebhooks.all() as WebhookRow[]).map(rowToWebhook);
+    },
+
+    deleteWebhook(id) {
+      statements.deleteWebhook.run(id);
+    },
+
+    insertDelivery(delivery) {
+      const { lastInsertRowid } = statements.insertDelivery.run(deliveryToRow(delivery));
+      return rowToDelivery(statements.getDelivery.get(lastInsertRowid) as DeliveryRow);
+    },
+
+    getDelivery(id) {
+      const row = statements.getDelivery.get(id) as DeliveryRow | undefined;
+      return row ? rowToDelivery(row) : undefined;
+    },
+
+    listDeliveries(webhookId) {
+      return (statements.listDeliveries.all(webhookId) as DeliveryRow[]).map(rowToDelivery);
+    },
+
+    listPendingDeliveries() {
+      return (statements.listPendingDeliveries.all() as DeliveryRow[]).map(rowToDelivery);
+    },
+
+    updateDelivery(delivery) {
+      statements.updateDelivery.run({ ...deliveryToRow(delivery), id: delivery.id });
+    },
+
+    insertUser(user) {
+      const { lastInsertRowid } = statements.insertUser.run(
+        user.username,
+        user.passwordHash,
+        user.createdAt.toISOString()
+      );
+      return rowToUser(statements.getUser.get(lastInsertRowid) as UserRow);
+    },
+
+    getUser(id) {
+      const row = statements.getUser.get(id) as UserRow | undefined;
+      return row ? rowToUser(row) : undefined;
+    },
+
+    getUserByUsername(username) {
+      const row = statements.getUserByUsername.get(username) as UserRow | undefined;
+      return row ? rowToUser(row) : undefined;
+    },
+
+    insertSession(session) {
+      statements.insertSession.run(
+        session.token,
+        session.userId,
+        session.createdAt.toISOString(),
+        session.expiresAt.toISOString()
+      );
+    },
+
+    getSession(token) {
+      const row = statements.getSession.get(token) as SessionRow | undefined;
+      return row ? rowToSession(row) : undefined;
+    },
+
+    deleteSession(token) {
+      statements.deleteSession.run(token);
+    },
+
+    transaction(fn) {
+      // better-sqlite3 nests inner transactions as savepoints
+      return db.transaction(fn)();
+    },
+
+    close() {
+      db.close();
+    },
+  };
+}
@@ -1,86 +1,423 @@
 /**
- * In-memory store for auction items
+ * Storage interface for auction data, plus the in-memory implementation
+ * used by tests and local development
  */
 
-import { Item, CreateItemInput } from './types.js';
+import {
+  Item,
+  Bid,
+  AuctionEvent,
+  Category,
+  WatchlistEntry,
+  Notification,
+  Webhook,
+  WebhookDelivery,
+  User,
+  Session,
+} from './types.js';
+import { Money } from './money.js';
+import { VersionConflictError } from './errors.js';
 
-// Simple ID generator
-let nextId = 1;
-function generateId(): string {
-  return String(nextId++);
-}
+// Item fields supplied on insert; the store assigns the ID and version
+export type NewItem = Omit<Item, 'id' | 'version'>;
 
-// In-memory storage
-const items = new Map<string, Item>();
+// Bid fields supplied on insert; the store assigns the ID
+export type NewBid = Omit<Bid, 'id'>;
 
-/**
- * Create a new auction item
- */
-export function createItem(input: CreateItemInput): Item {
-  const id = generateId();
-  const now = new Date();
-
-  const item: Item = {
-    id,
-    title: input.title,
-    description: input.description,
-    startingPrice: input.startingPrice,
-    currentBid: null,
-    bidCount: 0,
-    endsAt: new Date(input.endsAt),
-    status: 'active',
-    createdAt: now,
-  };
+// Auction event fields supplied on insert; the store assigns the ID
+export type NewAuctionEvent = Omit<AuctionEvent, 'id'>;
 
-  items.set(id, item);
-  return item;
-}
+// Category fields supplied on insert; the store assigns the ID
+export type NewCategory = Omit<Category, 'id'>;
+
+// Notification fields supplied on insert; the store assigns the ID
+export type NewNotification = Omit<Notification, 'id'>;
+
+// Webhook fields supplied on insert; the store assigns the ID
+export type NewWebhook = Omit<Webhook, 'id'>;
+
+// Delivery fields supplied on insert; the store assigns the ID
+export type NewWebhookDelivery = Omit<WebhookDelivery, 'id'>;
+
+// User fields supplied on insert; the store assigns the ID
+export type NewUser = Omit<User, 'id'>;
 
 /**
- * Get all items
+ * Persistence operations the auction logic relies on
+ * Reads return copies: callers change data only through the write methods
  */
-export function getAllItems(): Item[] {
-  return Array.from(items.values());
+export interface Store {
+  // Items
+  insertItem(item: NewItem): Item;
+  getItem(id: string): Item | undefined;
+  listItems(): Item[]; // in creation order
+
+  /**
+   * Compare-and-set: write the item only if its version matches the stored
+   * one. Returns the new version, or throws VersionConflictError
+   */
+  updateItem(item: Item): number;
+
+  // Bids
+  insertBid(bid: NewBid): Bid;
+  listBids(itemId: string): Bid[]; // oldest first
+
+  // Private proxy maximums per bidder
+  getMaxBid(itemId: string, bidderId: string): Money | undefined;
+  setMaxBid(itemId: string, bidderId: string, amount: Money): void;
+
+  // Auction events
+  insertAuctionEvent(event: NewAuctionEvent): AuctionEvent;
+  getAuctionEvent(id: string): AuctionEvent | undefined;
+  listAuctionEvents(): AuctionEvent[]; // in creation order
+  updateAuctionEvent(event: AuctionEvent): void;
+  deleteAuctionEvent(id: string): void;
+
+  // Categories
+  insertCategory(category: NewCategory): Category;
+  getCategory(id: string): Category | undefined;
+  listCategories(): Category[]; // by name
+  updateCategory(category: Category): void;
+  deleteCategory(id: string): void;
+
+  // Watchlists (one entry per watcher and item)
+  addWatch(entry: WatchlistEntry): void;
+  getWatch(watcherId: string, itemId: string): WatchlistEntry | undefined;
+  removeWatch(watcherId: string, itemId: string): void;
+  listWatches(watcherId: string): WatchlistEntry[]; // newest first
+  listWatchers(itemId: string): string[];
+
+  // Notifications
+  insertNotification(notification: NewNotification): Notification;
+  getNotification(id: string): Notification | undefined;
+  listNotifications(recipientId: string): Notification[]; // newest first
+  updateNotification(notification: Notification): void; // only readAt changes
+
+  // Webhooks (deleting one deletes its deliveries)
+  insertWebhook(webhook: NewWebhook): Webhook;
+  getWebhook(id: string): Webhook | undefined;
+  listWebhooks(): Webhook[]; // in creation order
+  deleteWebhook(id: string): void;
+
+  // Webhook deliveries
+  insertDelivery(delivery: NewWebhookDelivery): WebhookDelivery;
+  getDelivery(id: string): WebhookDelivery | undefined;
+  listDeliveries(webhookId: string): WebhookDelivery[]; // newest first
+  listPendingDeliveries(): WebhookDelivery[]; // oldest first
+  updateDelivery(delivery: WebhookDelivery): void;
+
+  // Users (usernames are unique)
+  insertUser(user: NewUser): User;
+  getUser(id: string): User | undefined;
+  getUserByUsername(username: string): User | undefined;
+
+  // Sessions
+  insertSession(session: Session): void;
+  getSession(token: string): Session | undefined;
+  deleteSession(token: string): void;
+
+  /**
+   * Run fn atomically: if it throws, none of its writes are kept
+   * Nested calls run as savepoints: an inner call that throws undoes only
+   * its own writes, and the outer call keeps the rest if it catches
+   */
+  transaction<T>(fn: () => T): T;
+
+  // Release underlying resources
+  close(): void;
 }
 
-/**
- * Get item by ID
- */
-export function getItemById(id: string): Item | undefined {
-  return items.get(id);
+// In-memory state for one store instance
+interface MemoryState {
+  nextItemId: number;
+  nextBidId: number;
+  nextAuctionEventId: number;
+  nextCategoryId: number;
+  nextNotificationId: number;
+  nextWebhookId: number;
+  nextDeliveryId: number;
+  nextUserId: number;
+  items: Map<string, Item>;
+  bids: Map<string, Bid[]>; // keyed by item ID, oldest first
+  maxBids: Map<string, Map<string, Money>>; // item ID -> bidder ID -> maximum
+  auctionEvents: Map<string, AuctionEvent>;
+  categories: Map<string, Category>;
+  watchlist: WatchlistEntry[]; // oldest first
+  notifications: Map<string, Notification>;
+  webhooks: Map<string, Webhook>;
+  deliveries: Map<string, WebhookDelivery>;
+  users: Map<string, User>;
+  sessions: Map<string, Session>; // keyed by token
 }
 
 /**
- * Update item status
+ * Create an in-memory store
+ * Data lives for the lifetime of the instance, so each test can start fresh
  */
-export function updateItemStatus(id: string, status: Item['status']): Item | undefined {
-  const item = items.get(id);
-  if (!item) return undefined;
+export function createMemoryStore(): Store {
+  let state: MemoryState = {
+    nextItemId: 1,
+    nextBidId: 1,
+    nextAuctionEventId: 1,
+    nextCategoryId: 1,
+    nextNotificationId: 1,
+    nextWebhookId: 1,
+    nextDeliveryId: 1,
+    nextUserId: 1,
+    items: new Map(),
+    bids: new Map(),
+    maxBids: new Map(),
+    auctionEvents: new Map(),
+    categories: new Map(),
+    watchlist: [],
+    notifications: new Map(),
+    webhooks: new Map(),
+    deliveries: new Map(),
+    users: new Map(),
+    sessions: new Map(),
+  };
 
-  item.status = status;
-  return item;
-}
+  return {
+    insertItem(newItem) {
+      const item: Item = { ...structuredClone(newItem), id: String(state.nextItemId++), version: 1 };
+      state.items.set(item.id, item);
+      return structuredClone(item);
+    },
 
-/**
- * Place a bid on an item
- * Returns the updated item, or null if bid is invalid
- */
-export function placeBid(itemId: string, amount: number): Item | null {
-  const item = items.get(itemId);
-  if (!item) return null;
+    getItem(id) {
+      const item = state.items.get(id);
+      return item ? structuredClone(item) : undefined;
+    },
 
-  const minBid = item.currentBid ?? item.startingPrice;
-  if (amount <= minBid) return null;
+    listItems() {
+      return Array.from(state.items.values(), item => structuredClone(item));
+    },
 
-  item.currentBid = amount;
-  item.bidCount += 1;
-  return item;
-}
+    updateItem(item) {
+      const stored = state.items.get(item.id);
+      if (!stored || stored.version !== item.version) {
+        throw new VersionConflictError(item.id);
+      }
 
-/**
- * Clear all items (useful for testing)
- */
-export function clearItems(): void {
-  items.clear();
-  nextId = 1;
+      const version = item.version + 1;
+      state.items.set(item.id, { ...structuredClone(item), version });
+      return version;
+    },
+
+    insertBid(newBid) {
+      const bid: Bid = { ...structuredClone(newBid), id: String(state.nextBidId++) };
+      const history = state.bids.get(bid.itemId) ?? [];
+      history.push(bid);
+      state.bids.set(bid.itemId, history);
+      return structuredClone(bid);
+    },
+
+    listBids(itemId) {
+      return (state.bids.get(itemId) ?? []).map(bid => structuredClone(bid));
+    },
+
+    getMaxBid(itemId, bidderId) {
+      const amount = state.maxBids.get(itemId)?.get(bidderId);
+      return amount && structuredClone(amount);
+    },
+
+    setMaxBid(itemId, bidderId, amount) {
+      const itemMaxBids = state.maxBids.get(itemId) ?? new Map<string, Money>();
+      itemMaxBids.set(bidderId, structuredClone(amount));
+      state.maxBids.set(itemId, itemMaxBids);
+    },
+
+    insertAuctionEvent(newEvent) {
+      const event: AuctionEvent = { ...structuredClone(newEvent), id: String(state.nextAuctionEventId++) };
+      state.auctionEvents.set(event.id, event);
+      return structuredClone(event);
+    },
+
+    getAuctionEvent(id) {
+      const event = state.auctionEvents.get(id);
+      return event ? structuredClone(event) : undefined;
+    },
+
+    listAuctionEvents() {
+      return Array.from(state.auctionEvents.values(), event => structuredClone(event));
+    },
+
+    updateAuctionEvent(event) {
+      state.auctionEvents.set(event.id, structuredClone(event));
+    },
+
+    deleteAuctionEvent(id) {
+      state.auctionEvents.delete(id);
+    },
+
+    insertCategory(newCategory) {
+      const category: Category = { ...structuredClone(newCategory), id: String(state.nextCategoryId++) };
+      state.categories.set(category.id, category);
+      return structuredClone(category);
+    },
+
+    getCategory(id) {
+      const category = state.categories.get(id);
+      return category ? structuredClone(category) : undefined;
+    },
+
+    listCategories() {
+      return Array.from(state.categories.values(), category => structuredClone(category))
+        .sort((a, b) => a.name.localeCompare(b.name));
+    },
+
+    updateCategory(category) {
+      state.categories.set(category.id, structuredClone(category));
+    },
+
+    deleteCategory(id) {
+      state.categories.delete(id);
+    },
+
+    addWatch(entry) {
+      if (!state.watchlist.some(e => e.watcherId === entry.watcherId && e.itemId === entry.itemId)) {
+        state.watchlist.push(structuredClone(entry));
+      }
+    },
+
+    getWatch(watcherId, itemId) {
+      const entry = state.watchlist.find(e => e.watcherId === watcherId && e.itemId === itemId);
+      return entry ? structuredClone(entry) : undefined;
+    },
+
+    removeWatch(watcherId, itemId) {
+      state.watchlist = state.watchlist.filter(e => e.watcherId !== watcherId || e.itemId !== itemId);
+    },
+
+    listWatches(watcherId) {
+      return state.watchlist.filter(e => e.watcherId === watcherId).map(e => structuredClone(e)).reverse();
+    },
+
+    listWatchers(itemId) {
+      return state.watchlist.filter(e => e.itemId === itemId).map(e => e.watcherId);
+    },
+
+    insertNotification(newNotification) {
+      const notification: Notification = {
+        ...structuredClone(newNotification),
+        id: String(state.nextNotificationId++),
+      };
+      state.notifications.set(notification.id, notification);
+      return structuredClone(notification);
+    },
+
+    getNotification(id) {
+      const notification = state.notifications.get(id);
+      return notification ? structuredClone(notification) : undefined;
+    },
+
+    listNotifications(recipientId) {
+      return Array.from(state.notifications.values())
+        .filter(n => n.recipientId === recipientId)
+        .map(n => structuredClone(n))
+        .reverse();
+    },
+
+    updateNotification(notification) {
+      state.notifications.set(notification.id, structuredClone(notification));
+    },
+
+    insertWebhook(newWebhook) {
+      const webhook: Webhook = { ...structuredClone(newWebhook), id: String(state.nextWebhookId++) };
+      state.webhooks.set(webhook.id, webhook);
+      return structuredClone(webhook);
+    },
+
+    getWebhook(id) {
+      const webhook = state.webhooks.get(id);
+      return webhook ? structuredClone(webhook) : undefined;
+    },
+
+    listWebhooks() {
+      return Array.from(state.webhooks.values(), webhook => structuredClone(webhook));
+    },
+
+    deleteWebhook(id) {
+      state.webhooks.delete(id);
+      for (const delivery of state.deliveries.values()) {
+        if (delivery.webhookId === id) state.deliveries.delete(delivery.id);
+      }
+    },
+
+    insertDelivery(newDelivery) {
+      const delivery: WebhookDelivery = { ...structuredClone(newDelivery), id: String(state.nextDeliveryId++) };
+      state.deliveries.set(delivery.id, delivery);
+      return structuredClone(delivery);
+    },
+
+    getDelivery(id) {
+      const delivery = state.deliveries.get(id);
+      return delivery ? structuredClone(delivery) : undefined;
+    },
+
+    listDeliveries(webhookId) {
+      return Array.from(state.deliveries.values())
+        .filter(d => d.webhookId === webhookId)
+        .map(d => structuredClone(d))
+        .reverse();
+    },
+
+    listPendingDeliveries() {
+      return Array.from(state.deliveries.values())
+        .filter(d => d.status === 'pending')
+        .map(d => structuredClone(d));
+    },
+
+    updateDelivery(delivery) {
+      state.deliveries.set(delivery.id, structuredClone(delivery));
+    },
+
+    insertUser(newUser) {
+      if (Array.from(state.users.values()).some(u => u.username === newUser.username)) {
+        throw new Error(`Username ${newUser.username} already exists`);
+      }
+      const user: User = { ...structuredClone(newUser), id: String(state.nextUserId++) };
+      state.users.set(user.id, user);
+      return structuredClone(user);
+    },
+
+    getUser(id) {
+      const user = state.users.get(id);
+      return user ? structuredClone(user) : undefined;
+    },
+
+    getUserByUsername(username) {
+      const user = Array.from(state.users.values()).find(u => u.username === username);
+      return user ? structuredClone(user) : undefined;
+    },
+
+    insertSession(session) {
+      state.sessions.set(session.token, structuredClone(session));
+    },
+
+    getSession(token) {
+      const session = state.sessions.get(token);
+      return session ? structuredClone(session) : undefined;
+    },
+
+    deleteSession(token) {
+      state.sessions.delete(token);
+    },
+
+    transaction(fn) {
+      // Roll back by restoring a snapshot taken before the transaction; a
+      // nested call takes its own, like a SQLite savepoint
+      const snapshot = structuredClone(state);
+      try {
+        return fn();
+      } catch (error) {
+        state = snapshot;
+        throw error;
+      }
+    },
+
+    close() {
+      // Nothing to release
+    },
+  };
 }
@@ -1,43 +1,78 @@
 /**
- * Background sweeper for auto-closing expired auctions
+ * Background sweeper for starting scheduled auctions, warning watchers of
+ * auctions about to end, and auto-closing expired ones
  */
 
-import { getAllItems, updateItemStatus } from './store.js';
-import { isExpired, Clock, realClock } from './time.js';
+import { Store } from './store.js';
+import { startItem, closeItem } from './auctions.js';
+import { VersionConflictError } from './errors.js';
+import { ENDING_SOON_MS, notifyEndingSoon } from './notifications.js';
+import { hasStarted, isExpired, Clock, realClock } from './time.js';
 
 // Default sweep interval: 60 seconds
 const DEFAULT_INTERVAL_MS = 60 * 1000;
 
-// Sweeper state
-let intervalId: ReturnType<typeof setInterval> | null = null;
-let clock: Clock = realClock;
+// Sweeper state: cancels the pending sweep while running
+let cancelSweep: (() => void) | null = null;
 
 /**
- * Set the clock instance (for testing)
+ * Open all scheduled items whose start time has passed
+ * Returns the number of items started
  */
-export function setSweeperClock(newClock: Clock): void {
-  clock = newClock;
+export function startScheduledItems(store: Store, clock: Clock = realClock): number {
+  const items = store.listItems();
+  let startedCount = 0;
+
+  for (const item of items) {
+    if (item.status === 'scheduled' && item.startsAt && hasStarted(item.startsAt, clock)) {
+      try {
+        startItem(store, item.id);
+        startedCount++;
+      } catch (error) {
+        // Changed by someone else mid-sweep; the next sweep will retry it
+        if (!(error instanceof VersionConflictError)) throw error;
+      }
+    }
+  }
+
+  return startedCount;
 }
 
 /**
- * Reset to real clock
+ * Tell watchers of active items ending within ENDING_SOON_MS
+ * Returns the number of notifications sent
  */
-export function resetSweeperClock(): void {
-  clock = realClock;
+export function notifyEndingItems(store: Store, clock: Clock = realClock): number {
+  const now = clock.now();
+  let sentCount = 0;
+
+  for (const item of store.listItems()) {
+    const remainingMs = item.endsAt.getTime() - now.getTime();
+    if (item.status === 'active' && remainingMs > 0 && remainingMs <= ENDING_SOON_MS) {
+      sentCount += notifyEndingSoon(store, item, now);
+    }
+  }
+
+  return sentCount;
 }
 
 /**
- * Close all expired items
+ * Close all expired items in a store
  * Returns the number of items closed
  */
-export function closeExpiredItems(): number {
-  const items = getAllItems();
+export function closeExpiredItems(store: Store, clock: Clock = realClock): number {
+  const items = store.listItems();
   let closedCount = 0;
 
   for (const item of items) {
     if (item.status === 'active' && isExpired(item.endsAt, clock)) {
-      updateItemStatus(item.id, 'closed');
-      closedCount++;
+      try {
+        closeItem(store, item.id, clock.now());
+        closedCount++;
+      } catch (error) {
+        // Changed by someone else mid-sweep; the next sweep will retry it
+        if (!(error instanceof VersionConflictError)) throw error;
+      }
     }
   }
 
@@ -46,23 +81,45 @@ export function closeExpiredItems(): number {
 
 /**
  * Start the background sweeper
+ * @param store - Store to sweep
+ * @param clock - Clock that times the sweeps and decides what is due
  * @param intervalMs - Interval between sweeps in milliseconds (default: 60000)
  */
-export function startSweeper(intervalMs: number = DEFAULT_INTERVAL_MS): void {
-  if (intervalId !== null) {
+export function startSweeper(
+  store: Store,
+  clock: Clock = realClock,
+  intervalMs: number = DEFAULT_INTERVAL_MS
+): void {
+  if (cancelSweep !== null) {
     return; // Already running
   }
 
-  // Run immediately on start
-  closeExpiredItems();
+  // Run immediately on start (starting first, so an item whose whole
+  // window has passed is started and then closed in the same sweep)
+  startScheduledItems(store, clock);
+  notifyEndingItems(store, clock);
+  closeExpiredItems(store, clock);
 
   // Then run periodically
-  intervalId = setInterval(() => {
-    const closed = closeExpiredItems();
-    if (closed > 0) {
-      console.log(`[Sweeper] Closed ${closed} expired auction(s)`);
-    }
-  }, intervalMs);
+  const scheduleSweep = () => {
+    const next = new Date(clock.now().getTime() + intervalMs);
+    cancelSweep = clock.setTimer(next, () => {
+      const started = startScheduledItems(store, clock);
+      if (started > 0) {
+        console.log(`[Sweeper] Started ${started} scheduled auction(s)`);
+      }
+      const notified = notifyEndingItems(store, clock);
+      if (notified > 0) {
+        console.log(`[Sweeper] Sent ${notified} ending soon notification(s)`);
+      }
+      const closed = closeExpiredItems(store, clock);
+      if (closed > 0) {
+        console.log(`[Sweeper] Closed ${closed} expired auction(s)`);
+      }
+      scheduleSweep();
+    });
+  };
+  scheduleSweep();
 
   console.log(`[Sweeper] Started with ${intervalMs}ms interval`);
 }
@@ -71,9 +128,9 @@ export function startSweeper(intervalMs: number = DEFAULT_INTERVAL_MS): void {
  * Stop the background sweeper
  */
 export function stopSweeper(): void {
-  if (intervalId !== null) {
-    clearInterval(intervalId);
-    intervalId = null;
+  if (cancelSweep !== null) {
+    cancelSweep();
+    cancelSweep = null;
     console.log('[Sweeper] Stopped');
   }
 }
@@ -82,5 +139,5 @@ export function stopSweeper(): void {
  * Check if sweeper is running
  */
 export function isSweeperRunning(): boolean {
-  return intervalId !== null;
+  return cancelSweep !== null;
 }
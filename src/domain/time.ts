@@ -5,17 +5,84 @@
 // Clock interface for testability (inject real or fake clock)
 export interface Clock {
   now(): Date;
+  // Run callback once the clock reaches `at`; returns a function that cancels it
+  setTimer(at: Date, callback: () => void): () => void;
 }
 
+// Longest delay setTimeout accepts; later timers are re-armed in steps
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
 // Default real clock implementation
 export const realClock: Clock = {
   now: () => new Date(),
+  setTimer: (at, callback) => {
+    let timeout: ReturnType<typeof setTimeout>;
+    const arm = () => {
+      const delay = at.getTime() - Date.now();
+      timeout = delay > MAX_TIMEOUT_MS
+        ? setTimeout(arm, MAX_TIMEOUT_MS)
+        : setTimeout(callback, Math.max(0, delay));
+    };
+    arm();
+    return () => clearTimeout(timeout);
+  },
 };
 
+// Fake clock whose time only moves when advanced or set
+export interface FakeClock extends Clock {
+  advance(ms: number): void;
+  set(time: Date): void;
+}
+
+// Check whether a clock can be moved by hand
+export function isFakeClock(clock: Clock): clock is FakeClock {
+  return 'advance' in clock && 'set' in clock;
+}
+
 // Create a fake clock for testing
-export function createFakeClock(fixedTime: Date): Clock {
+// Moving it fires every timer due by the new time, in order, with now()
+// at each timer's due time
+export function createFakeClock(startTime: Date): FakeClock {
+  let current = startTime;
+  let nextTimerId = 1;
+  const timers = new Map<number, { at: number; callback: () => void }>();
+
+  // Earliest timer due at or before the given time, if any
+  function nextDueTimer(time: number): number | undefined {
+    let dueId: number | undefined;
+    for (const [id, timer] of timers) {
+      if (timer.at <= time && (dueId === undefined || timer.at < timers.get(dueId)!.at)) {
+        dueId = id;
+      }
+    }
+    return dueId;
+  }
+
+  function moveTo(target: number): void {
+    let dueId = nextDueTimer(target);
+    while (dueId !== undefined) {
+      const timer = timers.get(dueId)!;
+      timers.delete(dueId);
+      if (timer.at > current.getTime()) {
+        current = new Date(timer.at);
+      }
+      timer.callback();
+      dueId = nextDueTimer(target);
+    }
+    current = new Date(target);
+  }
+
   return {
-    now: () => fixedTime,
+    now: () => current,
+    setTimer: (at, callback) => {
+      const id = nextTimerId++;
+      timers.set(id, { at: at.getTime(), callback });
+      return () => {
+        timers.delete(id);
+      };
+    },
+    advance: (ms) => moveTo(current.getTime() + ms),
+    set: (time) => moveTo(time.getTime()),
   };
 }
 
@@ -29,6 +96,11 @@ export function isExpired(endsAt: Date, clock: Clock = realClock): boolean {
   return getRemainingTime(endsAt, clock) <= 0;
 }
 
+// Check if a scheduled start time has arrived
+export function hasStarted(startsAt: Date, clock: Clock = realClock): boolean {
+  return startsAt.getTime() <= clock.now().getTime();
+}
+
 // Format milliseconds as HH:MM:SS
 export function formatCountdown(ms: number): string {
   if (ms <= 0) return '00:00:00';
@@ -2,41 +2,296 @@
  * Domain types for the Countdown Auction App
  */
 
-// Item status
-export type ItemStatus = 'active' | 'closed';
+import { IncrementTable } from './increments.js';
+import { Money } from './money.js';
+
+// Item status: scheduled items become active at startsAt; lots of a paused
+// auction event are paused until it resumes
+export type ItemStatus = 'scheduled' | 'active' | 'paused' | 'closed' | 'cancelled';
+
+// English auctions take rising bids until endsAt; dutch auctions lower the
+// price on a schedule until someone accepts it; sealed auctions hide bids
+// until endsAt and charge the winner their own bid (first-price) or the
+// runner-up's (Vickrey)
+export type AuctionType = 'english' | 'dutch' | 'sealed_first_price' | 'sealed_vickrey';
+
+// Price schedule of a dutch auction, which opens at startingPrice
+export interface DutchSchedule {
+  floorPrice: Money; // the price never drops below this
+  dropAmount: Money; // taken off the price every interval
+  dropIntervalSeconds: number;
+}
+
+// Dutch price schedule as sent by the client, in major units
+export interface DutchScheduleInput {
+  floorPrice: number;
+  dropAmount: number;
+  dropIntervalSeconds: number;
+}
+
+// How a lot of several units charges its winners: all pay the lowest
+// winning bid (uniform), or each pays their own bid (pay_as_bid)
+export type LotPricing = 'uniform' | 'pay_as_bid';
+
+// Units of a lot held by one bidder, highest bids first: provisional while
+// the item is active, final once it closes
+export interface LotAllocation {
+  bidderId: string;
+  quantity: number; // may be fewer units than they bid for (a partial fill)
+  price: Money; // per unit
+}
+
+// How a closed auction ended
+export type ItemOutcome = 'sold' | 'no_bids' | 'reserve_not_met';
+
+// Anti-sniping soft close: bids inside the window push the end back
+export interface SoftClose {
+  windowSeconds: number; // bids this close to endsAt trigger an extension
+  extensionSeconds: number; // how far each triggering bid extends endsAt
+  hardCloseAt: Date | null; // endsAt is never extended past this
+}
+
+// Uploaded photo of an item, served from /uploads
+export interface ItemImage {
+  id: string;
+  url: string;
+  thumbnailUrl: string;
+  width: number; // of the original, in pixels
+  height: number;
+  uploadedAt: Date;
+}
 
 // Auction Item
 export interface Item {
   id: string;
   title: string;
   description: string;
-  startingPrice: number;
-  currentBid: number | null;
+  sellerId: string | null; // username of the seller; null for items listed before accounts
+  startingPrice: Money; // every price of an item is in the same currency
+  reservePrice: Money | null; // hidden from the API, see PublicItem
+  buyNowPrice: Money | null;
+  currentBid: Money | null;
   bidCount: number;
+  highBidderId: string | null; // bidder holding the current bid
+  startsAt: Date | null; // null for items that start when listed
   endsAt: Date;
   status: ItemStatus;
   createdAt: Date;
+  auctionType: AuctionType;
+  dutch: DutchSchedule | null; // set for dutch auctions, whose endsAt it determines
+  quantity: number; // units for sale; more than one makes the item a lot
+  lotPricing: LotPricing | null; // set for lots
+  softClose: SoftClose | null;
+  incrementTable: IncrementTable | null; // null uses the global table
+  eventId: string | null; // auction event the item is a lot of
+  lotNumber: number | null; // position in its event, from 1; sets its endsAt
+  categoryId: string | null;
+  tags: string[]; // lowercase, no duplicates
+  images: ItemImage[]; // in upload order; the first is the cover
+  allocations: LotAllocation[]; // for lots; a lot's currentBid is its clearing price
+  // Settlement, set when the item closes
+  outcome: ItemOutcome | null;
+  winnerId: string | null;
+  winningBid: Money | null;
+  closedAt: Date | null; // also set when the item is cancelled
+  version: number; // bumped on every write, for optimistic concurrency
 }
 
+// Item as exposed by the API: prices are decimal amounts in its currency,
+// and the reserve price is replaced by whether it's met
+export type PublicItem = Omit<
+  Item,
+  'startingPrice' | 'reservePrice' | 'buyNowPrice' | 'currentBid' | 'dutch' | 'allocations' | 'winningBid'
+> & {
+  currency: string;
+  startingPrice: number;
+  buyNowPrice: number | null;
+  currentBid: number | null;
+  dutch: DutchScheduleInput | null;
+  allocations: (Omit<LotAllocation, 'price'> & { price: number })[];
+  winningBid: number | null;
+  reserveMet: boolean;
+  minimumBid: number; // lowest valid amount for the next bid; a dutch auction's current price
+  clearingPrice: number | null; // for lots: the lowest bid currently winning a unit
+};
+
 // Input for creating a new item (without generated fields)
+// Prices are decimal amounts in the item's currency
 export interface CreateItemInput {
   title: string;
   description: string;
+  currency?: string; // ISO 4217 code; default USD
   startingPrice: number;
-  endsAt: string; // ISO string from client
+  reservePrice?: number;
+  buyNowPrice?: number;
+  startsAt?: string; // ISO string from client; omit to start immediately
+  endsAt?: string; // ISO string from client; computed for dutch auctions
+  auctionType?: AuctionType; // default english
+  dutch?: DutchScheduleInput; // required for dutch auctions
+  quantity?: number; // default 1
+  lotPricing?: LotPricing; // for lots; default uniform
+  softClose?: SoftCloseInput;
+  incrementTable?: IncrementTable; // in major units, like the prices
+  eventId?: string; // add as the event's next lot, which sets startsAt and endsAt
+  categoryId?: string;
+  tags?: string[];
 }
 
-// Input for placing a bid
+// Listing details a seller can change before the first bid
+export interface EditItemInput {
+  title?: string;
+  description?: string;
+  endsAt?: string; // ISO string from client
+}
+
+// Soft close settings as sent by the client
+export interface SoftCloseInput {
+  windowSeconds: number;
+  extensionSeconds: number;
+  hardCloseAt?: string; // ISO string from client
+}
+
+// Input for placing a bid, in decimal amounts of the item's currency
 export interface PlaceBidInput {
   amount: number;
   bidderId: string;
+  maxAmount?: number; // private ceiling for automatic proxy bids
+  quantity?: number; // units wanted from a lot, at amount each; default 1
+}
+
+// Outcome of placing a bid
+export interface PlaceBidResult {
+  item: Item;
+  winning: boolean | null; // whether the bidder holds the high bid afterwards; null while bids are sealed
 }
 
 // Bid record
 export interface Bid {
   id: string;
   itemId: string;
-  amount: number;
+  amount: Money; // per unit
+  quantity: number; // units wanted; only lots take more than one
   bidderId: string;
   timestamp: Date;
+  isAutomatic: boolean; // placed by the bidder's proxy rather than by hand
+}
+
+// Bid as exposed by the API: a decimal amount, null for a sealed bid until
+// the item closes
+export type PublicBid = Omit<Bid, 'amount'> & { amount: number | null; currency: string };
+
+// Catalogue sale whose lots close one after another: lot 1 at
+// firstLotEndsAt, each later lot staggerSeconds after the one before
+export interface AuctionEvent {
+  id: string;
+  title: string;
+  description: string;
+  sellerId: string; // username of the seller, who adds the lots and runs the event
+  startsAt: Date | null; // bidding opens on every lot; null opens lots as they are added
+  firstLotEndsAt: Date;
+  staggerSeconds: number;
+  pausedAt: Date | null; // set while the event is paused
+  createdAt: Date;
+}
+
+// Input for creating an auction event
+export interface CreateAuctionEventInput {
+  title: string;
+  description: string;
+  startsAt?: string; // ISO string from client
+  firstLotEndsAt: string; // ISO string from client
+  staggerSeconds: number;
+}
+
+// Event details a seller can change; schedule changes move every open lot
+export interface EditAuctionEventInput {
+  title?: string;
+  description?: string;
+  startsAt?: string; // ISO string from client
+  firstLotEndsAt?: string; // ISO string from client
+  staggerSeconds?: number;
+}
+
+// Managed grouping for items; names are unique ignoring case
+export interface Category {
+  id: string;
+  name: string;
+  creatorId: string | null; // username of the user who added it; null for categories added before creators were recorded
+  createdAt: Date;
+}
+
+// Item a user follows; they hear when it is about to end
+export interface WatchlistEntry {
+  watcherId: string; // username
+  itemId: string;
+  createdAt: Date;
+}
+
+// Kind of message in a user's notification inbox
+export type NotificationType = 'outbid' | 'ending_soon' | 'won';
+
+// Message in a user's notification inbox
+export interface Notification {
+  id: string;
+  recipientId: string; // username
+  type: NotificationType;
+  itemId: string;
+  message: string;
+  createdAt: Date;
+  readAt: Date | null; // null until the recipient reads it
+}
+
+// Domain events that can be delivered to webhooks
+export type WebhookEventType = 'item.created' | 'bid.placed' | 'item.extended' | 'item.closed';
+
+// Subscription that POSTs signed event payloads to a URL
+export interface Webhook {
+  id: string;
+  ownerId: string; // username of the user who registered it
+  url: string;
+  events: WebhookEventType[];
+  secret: string; // HMAC key; only shown when the webhook is created
+  createdAt: Date;
+}
+
+// Webhook as exposed by the API after creation
+export type PublicWebhook = Omit<Webhook, 'secret'>;
+
+// Delivery state: pending deliveries are retried until they succeed or run
+// out of attempts
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+// One event sent (or being sent) to one webhook
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  eventId: number; // ID of the published domain event
+  eventType: WebhookEventType;
+  payload: string; // JSON body, signed as sent
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus: number | null; // HTTP status of the last attempt
+  error: string | null; // why the last attempt failed
+  createdAt: Date;
+  lastAttemptAt: Date | null;
+  nextAttemptAt: Date | null; // set while pending
+}
+
+// Registered user; usernames double as bidder IDs
+export interface User {
+  id: string;
+  username: string;
+  passwordHash: string; // never exposed, see PublicUser
+  createdAt: Date;
+}
+
+// User as exposed by the API
+export type PublicUser = Omit<User, 'passwordHash'>;
+
+// Login session, looked up by its bearer token
+export interface Session {
+  token: string;
+  userId: string;
+  createdAt: Date;
+  expiresAt: Date;
 }
@@ -0,0 +1,164 @@
+/**
+ * Webhook subscriptions: registration rules, payload signing and the retry
+ * schedule for deliveries
+ */
+
+import { createHmac, randomBytes } from 'crypto';
+import { BlockList, isIPv6 } from 'net';
+import { Webhook, WebhookDelivery, WebhookEventType } from './types.js';
+import { Store } from './store.js';
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = ['item.created', 'bid.placed', 'item.extended', 'item.closed'];
+
+// Failed deliveries are retried after RETRY_BASE_MS, doubling each time,
+// until MAX_DELIVERY_ATTEMPTS have been made
+export const RETRY_BASE_MS = 10 * 1000;
+export const MAX_DELIVERY_ATTEMPTS = 6;
+
+// Addresses receivers may not resolve to unless private hosts are allowed:
+// unspecified, loopback, private, shared, link-local and multicast ranges
+// (IPv4-mapped IPv6 addresses are checked against the IPv4 ones)
+const PRIVATE_ADDRESSES = new BlockList();
+PRIVATE_ADDRESSES.addSubnet('0.0.0.0', 8);
+PRIVATE_ADDRESSES.addSubnet('10.0.0.0', 8);
+PRIVATE_ADDRESSES.addSubnet('100.64.0.0', 10);
+PRIVATE_ADDRESSES.addSubnet('127.0.0.0', 8);
+PRIVATE_ADDRESSES.addSubnet('169.254.0.0', 16);
+PRIVATE_ADDRESSES.addSubnet('172.16.0.0', 12);
+PRIVATE_ADDRESSES.addSubnet('192.168.0.0', 16);
+PRIVATE_ADDRESSES.addSubnet('224.0.0.0', 3);
+PRIVATE_ADDRESSES.addAddress('::', 'ipv6');
+PRIVATE_ADDRESSES.addAddress('::1', 'ipv6');
+PRIVATE_ADDRESSES.addSubnet('fc00::', 7, 'ipv6');
+PRIVATE_ADDRESSES.addSubnet('fe80::', 10, 'ipv6');
+PRIVATE_ADDRESSES.addSubnet('ff00::', 8, 'ipv6');
+
+// Input for registering a webhook
+export interface CreateWebhookInput {
+  url: string;
+  events?: WebhookEventType[]; // omit for every event type
+}
+
+// Outcome of one delivery attempt
+export interface DeliveryAttempt {
+  responseStatus: number | null; // null if no response arrived
+  error: string | null; // null if the receiver answered 2xx
+}
+
+/**
+ * Parse an absolute URL
+ * Returns null if the value isn't one
+ */
+function parseUrl(value: unknown): URL | null {
+  if (typeof value !== 'string') return null;
+  try {
+    return new URL(value);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Validate a webhook's receiver URL
+ * Returns an error message, or null if it is an http(s) URL
+ */
+export function validateWebhookUrl(value: unknown): string | null {
+  const url = parseUrl(value);
+  if (!url || (url.protocol !== 'http:' && url.protocol !== 'https:')) {
+    return 'url must be an http or https URL';
+  }
+  return null;
+}
+
+/**
+ * Check whether an IP address is loopback, private, link-local or otherwise
+ * not on the public internet
+ */
+export function isPrivateAddress(address: string): boolean {
+  return PRIVATE_ADDRESSES.check(address, isIPv6(address) ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Validate the event types a webhook subscribes to
+ * Returns an error message, or null if they are a non-empty list of types
+ */
+export function validateWebhookEvents(events: unknown): string | null {
+  if (
+    !Array.isArray(events) ||
+    events.length === 0 ||
+    !events.every(type => WEBHOOK_EVENT_TYPES.includes(type))
+  ) {
+    return `events must be a non-empty list of ${WEBHOOK_EVENT_TYPES.join(', ')}`;
+  }
+  return null;
+}
+
+/**
+ * Validate a webhook registration
+ * Returns an error message, or null if the input is valid
+ */
+export function validateWebhookInput(input: CreateWebhookInput): string | null {
+  return validateWebhookUrl(input.url) ?? (input.events === undefined ? null : validateWebhookEvents(input.events));
+}
+
+/**
+ * Register a webhook with a freshly generated signing secret
+ */
+export function createWebhook(
+  store: Store,
+  ownerId: string,
+  input: CreateWebhookInput,
+  createdAt: Date = new Date()
+): Webhook {
+  return store.insertWebhook({
+    ownerId,
+    url: input.url,
+    events: input.events ? [...new Set(input.events)] : [...WEBHOOK_EVENT_TYPES],
+    secret: `whsec_${randomBytes(24).toString('hex')}`,
+    createdAt,
+  });
+}
+
+/**
+ * Sign a payload for the X-Webhook-Signature header
+ * Receivers recompute the HMAC-SHA256 of `${timestamp}.${body}` with their
+ * secret and compare it with the hex digest after `sha256=`
+ */
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Get the delay before retrying a delivery that has failed `attempts` times
+ */
+export function getRetryDelay(attempts: number): number {
+  return RETRY_BASE_MS * 2 ** (attempts - 1);
+}
+
+/**
+ * Record the outcome of a delivery attempt
+ * A failed attempt leaves the delivery pending with its next attempt backed
+ * off, or fails it for good after MAX_DELIVERY_ATTEMPTS
+ */
+export function recordAttempt(
+  store: Store,
+  delivery: WebhookDelivery,
+  attempt: DeliveryAttempt,
+  attemptedAt: Date
+): WebhookDelivery {
+  const attempts = delivery.attempts + 1;
+  const succeeded = attempt.error === null;
+  const exhausted = !succeeded && attempts >= MAX_DELIVERY_ATTEMPTS;
+
+  const updated: WebhookDelivery = {
+    ...delivery,
+    attempts,
+    responseStatus: attempt.responseStatus,
+    error: attempt.error,
+    lastAttemptAt: attemptedAt,
+    status: succeeded ? 'succeeded' : exhausted ? 'failed' : 'pending',
+    nextAttemptAt: succeeded || exhausted ? null : new Date(attemptedAt.getTime() + getRetryDelay(attempts)),
+  };
+  store.updateDelivery(updated);
+  return updated;
+}
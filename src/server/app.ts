@@ -1,31 +1,85 @@
-import express from 'express';
+import express, { Express } from 'express';
 import cors from 'cors';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { Store } from '../domain/store.js';
+import { Clock, realClock, isFakeClock } from '../domain/time.js';
+import { createAuthMiddleware } from './auth.js';
+import { errorHandler, notFoundHandler } from './errors.js';
 import healthRouter from './routes/health.js';
-import itemsRouter from './routes/items.js';
+import { createAuthRouter } from './routes/auth.js';
+import { createItemsRouter } from './routes/items.js';
+import { createCategoriesRouter } from './routes/categories.js';
+import { createAuctionEventsRouter } from './routes/auction-events.js';
+import { createWatchlistRouter } from './routes/watchlist.js';
+import { createNotificationsRouter } from './routes/notifications.js';
+import { createWebhooksRouter } from './routes/webhooks.js';
+import { createEventsRouter } from './routes/events.js';
+import { createTestClockRouter } from './routes/test-clock.js';
+import { DEFAULT_UPLOADS_DIR, UPLOADS_URL_PATH } from './images.js';
+import { WebhookDispatcher, createWebhookDispatcher } from './webhooks.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-const app = express();
-
-// Middleware
-app.use(cors());
-app.use(express.json());
-
-// API Routes
-app.use('/health', healthRouter);
-app.use('/api/items', itemsRouter);
-
 // Serve static client files from public/ at project root
 // Works for both dev (src/server) and prod (dist/server)
 const publicPath = path.join(__dirname, '..', '..', 'public');
-app.use(express.static(publicPath));
 
-// Fallback: serve index.html for root
-app.get('/', (_req, res) => {
-  res.sendFile(path.join(publicPath, 'index.html'));
-});
+// Dependencies injected into the app
+export interface AppDependencies {
+  store: Store;
+  clock?: Clock; // drives every time check in the app (default: real time)
+  uploadsDir?: string; // where item images are stored (default: data/uploads)
+  webhooks?: WebhookDispatcher; // sends redeliveries (default: one that isn't started)
+}
+
+/**
+ * Create the Express app
+ * A fake clock also exposes POST /__test/clock outside production
+ */
+export function createApp({
+  store,
+  clock = realClock,
+  uploadsDir = DEFAULT_UPLOADS_DIR,
+  webhooks = createWebhookDispatcher(store, clock),
+}: AppDependencies): Express {
+  const app = express();
+
+  // Middleware
+  // Cross-origin clients need the ETag to send If-Match on bids
+  app.use(cors({ exposedHeaders: ['ETag'] }));
+  app.use(express.json());
+  app.use(createAuthMiddleware(store, clock));
+
+  // API Routes
+  app.use('/health', healthRouter);
+  app.use('/api/auth', createAuthRouter(store, clock));
+  app.use('/api/items', createItemsRouter(store, clock, uploadsDir));
+  app.use('/api/categories', createCategoriesRouter(store, clock));
+  app.use('/api/auction-events', createAuctionEventsRouter(store, clock));
+  app.use('/api/watchlist', createWatchlistRouter(store, clock));
+  app.use('/api/notifications', createNotificationsRouter(store, clock));
+  app.use('/api/webhooks', createWebhooksRouter(store, webhooks, clock));
+  app.use('/api/events', createEventsRouter(clock));
+  app.use('/api', notFoundHandler);
+
+  if (isFakeClock(clock) && process.env.NODE_ENV !== 'production') {
+    app.use('/__test', createTestClockRouter(clock));
+  }
+
+  // Item images and their thumbnails; file names are never reused
+  app.use(UPLOADS_URL_PATH, express.static(uploadsDir, { immutable: true, maxAge: '1y' }));
+
+  app.use(express.static(publicPath));
+
+  // Fallback: serve index.html for root
+  app.get('/', (_req, res) => {
+    res.sendFile(path.join(publicPath, 'index.html'));
+  });
+
+  // Every error from the routes above is sent as `{ error, code }` JSON
+  app.use(errorHandler);
 
-export default app;
+  return app;
+}
@@ -0,0 +1,52 @@
+/**
+ * Session authentication for API requests
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { User } from '../domain/types.js';
+import { Store } from '../domain/store.js';
+import { getSessionUser } from '../domain/accounts.js';
+import { Clock, realClock } from '../domain/time.js';
+import { ApiError } from './errors.js';
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: User; // set by the auth middleware for a valid session
+      sessionToken?: string;
+    }
+  }
+}
+
+/**
+ * Read the session token from an `Authorization: Bearer <token>` header
+ */
+function getBearerToken(req: Request): string | undefined {
+  const match = /^Bearer (\S+)$/.exec(req.get('Authorization') ?? '');
+  return match?.[1];
+}
+
+/**
+ * Create middleware that attaches the session's user to the request
+ * Requests without a valid session carry on anonymously
+ */
+export function createAuthMiddleware(store: Store, clock: Clock = realClock): RequestHandler {
+  return (req: Request, _res: Response, next: NextFunction) => {
+    const token = getBearerToken(req);
+    if (token) {
+      const user = getSessionUser(store, token, clock.now());
+      if (user) {
+        req.user = user;
+        req.sessionToken = token;
+      }
+    }
+    next();
+  };
+}
+
+/**
+ * Reject requests without a logged-in user
+ */
+export function requireAuth(req: Request, _res: Response, next: NextFunction): void {
+  next(req.user ? undefined : new ApiError(401, 'AUTH_REQUIRED', 'Authentication required'));
+}
@@ -0,0 +1,81 @@
+/**
+ * Server configuration from environment variables
+ */
+
+import { Store, createMemoryStore } from '../domain/store.js';
+import { createSqliteStore } from '../domain/sqlite-store.js';
+import { Clock, realClock, createFakeClock } from '../domain/time.js';
+import { DEFAULT_UPLOADS_DIR } from './images.js';
+
+export type StorageDriver = 'sqlite' | 'memory';
+export type ClockMode = 'real' | 'fake';
+
+export interface Config {
+  port: number;
+  storage: {
+    driver: StorageDriver;
+    sqlitePath: string; // used by the sqlite driver
+  };
+  clock: ClockMode; // 'fake' only moves via POST /__test/clock
+  uploadsDir: string; // item images and thumbnails
+  webhooks: {
+    allowPrivateHosts: boolean; // let webhooks target loopback and private addresses
+  };
+}
+
+/**
+ * Read configuration
+ *   PORT         - HTTP port (default 3000)
+ *   STORAGE      - 'sqlite' (default) or 'memory'
+ *   SQLITE_PATH  - database file (default data/auction.db)
+ *   UPLOADS_DIR  - item image directory (default data/uploads)
+ *   CLOCK        - 'real' (default) or 'fake' for end-to-end tests;
+ *                  refused when NODE_ENV is 'production'
+ *   WEBHOOK_ALLOW_PRIVATE_HOSTS - 'true' to deliver webhooks to loopback,
+ *                  private and link-local addresses (default refused)
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): Config {
+  const driver = env.STORAGE ?? 'sqlite';
+  if (driver !== 'sqlite' && driver !== 'memory') {
+    throw new Error(`Unknown STORAGE driver: ${driver}`);
+  }
+
+  const clock = env.CLOCK ?? 'real';
+  if (clock !== 'real' && clock !== 'fake') {
+    throw new Error(`Unknown CLOCK mode: ${clock}`);
+  }
+  if (clock === 'fake' && env.NODE_ENV === 'production') {
+    throw new Error('CLOCK=fake is not allowed in production');
+  }
+
+  return {
+    port: Number(env.PORT) || 3000,
+    storage: {
+      driver,
+      sqlitePath: env.SQLITE_PATH ?? 'data/auction.db',
+    },
+    clock,
+    uploadsDir: env.UPLOADS_DIR ?? DEFAULT_UPLOADS_DIR,
+    webhooks: {
+      allowPrivateHosts: env.WEBHOOK_ALLOW_PRIVATE_HOSTS === 'true',
+    },
+  };
+}
+
+/**
+ * Create the store selected by the configuration
+ */
+export function createStore(config: Config): Store {
+  if (config.storage.driver === 'memory') {
+    return createMemoryStore();
+  }
+  return createSqliteStore(config.storage.sqlitePath);
+}
+
+/**
+ * Create the clock selected by the configuration
+ * The fake clock starts at the current time
+ */
+export function createClock(config: Config): Clock {
+  return config.clock === 'fake' ? createFakeClock(new Date()) : realClock;
+}
@@ -0,0 +1,138 @@
+/**
+ * API errors: machine-readable codes and the central error handler
+ * Routes throw ApiError; the handler turns it into
+ * `{ error, code, details?, ... }` with the matching status
+ */
+
+import { Request, Response, NextFunction, ErrorRequestHandler } from 'express';
+
+// Machine-readable error codes, grouped by status
+export type ErrorCode =
+  // 400: the request is malformed
+  | 'VALIDATION_FAILED'
+  | 'MALFORMED_JSON'
+  | 'INVALID_UPLOAD'
+  // 401: no valid session or credentials
+  | 'AUTH_REQUIRED'
+  | 'INVALID_CREDENTIALS'
+  // 403: the user may not touch this resource
+  | 'NOT_SELLER'
+  | 'OWN_ITEM'
+  | 'NOT_CREATOR'
+  // 404: no such resource (for this user)
+  | 'NOT_FOUND'
+  | 'ITEM_NOT_FOUND'
+  | 'CATEGORY_NOT_FOUND'
+  | 'EVENT_NOT_FOUND'
+  | 'NOTIFICATION_NOT_FOUND'
+  | 'WEBHOOK_NOT_FOUND'
+  | 'DELIVERY_NOT_FOUND'
+  | 'NOT_WATCHING'
+  // 409: the resource's current state rules the request out
+  | 'VERSION_CONFLICT'
+  | 'AUCTION_NOT_STARTED'
+  | 'AUCTION_CLOSED'
+  | 'AUCTION_CANCELLED'
+  | 'AUCTION_PAUSED'
+  | 'ITEM_HAS_BIDS'
+  | 'ACTION_NOT_ALLOWED'
+  | 'USERNAME_TAKEN'
+  | 'CATEGORY_EXISTS'
+  | 'CATEGORY_IN_USE'
+  | 'EVENT_PAUSED'
+  | 'EVENT_NOT_PAUSED'
+  | 'EVENT_HAS_BIDS'
+  | 'EVENT_HAS_LOTS'
+  // 413: the upload is too big
+  | 'IMAGE_TOO_LARGE'
+  // 422: well-formed, but breaks an auction rule
+  | 'BID_TOO_LOW'
+  | 'BUY_NOW_UNAVAILABLE'
+  | 'PROXY_BID_UNAVAILABLE'
+  | 'INVALID_QUANTITY'
+  | 'UNKNOWN_CATEGORY'
+  | 'UNKNOWN_EVENT'
+  | 'INVALID_END_TIME'
+  | 'TOO_MANY_IMAGES'
+  | 'UNSUPPORTED_IMAGE'
+  // 500
+  | 'INTERNAL_ERROR';
+
+// One invalid request field
+export interface FieldError {
+  field: string; // dotted path, or `body`/`query` for rules spanning fields
+  message: string;
+}
+
+// Extra response parts for an error
+export interface ApiErrorOptions {
+  details?: FieldError[];
+  body?: Record<string, unknown>; // merged into the JSON body, e.g. minimumBid
+  headers?: Record<string, string>;
+}
+
+/**
+ * An error with an HTTP status and code, thrown by routes and middleware
+ */
+export class ApiError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: ErrorCode,
+    message: string,
+    public readonly options: ApiErrorOptions = {}
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/**
+ * Build a 400 for invalid request fields
+ * The message is the first field's, so clients can show it as is
+ */
+export function validationError(details: FieldError[]): ApiError {
+  return new ApiError(400, 'VALIDATION_FAILED', details[0].message, { details });
+}
+
+/**
+ * Check whether an error is express.json's report of an unparseable body
+ */
+function isJsonParseError(error: unknown): boolean {
+  return error instanceof SyntaxError && (error as SyntaxError & { type?: string }).type === 'entity.parse.failed';
+}
+
+/**
+ * Respond 404 to API requests no route matched
+ */
+export function notFoundHandler(req: Request, _res: Response, next: NextFunction): void {
+  next(new ApiError(404, 'NOT_FOUND', `No route for ${req.method} ${req.originalUrl}`));
+}
+
+/**
+ * Send errors from routes and middleware as JSON
+ * Anything other than an ApiError is logged and reported as a 500
+ */
+export const errorHandler: ErrorRequestHandler = (error: unknown, _req, res, next) => {
+  if (res.headersSent) {
+    next(error);
+    return;
+  }
+
+  let apiError: ApiError;
+  if (error instanceof ApiError) {
+    apiError = error;
+  } else if (isJsonParseError(error)) {
+    apiError = new ApiError(400, 'MALFORMED_JSON', 'Request body must be valid JSON');
+  } else {
+    console.error('[API] Unhandled error:', error);
+    apiError = new ApiError(500, 'INTERNAL_ERROR', 'Internal server error');
+  }
+
+  const { details, body, headers } = apiError.options;
+  res.status(apiError.status).set(headers ?? {}).json({
+    error: apiError.message,
+    code: apiError.code,
+    ...(details && { details }),
+    ...body,
+  });
+};
@@ -0,0 +1,98 @@
+/**
+ * Item image uploads: multipart parsing, and image files on local disk
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import sharp, { Metadata } from 'sharp';
+import { ItemImage } from '../domain/types.js';
+import { ApiError } from './errors.js';
+
+// Where uploads are stored, and the URL path they are served under
+export const DEFAULT_UPLOADS_DIR = 'data/uploads';
+export const UPLOADS_URL_PATH = '/uploads';
+
+// Uploads must be one of these formats and at most MAX_IMAGE_BYTES
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const IMAGE_FORMATS = ['jpeg', 'png', 'webp', 'gif'];
+
+// Thumbnails fit inside a square this many pixels wide
+const THUMBNAIL_SIZE = 320;
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_IMAGE_BYTES, files: 1 },
+}).single('image');
+
+/**
+ * Parse a multipart upload with one file in the `image` field into req.file
+ * Oversized files fail with IMAGE_TOO_LARGE and other unreadable uploads
+ * with INVALID_UPLOAD
+ */
+export function receiveImage(req: Request, res: Response, next: NextFunction): void {
+  upload(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE') {
+      next(new ApiError(413, 'IMAGE_TOO_LARGE', `image must be at most ${MAX_IMAGE_BYTES / 1024 / 1024} MB`));
+      return;
+    }
+    if (error) {
+      next(new ApiError(400, 'INVALID_UPLOAD', 'Upload a single file in the image field'));
+      return;
+    }
+    next();
+  });
+}
+
+/**
+ * Store an uploaded image and a thumbnail of it
+ * The original is re-encoded in its own format, which drops EXIF data such
+ * as the camera's location
+ * Returns the image, or null if the data isn't a supported image
+ */
+export async function saveImage(dir: string, data: Buffer, uploadedAt: Date): Promise<ItemImage | null> {
+  let metadata: Metadata;
+  let original: Buffer;
+  let thumbnail: Buffer;
+  try {
+    metadata = await sharp(data).metadata();
+    if (!IMAGE_FORMATS.includes(metadata.format)) return null;
+
+    // Animated GIFs and WebPs keep every frame
+    original = await sharp(data, { animated: true }).autoOrient().toFormat(metadata.format).toBuffer();
+    thumbnail = await sharp(data, { animated: true })
+      .autoOrient()
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+      .webp()
+      .toBuffer();
+  } catch {
+    return null;
+  }
+
+  const id = randomUUID();
+  const fileName = `${id}.${metadata.format === 'jpeg' ? 'jpg' : metadata.format}`;
+  const thumbnailName = `${id}-thumb.webp`;
+
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(path.join(dir, fileName), original);
+  await fs.writeFile(path.join(dir, thumbnailName), thumbnail);
+
+  return {
+    id,
+    url: `${UPLOADS_URL_PATH}/${fileName}`,
+    thumbnailUrl: `${UPLOADS_URL_PATH}/${thumbnailName}`,
+    width: metadata.autoOrient.width,
+    height: metadata.autoOrient.height,
+    uploadedAt,
+  };
+}
+
+/**
+ * Delete an image's files, for an upload that was saved but not attached
+ */
+export async function removeImage(dir: string, image: ItemImage): Promise<void> {
+  const files = [image.url, image.thumbnailUrl].map(url => path.join(dir, path.basename(url)));
+  await Promise.all(files.map(file => fs.rm(file, { force: true })));
+}
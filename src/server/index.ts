@@ -1,12 +1,30 @@
-import app from './app.js';
+import { createApp } from './app.js';
+import { loadConfig, createStore, createClock } from './config.js';
 import { startSweeper } from '../domain/sweeper.js';
+import { createDeadlineScheduler } from '../domain/scheduler.js';
+import { createWebhookDispatcher } from './webhooks.js';
 
-const PORT = process.env.PORT || 3000;
+const config = loadConfig();
+const store = createStore(config);
+const clock = createClock(config);
+const webhooks = createWebhookDispatcher(store, clock, config.webhooks);
+const app = createApp({ store, clock, uploadsDir: config.uploadsDir, webhooks });
 
-app.listen(PORT, () => {
-  console.log(`Server running on http://localhost:${PORT}`);
-  console.log(`Health check: http://localhost:${PORT}/health`);
+app.listen(config.port, () => {
+  console.log(`Server running on http://localhost:${config.port}`);
+  console.log(`Health check: http://localhost:${config.port}/health`);
+  console.log(`Storage: ${config.storage.driver}`);
+  if (config.clock === 'fake') {
+    console.log(`Fake clock: move it with POST http://localhost:${config.port}/__test/clock`);
+  }
 
-  // Start background sweeper to auto-close expired auctions
-  startSweeper();
+  // Deliver lifecycle events to registered webhooks (first, so closes made
+  // on startup are delivered too)
+  webhooks.start();
+
+  // Start and close auctions as their deadlines arrive
+  createDeadlineScheduler(store, clock).start();
+
+  // Background sweeper as a backstop for anything the scheduler missed
+  startSweeper(store, clock);
 });
@@ -0,0 +1,199 @@
+import { Router, Request, Response } from 'express';
+import { AuctionEvent, CreateAuctionEventInput, EditAuctionEventInput } from '../../domain/types.js';
+import { Store } from '../../domain/store.js';
+import { Clock, realClock } from '../../domain/time.js';
+import { createAuctionEvent, deleteAuctionEvent, listLots } from '../../domain/auction-events.js';
+import { editAuctionEvent, pauseAuctionEvent, resumeAuctionEvent } from '../../domain/auctions.js';
+import { requireAuth } from '../auth.js';
+import { ApiError } from '../errors.js';
+import {
+  Schema,
+  required,
+  optional,
+  isString,
+  isNonEmptyString,
+  isPositiveInteger,
+  isDate,
+  isFuture,
+  isBefore,
+  validateBody,
+} from '../validation.js';
+
+// POST /api/auction-events
+const createEventSchema: Schema = {
+  fields: {
+    title: required(isNonEmptyString('title is required')),
+    description: optional(isString()),
+    startsAt: optional(isDate(), isFuture(), isBefore('firstLotEndsAt')),
+    firstLotEndsAt: required(isNonEmptyString('firstLotEndsAt is required'), isDate(), isFuture()),
+    staggerSeconds: required(isPositiveInteger()),
+  },
+};
+
+// PATCH /api/auction-events/:id
+const editEventSchema: Schema = {
+  fields: {
+    title: optional(isNonEmptyString()),
+    description: optional(isString()),
+    startsAt: optional(isDate(), isFuture(), isBefore('firstLotEndsAt')),
+    firstLotEndsAt: optional(isDate(), isFuture()),
+    staggerSeconds: optional(isPositiveInteger()),
+  },
+  unknownFieldsMessage: 'Only title, description, startsAt, firstLotEndsAt and staggerSeconds can be edited',
+};
+
+/**
+ * Create the auction events router backed by the given store
+ * Anyone can read events; changing one needs the seller's session
+ */
+export function createAuctionEventsRouter(store: Store, clock: Clock = realClock): Router {
+  const router = Router();
+
+  /**
+   * Get an event by ID
+   * Throws EVENT_NOT_FOUND if there is no such event
+   */
+  function findEvent(id: string): AuctionEvent {
+    const event = store.getAuctionEvent(id);
+    if (!event) throw new ApiError(404, 'EVENT_NOT_FOUND', 'Auction event not found');
+    return event;
+  }
+
+  /**
+   * Get an event the logged-in user is selling
+   * Throws unless it exists and belongs to them
+   */
+  function findOwnEvent(req: Request<{ id: string }>): AuctionEvent {
+    const event = findEvent(req.params.id);
+    if (event.sellerId !== req.user!.username) {
+      throw new ApiError(403, 'NOT_SELLER', 'Only the seller can change this event');
+    }
+    return event;
+  }
+
+  /**
+   * GET /api/auction-events
+   * List auction events in creation order
+   */
+  router.get('/', (_req: Request, res: Response) => {
+    res.json(store.listAuctionEvents());
+  });
+
+  /**
+   * POST /api/auction-events
+   * Create an auction event run by the logged-in user; lots are added by
+   * creating items with its eventId
+   */
+  router.post('/', requireAuth, validateBody(createEventSchema, clock), (req: Request, res: Response) => {
+    const input = req.body as CreateAuctionEventInput;
+
+    const event = createAuctionEvent(store, {
+      title: input.title,
+      description: input.description || '',
+      startsAt: input.startsAt,
+      firstLotEndsAt: input.firstLotEndsAt,
+      staggerSeconds: input.staggerSeconds,
+    }, req.user!.username, clock.now());
+
+    res.status(201).json(event);
+  });
+
+  /**
+   * GET /api/auction-events/:id
+   * Get a single auction event; its lots are listed by GET /api/items?event=
+   */
+  router.get('/:id', (req: Request<{ id: string }>, res: Response) => {
+    res.json(findEvent(req.params.id));
+  });
+
+  /**
+   * PATCH /api/auction-events/:id
+   * Change an event's details or schedule; only the seller can edit
+   * Schedule changes move every open lot, and are only allowed while the
+   * event is running and before any lot gets a bid
+   */
+  router.patch('/:id', requireAuth, validateBody(editEventSchema, clock), (req: Request<{ id: string }>, res: Response) => {
+    const changes = req.body as EditAuctionEventInput;
+
+    const event = findOwnEvent(req);
+    const rescheduling =
+      changes.startsAt !== undefined || changes.firstLotEndsAt !== undefined || changes.staggerSeconds !== undefined;
+    if (rescheduling) {
+      if (event.pausedAt !== null) {
+        throw new ApiError(409, 'EVENT_PAUSED', 'Auction event is paused');
+      }
+      if (listLots(store, event.id).some(lot => lot.bidCount > 0)) {
+        throw new ApiError(409, 'EVENT_HAS_BIDS', 'Auction event cannot be rescheduled after its lots get bids');
+      }
+      const startsAt = changes.startsAt !== undefined ? new Date(changes.startsAt) : event.startsAt;
+      const firstLotEndsAt = changes.firstLotEndsAt !== undefined ? new Date(changes.firstLotEndsAt) : event.firstLotEndsAt;
+      if (firstLotEndsAt <= clock.now()) {
+        throw new ApiError(422, 'INVALID_END_TIME', 'firstLotEndsAt must be in the future');
+      }
+      if (startsAt && startsAt >= firstLotEndsAt) {
+        throw new ApiError(422, 'INVALID_END_TIME', 'firstLotEndsAt must be after startsAt');
+      }
+    }
+
+    const updatedEvent = editAuctionEvent(store, event.id, changes, clock.now());
+    if (!updatedEvent) {
+      throw new ApiError(409, 'ACTION_NOT_ALLOWED', 'Failed to edit auction event');
+    }
+
+    res.json(updatedEvent);
+  });
+
+  /**
+   * DELETE /api/auction-events/:id
+   * Remove an event that has no lots; only the seller can delete
+   */
+  router.delete('/:id', requireAuth, (req: Request<{ id: string }>, res: Response) => {
+    const event = findOwnEvent(req);
+
+    if (!deleteAuctionEvent(store, event.id)) {
+      throw new ApiError(409, 'EVENT_HAS_LOTS', 'Auction event still has lots');
+    }
+
+    res.status(204).end();
+  });
+
+  /**
+   * POST /api/auction-events/:id/pause
+   * Pause every open lot of an event: bids are refused and deadlines stop
+   * until it resumes; only the seller can pause
+   */
+  router.post('/:id/pause', requireAuth, (req: Request<{ id: string }>, res: Response) => {
+    const event = findOwnEvent(req);
+    if (event.pausedAt !== null) {
+      throw new ApiError(409, 'EVENT_PAUSED', 'Auction event is already paused');
+    }
+
+    const pausedEvent = pauseAuctionEvent(store, event.id, clock.now());
+    if (!pausedEvent) {
+      throw new ApiError(409, 'ACTION_NOT_ALLOWED', 'Failed to pause auction event');
+    }
+
+    res.json(pausedEvent);
+  });
+
+  /**
+   * POST /api/auction-events/:id/resume
+   * Resume a paused event, moving each remaining deadline back by the time
+   * it spent paused; only the seller can resume
+   */
+  router.post('/:id/resume', requireAuth, (req: Request<{ id: string }>, res: Response) => {
+    const event = findOwnEvent(req);
+    if (event.pausedAt === null) {
+      throw new ApiError(409, 'EVENT_NOT_PAUSED', 'Auction event is not paused');
+    }
+
+    const resumedEvent = resumeAuctionEvent(store, event.id, clock.now());
+    if (!resumedEvent) {
+      throw new ApiError(409, 'ACTION_NOT_ALLOWED', 'Failed to resume auction event');
+    }
+
+    res.json(resumedEvent);
+  });
+
+  return router;
+}
@@ -0,0 +1,103 @@
+import { Router, Request, Response } from 'express';
+import { Store } from '../../domain/store.js';
+import { Clock, realClock } from '../../domain/time.js';
+import { User } from '../../domain/types.js';
+import { registerUser, authenticate, createSession, logout } from '../../domain/accounts.js';
+import { requireAuth } from '../auth.js';
+import { ApiError } from '../errors.js';
+import { Schema, required, isString, matches, minLength, validateBody } from '../validation.js';
+import { toPublicUser } from '../views.js';
+
+// Credential rules for new accounts
+const USERNAME_PATTERN = /^[A-Za-z0-9_-]{3,32}$/;
+const MIN_PASSWORD_LENGTH = 8;
+
+// Body of register and login requests
+interface CredentialsInput {
+  username: string;
+  password: string;
+}
+
+// POST /api/auth/register
+const registerSchema: Schema = {
+  fields: {
+    username: required(matches(USERNAME_PATTERN, 'username must be 3-32 letters, digits, dashes or underscores')),
+    password: required(minLength(MIN_PASSWORD_LENGTH)),
+  },
+};
+
+// POST /api/auth/login
+const loginSchema: Schema = {
+  fields: {
+    username: required(isString('username and password are required')),
+    password: required(isString('username and password are required')),
+  },
+};
+
+/**
+ * Create the auth router backed by the given store
+ */
+export function createAuthRouter(store: Store, clock: Clock = realClock): Router {
+  const router = Router();
+
+  /**
+   * Respond with a user and their new session
+   */
+  function sendSession(res: Response, status: number, user: User): void {
+    const session = createSession(store, user, clock.now());
+    res.status(status).json({
+      user: toPublicUser(user),
+      token: session.token,
+      expiresAt: session.expiresAt,
+    });
+  }
+
+  /**
+   * POST /api/auth/register
+   * Create an account and log it in
+   */
+  router.post('/register', validateBody(registerSchema, clock), (req: Request, res: Response) => {
+    const input = req.body as CredentialsInput;
+
+    const user = registerUser(store, input.username, input.password, clock.now());
+    if (!user) {
+      throw new ApiError(409, 'USERNAME_TAKEN', 'Username is already taken');
+    }
+
+    sendSession(res, 201, user);
+  });
+
+  /**
+   * POST /api/auth/login
+   * Exchange a username and password for a session token
+   */
+  router.post('/login', validateBody(loginSchema, clock), (req: Request, res: Response) => {
+    const input = req.body as CredentialsInput;
+
+    const user = authenticate(store, input.username, input.password);
+    if (!user) {
+      throw new ApiError(401, 'INVALID_CREDENTIALS', 'Invalid username or password');
+    }
+
+    sendSession(res, 200, user);
+  });
+
+  /**
+   * POST /api/auth/logout
+   * End the current session
+   */
+  router.post('/logout', requireAuth, (req: Request, res: Response) => {
+    logout(store, req.sessionToken!);
+    res.status(204).end();
+  });
+
+  /**
+   * GET /api/auth/me
+   * Get the logged-in user
+   */
+  router.get('/me', requireAuth, (req: Request, res: Response) => {
+    res.json({ user: toPublicUser(req.user!) });
+  });
+
+  return router;
+}
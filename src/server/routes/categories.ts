@@ -0,0 +1,93 @@
+import { Router, Request, Response } from 'express';
+import { Category } from '../../domain/types.js';
+import { Store } from '../../domain/store.js';
+import { Clock, realClock } from '../../domain/time.js';
+import { createCategory, renameCategory, deleteCategory, validateCategoryName } from '../../domain/categories.js';
+import { requireAuth } from '../auth.js';
+import { ApiError } from '../errors.js';
+import { Schema, required, validateBody } from '../validation.js';
+
+// POST /api/categories and PATCH /api/categories/:id
+const categorySchema: Schema = {
+  fields: {
+    name: required(value => validateCategoryName(value)),
+  },
+};
+
+/**
+ * Create the categories router backed by the given store
+ * Anyone can read categories; changing one needs its creator's session
+ */
+export function createCategoriesRouter(store: Store, clock: Clock = realClock): Router {
+  const router = Router();
+
+  /**
+   * Get a category the logged-in user added
+   * Throws unless it exists and they created it
+   */
+  function findOwnCategory(req: Request<{ id: string }>): Category {
+    const category = store.getCategory(req.params.id);
+    if (!category) {
+      throw new ApiError(404, 'CATEGORY_NOT_FOUND', 'Category not found');
+    }
+    if (category.creatorId !== req.user!.username) {
+      throw new ApiError(403, 'NOT_CREATOR', 'Only the user who added this category can change it');
+    }
+    return category;
+  }
+
+  /**
+   * GET /api/categories
+   * List categories by name
+   */
+  router.get('/', (_req: Request, res: Response) => {
+    res.json(store.listCategories());
+  });
+
+  /**
+   * POST /api/categories
+   * Add a category created by the logged-in user
+   */
+  router.post('/', requireAuth, validateBody(categorySchema, clock), (req: Request, res: Response) => {
+    const { name } = req.body as { name: string };
+
+    const category = createCategory(store, name, req.user!.username, clock.now());
+    if (!category) {
+      throw new ApiError(409, 'CATEGORY_EXISTS', 'Category already exists');
+    }
+
+    res.status(201).json(category);
+  });
+
+  /**
+   * PATCH /api/categories/:id
+   * Rename a category; only its creator can
+   */
+  router.patch('/:id', requireAuth, validateBody(categorySchema, clock), (req: Request<{ id: string }>, res: Response) => {
+    const category = findOwnCategory(req);
+
+    const { name } = req.body as { name: string };
+    const renamed = renameCategory(store, category, name);
+    if (!renamed) {
+      throw new ApiError(409, 'CATEGORY_EXISTS', 'Category already exists');
+    }
+
+    res.json(renamed);
+  });
+
+  /**
+   * DELETE /api/categories/:id
+   * Remove a category no item uses; only its creator can
+   */
+  router.delete('/:id', requireAuth, (req: Request<{ id: string }>, res: Response) => {
+    const category = findOwnCategory(req);
+
+    if (!deleteCategory(store, category.id)) {
+      throw new ApiError(409, 'CATEGORY_IN_USE', 'Category is in use');
+    }
+
+    res.status(204).end();
+  });
+
+  return router;
+}
@@ -0,0 +1,80 @@
+import { Router, Request, Response } from 'express';
+import { subscribe, getEventsSince, getStreamId, getLatestStreamId, PublishedEvent } from '../../domain/events.js';
+import { Clock, realClock } from '../../domain/time.js';
+import { toPublicEventData } from '../views.js';
+
+// Client reconnect delay advertised to EventSource
+const RETRY_MS = 3000;
+
+// Comment line sent periodically so proxies don't drop idle streams
+const HEARTBEAT_MS = 15 * 1000;
+
+/**
+ * Serialize an event in text/event-stream format, with the item as of `now`
+ * and any sealed bid amount hidden
+ */
+function formatEvent(event: PublishedEvent, now: Date): string {
+  const { id, type, ...data } = event;
+  const payload = toPublicEventData(data, now);
+  return `id: ${getStreamId(id)}\nevent: ${type}\ndata: ${JSON.stringify(payload)}\n\n`;
+}
+
+/**
+ * Read the last event ID a client has seen
+ * EventSource sends the Last-Event-ID header on reconnect; the lastEventId
+ * query parameter covers clients that open a fresh connection
+ */
+function getLastEventId(req: Request): string | null {
+  const raw = req.get('Last-Event-ID') ?? req.query.lastEventId;
+  return typeof raw === 'string' && raw !== '' ? raw : null;
+}
+
+/**
+ * Create the event stream router
+ */
+export function createEventsRouter(clock: Clock = realClock): Router {
+  const router = Router();
+
+  /**
+   * GET /api/events
+   * Server-Sent Events stream of item lifecycle and bid events (see DomainEvent)
+   */
+  router.get('/', (req: Request, res: Response) => {
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    res.flushHeaders();
+    res.write(`retry: ${RETRY_MS}\n\n`);
+
+    // Replay anything the client missed while disconnected, or tell it to
+    // reload if the server restarted or the missed events left the log
+    const lastEventId = getLastEventId(req);
+    if (lastEventId !== null) {
+      const missed = getEventsSince(lastEventId);
+      if (missed === null) {
+        res.write(`id: ${getLatestStreamId()}\nevent: reset\ndata: {}\n\n`);
+      } else {
+        for (const event of missed) {
+          res.write(formatEvent(event, clock.now()));
+        }
+      }
+    }
+
+    const unsubscribe = subscribe(event => {
+      res.write(formatEvent(event, clock.now()));
+    });
+
+    const heartbeat = setInterval(() => {
+      res.write(': heartbeat\n\n');
+    }, HEARTBEAT_MS);
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  });
+
+  return router;
+}
@@ -1,155 +1,778 @@
 import { Router, Request, Response } from 'express';
-import { CreateItemInput, PlaceBidInput, Item } from '../../domain/types.js';
-import { createItem, getAllItems, getItemById, updateItemStatus, placeBid } from '../../domain/store.js';
-import { isExpired, Clock, realClock } from '../../domain/time.js';
+import {
+  CreateItemInput,
+  EditItemInput,
+  PlaceBidInput,
+  Item,
+  ItemStatus,
+  AuctionType,
+  LotPricing,
+} from '../../domain/types.js';
+import { Store } from '../../domain/store.js';
+import {
+  createItem,
+  editItem,
+  cancelItem,
+  startItem,
+  closeItem,
+  placeBid,
+  buyNow,
+  addItemImage,
+  getMinimumBidAt,
+  MAX_ITEM_IMAGES,
+} from '../../domain/auctions.js';
+import { VersionConflictError } from '../../domain/errors.js';
+import { hasStarted, isExpired, Clock, realClock } from '../../domain/time.js';
+import { CURRENCIES, DEFAULT_CURRENCY, toMoney, toMajorUnits, formatMoney, validatePrecision } from '../../domain/money.js';
+import { validateIncrementTable } from '../../domain/increments.js';
+import { validateDutchSchedule } from '../../domain/dutch.js';
+import { isLot } from '../../domain/lots.js';
+import { getLotEndsAt, getNextLotNumber } from '../../domain/auction-events.js';
+import { validateTags } from '../../domain/categories.js';
+import { ItemQuery, ItemSortField, SortOrder, ITEM_SORT_FIELDS, decodeCursor, searchItems } from '../../domain/search.js';
+import { requireAuth } from '../auth.js';
+import { ApiError, validationError } from '../errors.js';
+import {
+  Check,
+  Schema,
+  required,
+  optional,
+  requiredWhen,
+  isString,
+  isNonEmptyString,
+  isNonNegativeNumber,
+  isPositiveNumber,
+  isDate,
+  isFuture,
+  isBefore,
+  oneOf,
+  isIntegerParam,
+  isNumberParam,
+  validateBody,
+  validateQuery,
+} from '../validation.js';
+import { DEFAULT_UPLOADS_DIR, receiveImage, saveImage, removeImage } from '../images.js';
+import { toPublicItem, toPublicBid } from '../views.js';
 
-const router = Router();
+// Bid history paging defaults
+const DEFAULT_BIDS_LIMIT = 20;
+const MAX_BIDS_LIMIT = 100;
 
-// Clock instance (can be replaced for testing)
-let clock: Clock = realClock;
+// Item list paging defaults
+const DEFAULT_ITEMS_LIMIT = 20;
+const MAX_ITEMS_LIMIT = 100;
+
+const ITEM_STATUSES: ItemStatus[] = ['scheduled', 'active', 'paused', 'closed', 'cancelled'];
+
+const AUCTION_TYPES: AuctionType[] = ['english', 'dutch', 'sealed_first_price', 'sealed_vickrey'];
+
+const LOT_PRICINGS: LotPricing[] = ['uniform', 'pay_as_bid'];
 
 /**
- * Set the clock instance (for testing)
+ * Check and update item expiration status (settles the winner on close)
+ * Scheduled items whose start time has passed are started first
  */
-export function setClock(newClock: Clock): void {
-  clock = newClock;
+function checkExpiration(store: Store, clock: Clock, item: Item): Item {
+  if (item.status === 'scheduled' && item.startsAt && hasStarted(item.startsAt, clock)) {
+    item = startItem(store, item.id) ?? item;
+  }
+  if (item.status === 'active' && isExpired(item.endsAt, clock)) {
+    return closeItem(store, item.id, clock.now()) ?? item;
+  }
+  return item;
 }
 
 /**
- * Reset to real clock
+ * Throw unless a finished item's status still allows changes
+ * Scheduled, active and paused items pass
  */
-export function resetClock(): void {
-  clock = realClock;
+function assertNotEnded(item: Item): void {
+  if (item.status === 'closed') throw new ApiError(409, 'AUCTION_CLOSED', 'Auction has ended');
+  if (item.status === 'cancelled') throw new ApiError(409, 'AUCTION_CANCELLED', 'Auction has been cancelled');
 }
 
 /**
- * Check and update item expiration status
+ * Throw if the user is the item's seller, who may not bid on or buy it
  */
-function checkExpiration(item: Item): Item {
-  if (item.status === 'active' && isExpired(item.endsAt, clock)) {
-    updateItemStatus(item.id, 'closed');
-    item.status = 'closed';
-  }
-  return item;
+function assertNotOwnItem(item: Item, username: string): void {
+  if (item.sellerId === username) throw new ApiError(403, 'OWN_ITEM', 'Sellers cannot bid on their own items');
 }
 
 /**
- * POST /api/items
- * Create a new auction item
+ * Throw unless an item accepts bids
  */
-router.post('/', (req: Request, res: Response) => {
-  const input = req.body as CreateItemInput;
+function assertActive(item: Item): void {
+  if (item.status === 'scheduled') throw new ApiError(409, 'AUCTION_NOT_STARTED', 'Auction has not started');
+  if (item.status === 'paused') throw new ApiError(409, 'AUCTION_PAUSED', 'Auction is paused');
+  assertNotEnded(item);
+}
 
-  // Basic validation
-  if (!input.title || typeof input.title !== 'string') {
-    res.status(400).json({ error: 'title is required' });
-    return;
-  }
-  if (!input.endsAt || typeof input.endsAt !== 'string') {
-    res.status(400).json({ error: 'endsAt is required' });
-    return;
+/**
+ * Get the currency a create request prices its item in
+ * An unsupported currency is reported by its own field, so the others are
+ * checked as if it were the default
+ */
+function getInputCurrency(input: Record<string, unknown>): string {
+  return CURRENCIES.includes(input.currency as string) ? (input.currency as string) : DEFAULT_CURRENCY;
+}
+
+/**
+ * Check that a price has no more decimal places than the item's currency has
+ * minor units
+ * Follow a number check
+ */
+const fitsCurrency: Check = (value, field, { input }) =>
+  validatePrecision(value as number, field, getInputCurrency(input));
+
+/**
+ * Check that a price is not below the first of the other price fields given
+ */
+function notLessThan(...others: string[]): Check {
+  return (value, field, { input }) => {
+    const other = others.find(name => typeof input[name] === 'number');
+    if (other === undefined || (value as number) >= (input[other] as number)) return null;
+    return `${field} must not be less than ${other}`;
+  };
+}
+
+/**
+ * Check that a value is a positive whole number of seconds
+ */
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+/**
+ * Check that a value is a whole number of units
+ */
+const isQuantity: Check = (value, field) => (isPositiveInteger(value) ? null : `${field} must be a positive integer`);
+
+/**
+ * Check whether a create request is for a lot of several units
+ */
+function isLotInput(input: Record<string, unknown>): boolean {
+  return typeof input.quantity === 'number' && input.quantity > 1;
+}
+
+/**
+ * Reject a field that only applies to single items
+ * A lot's units each sell at their own clearing or bid price
+ */
+const notLot: Check = (_value, field, { input }) => (isLotInput(input) ? `${field} is not available for lots` : null);
+
+/**
+ * Check optional soft close settings against the item's endsAt
+ */
+const isSoftClose: Check = (softClose, _field, { input }) => {
+  if (typeof softClose !== 'object' || softClose === null) {
+    return 'softClose must be an object';
   }
-  if (typeof input.startingPrice !== 'number' || input.startingPrice < 0) {
-    res.status(400).json({ error: 'startingPrice must be a non-negative number' });
-    return;
+  const { windowSeconds, extensionSeconds, hardCloseAt } = softClose as Record<string, unknown>;
+  if (!isPositiveInteger(windowSeconds)) {
+    return 'softClose.windowSeconds must be a positive integer';
   }
-
-  // Validate endsAt is a valid future date
-  const endsAtDate = new Date(input.endsAt);
-  if (isNaN(endsAtDate.getTime())) {
-    res.status(400).json({ error: 'endsAt must be a valid ISO date string' });
-    return;
+  if (!isPositiveInteger(extensionSeconds)) {
+    return 'softClose.extensionSeconds must be a positive integer';
   }
-  if (endsAtDate <= new Date()) {
-    res.status(400).json({ error: 'endsAt must be in the future' });
-    return;
+  if (hardCloseAt !== undefined) {
+    const hardCloseAtDate = new Date(hardCloseAt as string);
+    if (typeof hardCloseAt !== 'string' || isNaN(hardCloseAtDate.getTime())) {
+      return 'softClose.hardCloseAt must be a valid ISO date string';
+    }
+    if (hardCloseAtDate < new Date(input.endsAt as string)) {
+      return 'softClose.hardCloseAt must not be before endsAt';
+    }
   }
+  return null;
+};
 
-  const item = createItem({
-    title: input.title,
-    description: input.description || '',
-    startingPrice: input.startingPrice,
-    endsAt: input.endsAt,
-  });
+/**
+ * Check whether a create request is for a dutch auction
+ */
+function isDutch(input: Record<string, unknown>): boolean {
+  return input.auctionType === 'dutch';
+}
+
+/**
+ * Reject a field that dutch items don't take
+ * Dutch items close on their price schedule and sell at the falling price
+ */
+const notDutch: Check = (_value, field, { input }) =>
+  isDutch(input) ? `${field} is not available for dutch auctions` : null;
 
-  res.status(201).json(item);
-});
+/**
+ * Reject a field that only applies to english auctions
+ * Reserves, buy-now prices, soft close and increments all act on visible
+ * rising bids
+ */
+const englishOnly: Check = (_value, field, { input }) =>
+  input.auctionType === undefined || input.auctionType === 'english'
+    ? null
+    : `${field} is not available for ${input.auctionType} auctions`;
 
 /**
- * GET /api/items
- * Get all auction items (checks expiration on each item)
+ * Check whether a create request adds a lot to an auction event
  */
-router.get('/', (_req: Request, res: Response) => {
-  const items = getAllItems().map(checkExpiration);
-  res.json(items);
-});
+function isEventLot(input: Record<string, unknown>): boolean {
+  return input.eventId !== undefined;
+}
 
 /**
- * GET /api/items/:id
- * Get a single auction item by ID (checks expiration)
+ * Reject a field that an auction event sets for its lots
  */
-router.get('/:id', (req: Request<{ id: string }>, res: Response) => {
-  const item = getItemById(req.params.id);
+const notEventLot: Check = (_value, field, { input }) =>
+  isEventLot(input) ? `${field} is set by the auction event` : null;
 
-  if (!item) {
-    res.status(404).json({ error: 'Item not found' });
-    return;
+/**
+ * Check a dutch price schedule against the item's startingPrice
+ */
+const isDutchSchedule: Check = (value, _field, { input }) => {
+  if (!isDutch(input)) return 'dutch requires auctionType dutch';
+  if (value === undefined) return 'dutch is required for dutch auctions';
+  return validateDutchSchedule(value, input.startingPrice, getInputCurrency(input));
+};
+
+/**
+ * Check a comma-separated list of item statuses
+ */
+const isStatusList: Check = value => {
+  const values = typeof value === 'string' ? value.split(',') : [];
+  return values.length > 0 && values.every(status => ITEM_STATUSES.includes(status as ItemStatus))
+    ? null
+    : `status must be a comma-separated list of ${ITEM_STATUSES.join(', ')}`;
+};
+
+/**
+ * Check whether a list query filters or sorts by price, which only compares
+ * items of one currency
+ */
+function isPriceQuery(input: Record<string, unknown>): boolean {
+  return input.minPrice !== undefined || input.maxPrice !== undefined || input.sort === 'price';
+}
+
+/**
+ * Check that a cursor continues the listing the query asks for
+ */
+const isCursor: Check = (value, _field, { input }) => {
+  const decoded = decodeCursor(value as string);
+  if (!decoded) return 'cursor is invalid';
+  if (decoded.sort !== (input.sort ?? 'createdAt') || decoded.order !== (input.order ?? 'asc')) {
+    return 'cursor does not match sort and order';
   }
+  return null;
+};
+
+// POST /api/items
+// Prices are decimal amounts in the item's currency, ordered starting <=
+// reserve <= buy-now
+// Dutch items take a price schedule instead of an endsAt, and auction event
+// lots take their startsAt and endsAt from the event
+const createItemSchema: Schema = {
+  fields: {
+    title: required(isNonEmptyString('title is required')),
+    description: optional(isString()),
+    auctionType: optional(oneOf(AUCTION_TYPES)),
+    endsAt: requiredWhen(
+      input => !isDutch(input) && !isEventLot(input),
+      notDutch,
+      notEventLot,
+      isNonEmptyString('endsAt is required'),
+      isDate(),
+      isFuture()
+    ),
+    currency: optional(oneOf(CURRENCIES)),
+    startingPrice: required(isNonNegativeNumber(), fitsCurrency),
+    dutch: requiredWhen(isDutch, isDutchSchedule),
+    eventId: optional(notDutch, isString('eventId must match an existing auction event')),
+    startsAt: optional(notEventLot, isDate(), isFuture(), isBefore('endsAt')),
+    quantity: optional(englishOnly, isQuantity),
+    lotPricing: optional(oneOf(LOT_PRICINGS), (_value, _field, { input }) =>
+      isLotInput(input) ? null : 'lotPricing requires a quantity above 1'
+    ),
+    reservePrice: optional(englishOnly, notLot, isNonNegativeNumber(), fitsCurrency, notLessThan('startingPrice')),
+    buyNowPrice: optional(
+      englishOnly,
+      notLot,
+      isNonNegativeNumber(),
+      fitsCurrency,
+      notLessThan('reservePrice', 'startingPrice')
+    ),
+    softClose: optional(englishOnly, isSoftClose),
+    incrementTable: optional(englishOnly, (value, _field, { input }) =>
+      validateIncrementTable(value, getInputCurrency(input))
+    ),
+    categoryId: optional(isString('categoryId must match an existing category')),
+    tags: optional(value => validateTags(value)),
+  },
+};
+
+// PATCH /api/items/:id
+const editItemSchema: Schema = {
+  fields: {
+    title: optional(isNonEmptyString()),
+    description: optional(isString()),
+    endsAt: optional(isDate(), isFuture()),
+  },
+  unknownFieldsMessage: 'Only title, description and endsAt can be edited',
+};
+
+// POST /api/items/:id/bid
+// The amounts' precision depends on the item's currency, so is checked by
+// the handler
+const placeBidSchema: Schema = {
+  fields: {
+    amount: required(isPositiveNumber()),
+    quantity: optional(isQuantity),
+    maxAmount: optional((value, _field, { input }) =>
+      typeof value === 'number' && value >= (input.amount as number)
+        ? null
+        : 'maxAmount must be a number not less than amount'
+    ),
+  },
+};
+
+// GET /api/items
+const itemQuerySchema: Schema = {
+  fields: {
+    status: optional(isStatusList),
+    q: optional(isString()),
+    category: optional(isString('category must be a category ID')),
+    event: optional(isString('event must be an auction event ID')),
+    tag: optional(isString()),
+    currency: requiredWhen(
+      isPriceQuery,
+      isString('currency is required with minPrice, maxPrice or sort=price'),
+      oneOf(CURRENCIES)
+    ),
+    minPrice: optional(isNumberParam()),
+    maxPrice: optional(isNumberParam()),
+    endingBefore: optional(isDate()),
+    endingAfter: optional(isDate()),
+    sort: optional(oneOf(ITEM_SORT_FIELDS)),
+    order: optional(oneOf(['asc', 'desc'])),
+    limit: optional(isIntegerParam(1, MAX_ITEMS_LIMIT)),
+    cursor: optional(isString('cursor is invalid'), isCursor),
+  },
+};
+
+// GET /api/items/:id/bids
+const bidsQuerySchema: Schema = {
+  fields: {
+    limit: optional(isIntegerParam(1, MAX_BIDS_LIMIT)),
+    offset: optional(isIntegerParam(0)),
+  },
+};
 
-  res.json(checkExpiration(item));
-});
+/**
+ * Build the search for a validated item list query string
+ */
+function toItemQuery(params: Request['query']): ItemQuery {
+  const { status, q, category, event, tag, currency, minPrice, maxPrice, endingBefore, endingAfter, limit, cursor } =
+    params as Record<string, string | undefined>;
+
+  return {
+    statuses: status?.split(',') as ItemStatus[] | undefined,
+    text: q,
+    categoryId: category,
+    eventId: event,
+    tag: tag?.trim().toLowerCase(),
+    currency,
+    minPrice: minPrice === undefined ? undefined : parseFloat(minPrice),
+    maxPrice: maxPrice === undefined ? undefined : parseFloat(maxPrice),
+    endingBefore: endingBefore === undefined ? undefined : new Date(endingBefore),
+    endingAfter: endingAfter === undefined ? undefined : new Date(endingAfter),
+    sort: (params.sort ?? 'createdAt') as ItemSortField,
+    order: (params.order ?? 'asc') as SortOrder,
+    limit: limit === undefined ? DEFAULT_ITEMS_LIMIT : parseInt(limit, 10),
+    cursor: cursor === undefined ? undefined : decodeCursor(cursor)!,
+  };
+}
 
 /**
- * POST /api/items/:id/bid
- * Place a bid on an auction item
+ * Format an item's version as a strong ETag
  */
-router.post('/:id/bid', (req: Request<{ id: string }>, res: Response) => {
-  const input = req.body as PlaceBidInput;
+function formatETag(item: Item): string {
+  return `"${item.version}"`;
+}
 
-  // Validate input
-  if (typeof input.amount !== 'number' || input.amount <= 0) {
-    res.status(400).json({ error: 'amount must be a positive number' });
-    return;
+/**
+ * Parse a request's If-Match header into the item version it expects
+ * Returns undefined when absent or `*`; throws if the header is malformed
+ */
+function parseIfMatch(req: Request): number | undefined {
+  const header = req.get('If-Match');
+  if (header === undefined || header.trim() === '*') return undefined;
+  const match = /^(?:W\/)?"(\d+)"$/.exec(header.trim());
+  if (!match) {
+    throw validationError([{ field: 'If-Match', message: 'If-Match must be an item ETag' }]);
   }
-  if (!input.bidderId || typeof input.bidderId !== 'string') {
-    res.status(400).json({ error: 'bidderId is required' });
-    return;
+  return parseInt(match[1], 10);
+}
+
+/**
+ * Build a 409 with the item as it is now, so the client can retry against it
+ */
+function conflictError(item: Item, now: Date): ApiError {
+  return new ApiError(409, 'VERSION_CONFLICT', 'Item has been modified', {
+    body: { item: toPublicItem(item, now) },
+    headers: { ETag: formatETag(item) },
+  });
+}
+
+/**
+ * Throw a conflict unless the item is at the version the client expects
+ * An undefined expectedVersion accepts any version
+ */
+function assertVersion(item: Item, expectedVersion: number | undefined, now: Date): void {
+  if (expectedVersion !== undefined && item.version !== expectedVersion) {
+    throw conflictError(item, now);
   }
+}
 
-  // Get and check item
-  const item = getItemById(req.params.id);
-  if (!item) {
-    res.status(404).json({ error: 'Item not found' });
-    return;
+/**
+ * Run a write against the item version a route has checked
+ * If another write got there first, throws a conflict with the latest item
+ */
+function writeOrConflict<T>(store: Store, item: Item, now: Date, write: () => T): T {
+  try {
+    return write();
+  } catch (error) {
+    if (!(error instanceof VersionConflictError)) throw error;
+    throw conflictError(store.getItem(item.id) ?? item, now);
   }
+}
 
-  // Check expiration first
-  checkExpiration(item);
+/**
+ * Create the items router backed by the given store
+ * Uploaded images are written to uploadsDir
+ */
+export function createItemsRouter(
+  store: Store,
+  clock: Clock = realClock,
+  uploadsDir: string = DEFAULT_UPLOADS_DIR
+): Router {
+  const router = Router();
 
-  // Reject bid if item is closed
-  if (item.status === 'closed') {
-    res.status(400).json({ error: 'Auction has ended' });
-    return;
+  /**
+   * Get an item by ID
+   * Throws ITEM_NOT_FOUND if there is no such item
+   */
+  function findItem(id: string): Item {
+    const item = store.getItem(id);
+    if (!item) throw new ApiError(404, 'ITEM_NOT_FOUND', 'Item not found');
+    return item;
   }
 
-  // Validate bid amount
-  const minBid = item.currentBid ?? item.startingPrice;
-  if (input.amount <= minBid) {
-    res.status(400).json({
-      error: `Bid must be greater than ${minBid}`,
-      minimumBid: minBid
-    });
-    return;
+  /**
+   * Get an item the logged-in user is selling, brought up to date
+   * Throws unless it exists and belongs to them
+   */
+  function findOwnItem(req: Request<{ id: string }>): Item {
+    const item = findItem(req.params.id);
+    if (item.sellerId !== req.user!.username) {
+      throw new ApiError(403, 'NOT_SELLER', 'Only the seller can change this item');
+    }
+    return checkExpiration(store, clock, item);
   }
 
-  // Place the bid
-  const updatedItem = placeBid(req.params.id, input.amount);
-  if (!updatedItem) {
-    res.status(400).json({ error: 'Failed to place bid' });
-    return;
-  }
+  /**
+   * POST /api/items
+   * Create a new auction item, listed by the logged-in user
+   * A dutch item's endsAt is computed from its price schedule; an item with
+   * an eventId becomes the next lot of that event, which must be the user's
+   */
+  router.post('/', requireAuth, validateBody(createItemSchema, clock), (req: Request, res: Response) => {
+    const input = req.body as CreateItemInput;
+
+    if (input.categoryId !== undefined && !store.getCategory(input.categoryId)) {
+      const message = 'categoryId must match an existing category';
+      throw new ApiError(422, 'UNKNOWN_CATEGORY', message, { details: [{ field: 'categoryId', message }] });
+    }
+    if (input.eventId !== undefined) {
+      const event = store.getAuctionEvent(input.eventId);
+      if (!event) {
+        const message = 'eventId must match an existing auction event';
+        throw new ApiError(422, 'UNKNOWN_EVENT', message, { details: [{ field: 'eventId', message }] });
+      }
+      if (event.sellerId !== req.user!.username) {
+        throw new ApiError(403, 'NOT_SELLER', 'Only the seller can add lots to this event');
+      }
+      if (event.pausedAt !== null) {
+        throw new ApiError(409, 'EVENT_PAUSED', 'Auction event is paused');
+      }
+      if (getLotEndsAt(event, getNextLotNumber(store, event.id)) <= clock.now()) {
+        throw new ApiError(422, 'INVALID_END_TIME', "The event's next lot would already have closed");
+      }
+    }
+
+    const item = createItem(store, {
+      title: input.title,
+      description: input.description || '',
+      currency: input.currency,
+      startingPrice: input.startingPrice,
+      reservePrice: input.reservePrice,
+      buyNowPrice: input.buyNowPrice,
+      startsAt: input.startsAt,
+      endsAt: input.endsAt,
+      auctionType: input.auctionType,
+      dutch: input.dutch,
+      quantity: input.quantity,
+      lotPricing: input.lotPricing,
+      softClose: input.softClose,
+      incrementTable: input.incrementTable,
+      eventId: input.eventId,
+      categoryId: input.categoryId,
+      tags: input.tags,
+    }, req.user!.username, clock.now());
+
+    res.status(201).json(toPublicItem(item, clock.now()));
+  });
+
+  /**
+   * GET /api/items
+   * Search auction items (checks expiration on each item first, so status
+   * filters see current statuses)
+   * Query: status, q, category, event, tag, currency, minPrice, maxPrice,
+   * endingBefore, endingAfter, sort, order, limit and the cursor from the
+   * previous page's nextCursor; price filters and sort=price need a currency
+   */
+  router.get('/', validateQuery(itemQuerySchema, clock), (req: Request, res: Response) => {
+    const items = store.listItems().map(item => checkExpiration(store, clock, item));
+    const page = searchItems(items, toItemQuery(req.query));
+    res.json({ items: page.items.map(item => toPublicItem(item, clock.now())), nextCursor: page.nextCursor });
+  });
+
+  /**
+   * GET /api/items/:id
+   * Get a single auction item by ID (checks expiration)
+   */
+  router.get('/:id', (req: Request<{ id: string }>, res: Response) => {
+    const current = checkExpiration(store, clock, findItem(req.params.id));
+    res.set('ETag', formatETag(current)).json(toPublicItem(current, clock.now()));
+  });
+
+  /**
+   * PATCH /api/items/:id
+   * Change an item's title, description or endsAt
+   * Only the seller can edit, and only before the item ends or gets a bid;
+   * honours If-Match the same way as bids
+   */
+  router.patch('/:id', requireAuth, validateBody(editItemSchema, clock), (req: Request<{ id: string }>, res: Response) => {
+    const changes = req.body as EditItemInput;
+    const expectedVersion = parseIfMatch(req);
+
+    const item = findOwnItem(req);
+    assertNotEnded(item);
+    if (item.bidCount > 0) {
+      throw new ApiError(409, 'ITEM_HAS_BIDS', 'Item cannot be edited after the first bid');
+    }
+    if (changes.endsAt !== undefined && item.auctionType === 'dutch') {
+      throw new ApiError(422, 'INVALID_END_TIME', 'A dutch auction ends on its price schedule');
+    }
+    if (changes.endsAt !== undefined && item.eventId !== null) {
+      throw new ApiError(422, 'INVALID_END_TIME', "A lot ends on its auction event's schedule");
+    }
+    const hardCloseAt = item.softClose?.hardCloseAt;
+    if (changes.endsAt !== undefined && hardCloseAt && new Date(changes.endsAt) > hardCloseAt) {
+      throw new ApiError(422, 'INVALID_END_TIME', 'endsAt must not be after softClose.hardCloseAt');
+    }
+    if (changes.endsAt !== undefined && item.startsAt && new Date(changes.endsAt) <= item.startsAt) {
+      throw new ApiError(422, 'INVALID_END_TIME', 'endsAt must be after startsAt');
+    }
+    assertVersion(item, expectedVersion, clock.now());
 
-  res.json(updatedItem);
-});
+    const updatedItem = writeOrConflict(store, item, clock.now(), () =>
+      editItem(store, item.id, changes, item.version)
+    );
+    if (!updatedItem) {
+      throw new ApiError(409, 'ACTION_NOT_ALLOWED', 'Failed to edit item');
+    }
 
-export default router;
+    res.set('ETag', formatETag(updatedItem)).json(toPublicItem(updatedItem, clock.now()));
+  });
+
+  /**
+   * POST /api/items/:id/cancel
+   * Withdraw a scheduled or active item; only the seller can cancel
+   * Honours If-Match the same way as bids
+   */
+  router.post('/:id/cancel', requireAuth, (req: Request<{ id: string }>, res: Response) => {
+    const expectedVersion = parseIfMatch(req);
+
+    const item = findOwnItem(req);
+    assertNotEnded(item);
+    assertVersion(item, expectedVersion, clock.now());
+
+    const cancelledItem = writeOrConflict(store, item, clock.now(), () =>
+      cancelItem(store, item.id, clock.now(), item.version)
+    );
+    if (!cancelledItem) {
+      throw new ApiError(409, 'ACTION_NOT_ALLOWED', 'Failed to cancel item');
+    }
+
+    res.set('ETag', formatETag(cancelledItem)).json(toPublicItem(cancelledItem, clock.now()));
+  });
+
+  /**
+   * POST /api/items/:id/images
+   * Upload an image for a scheduled or active item, as multipart form data
+   * with the file in the `image` field; a thumbnail is generated alongside
+   * Only the seller can upload; honours If-Match the same way as bids
+   */
+  router.post('/:id/images', requireAuth, receiveImage, async (req: Request<{ id: string }>, res: Response) => {
+    const expectedVersion = parseIfMatch(req);
+
+    const item = findOwnItem(req);
+    assertNotEnded(item);
+    if (item.images.length >= MAX_ITEM_IMAGES) {
+      throw new ApiError(422, 'TOO_MANY_IMAGES', `Items can have at most ${MAX_ITEM_IMAGES} images`);
+    }
+    assertVersion(item, expectedVersion, clock.now());
+    if (!req.file) {
+      throw validationError([{ field: 'image', message: 'image is required' }]);
+    }
+
+    const image = await saveImage(uploadsDir, req.file.buffer, clock.now());
+    if (!image) {
+      throw new ApiError(422, 'UNSUPPORTED_IMAGE', 'image must be a JPEG, PNG, WebP or GIF');
+    }
+
+    // The item may have changed while the image was processed, so only an
+    // If-Match pins the version
+    let updatedItem: Item | null;
+    try {
+      updatedItem = writeOrConflict(store, item, clock.now(), () => addItemImage(store, item.id, image, expectedVersion));
+    } catch (error) {
+      await removeImage(uploadsDir, image);
+      throw error;
+    }
+    if (!updatedItem) {
+      await removeImage(uploadsDir, image);
+      throw new ApiError(409, 'ACTION_NOT_ALLOWED', 'Failed to add image');
+    }
+
+    res.status(201).set('ETag', formatETag(updatedItem)).json(toPublicItem(updatedItem, clock.now()));
+  });
+
+  /**
+   * GET /api/items/:id/bids
+   * Get the bid history for an item, newest first (checks expiration, so
+   * sealed amounts show as null until the item closes)
+   * Query: limit (1-100, default 20), offset (default 0)
+   */
+  router.get('/:id/bids', validateQuery(bidsQuerySchema, clock), (req: Request<{ id: string }>, res: Response) => {
+    const item = checkExpiration(store, clock, findItem(req.params.id));
+
+    const { limit: limitParam, offset: offsetParam } = req.query as Record<string, string | undefined>;
+    const limit = limitParam === undefined ? DEFAULT_BIDS_LIMIT : parseInt(limitParam, 10);
+    const offset = offsetParam === undefined ? 0 : parseInt(offsetParam, 10);
+
+    const history = store.listBids(item.id).reverse();
+
+    res.json({
+      bids: history.slice(offset, offset + limit).map(bid => toPublicBid(bid, item)),
+      total: history.length,
+      limit,
+      offset,
+    });
+  });
+
+  /**
+   * POST /api/items/:id/bid
+   * Place a bid on an auction item, optionally with a private maxAmount for
+   * automatic proxy bidding
+   * A bid inside the item's soft close window extends endsAt in the response,
+   * and `winning` tells the bidder whether they hold the high bid
+   * An If-Match header with the item's ETag rejects the bid with 409 if the
+   * item has changed since the client read it
+   * On a dutch item the first bid at or above the current price buys it at
+   * that price; on a sealed item the bid replaces the bidder's earlier one
+   * and `winning` is null until the item closes; on a lot the bid is for
+   * `quantity` units at `amount` each, replacing the bidder's earlier bid
+   * Amounts are decimals in the item's currency, with no more decimal places
+   * than it has minor units
+   * Requires a session; the bid is placed as the logged-in user, who must
+   * not be the seller
+   */
+  router.post('/:id/bid', requireAuth, validateBody(placeBidSchema, clock), (req: Request<{ id: string }>, res: Response) => {
+    const { amount, maxAmount, quantity } = req.body as Omit<PlaceBidInput, 'bidderId'>;
+    const input: PlaceBidInput = { amount, maxAmount, quantity, bidderId: req.user!.username };
+    const expectedVersion = parseIfMatch(req);
+
+    // Check expiration first, then reject bids on items that aren't active
+    const item = checkExpiration(store, clock, findItem(req.params.id));
+    const { currency } = item.startingPrice;
+    const precisionErrors = (['amount', 'maxAmount'] as const).flatMap(field => {
+      const value = input[field];
+      const message = value === undefined ? null : validatePrecision(value, field, currency);
+      return message ? [{ field, message }] : [];
+    });
+    if (precisionErrors.length > 0) {
+      throw validationError(precisionErrors);
+    }
+    assertNotOwnItem(item, input.bidderId);
+    assertActive(item);
+    assertVersion(item, expectedVersion, clock.now());
+
+    if ((item.auctionType !== 'english' || isLot(item)) && maxAmount !== undefined) {
+      throw new ApiError(422, 'PROXY_BID_UNAVAILABLE', 'Only single-item english auctions take proxy bids');
+    }
+    if (quantity !== undefined && quantity > item.quantity) {
+      const message = `quantity must not be more than the ${item.quantity} available`;
+      throw new ApiError(422, 'INVALID_QUANTITY', message, { details: [{ field: 'quantity', message }] });
+    }
+
+    // Validate bid amount against the increment table, a dutch item's
+    // current price or a sealed item's starting price (a bid reaching the
+    // buy-now price always succeeds, and the leader of an english item
+    // bidding again only raises their maximum)
+    const bidAmount = toMoney(amount, currency);
+    const minBid = getMinimumBidAt(item, clock.now());
+    const buysNow = item.buyNowPrice !== null && bidAmount.amount >= item.buyNowPrice.amount;
+    const raisesMax = item.auctionType === 'english' && !isLot(item) && item.highBidderId === input.bidderId;
+    if (!buysNow && !raisesMax && bidAmount.amount < minBid.amount) {
+      throw new ApiError(422, 'BID_TOO_LOW', `Bid must be at least ${formatMoney(minBid)}`, {
+        body: { minimumBid: toMajorUnits(minBid), currency: minBid.currency },
+      });
+    }
+
+    // Place the bid against the version checked above
+    const result = writeOrConflict(store, item, clock.now(), () =>
+      placeBid(store, item.id, input, clock.now(), item.version)
+    );
+    if (!result) {
+      throw new ApiError(409, 'ACTION_NOT_ALLOWED', 'Failed to place bid');
+    }
+
+    res.set('ETag', formatETag(result.item)).json({ ...toPublicItem(result.item, clock.now()), winning: result.winning });
+  });
+
+  /**
+   * POST /api/items/:id/buy-now
+   * Buy an item outright at its buy-now price, closing the auction
+   * Honours If-Match the same way as bids; requires a session, and the
+   * seller cannot buy their own item
+   */
+  router.post('/:id/buy-now', requireAuth, (req: Request<{ id: string }>, res: Response) => {
+    const expectedVersion = parseIfMatch(req);
+
+    const item = checkExpiration(store, clock, findItem(req.params.id));
+    assertNotOwnItem(item, req.user!.username);
+    assertActive(item);
+    if (item.buyNowPrice === null) {
+      throw new ApiError(422, 'BUY_NOW_UNAVAILABLE', 'Buy now is not available for this item');
+    }
+    assertVersion(item, expectedVersion, clock.now());
+
+    const purchasedItem = writeOrConflict(store, item, clock.now(), () =>
+      buyNow(store, item.id, req.user!.username, clock.now(), item.version)
+    );
+    if (!purchasedItem) {
+      throw new ApiError(409, 'ACTION_NOT_ALLOWED', 'Failed to buy item');
+    }
+
+    res.set('ETag', formatETag(purchasedItem)).json(toPublicItem(purchasedItem, clock.now()));
+  });
+
+  return router;
+}
@@ -0,0 +1,54 @@
+import { Router, Request, Response } from 'express';
+import { Store } from '../../domain/store.js';
+import { Clock, realClock } from '../../domain/time.js';
+import { markNotificationRead, markAllNotificationsRead } from '../../domain/notifications.js';
+import { requireAuth } from '../auth.js';
+import { ApiError } from '../errors.js';
+
+// Most notifications returned by the inbox
+const INBOX_LIMIT = 50;
+
+/**
+ * Create the notification inbox router backed by the given store
+ * Every route needs a session and acts on the user's own inbox
+ */
+export function createNotificationsRouter(store: Store, clock: Clock = realClock): Router {
+  const router = Router();
+
+  /**
+   * GET /api/notifications
+   * List the latest notifications, newest first, with the unread count
+   */
+  router.get('/', requireAuth, (req: Request, res: Response) => {
+    const notifications = store.listNotifications(req.user!.username);
+
+    res.json({
+      notifications: notifications.slice(0, INBOX_LIMIT),
+      unreadCount: notifications.filter(n => n.readAt === null).length,
+    });
+  });
+
+  /**
+   * POST /api/notifications/read
+   * Mark every notification as read
+   */
+  router.post('/read', requireAuth, (req: Request, res: Response) => {
+    markAllNotificationsRead(store, req.user!.username, clock.now());
+    res.status(204).end();
+  });
+
+  /**
+   * POST /api/notifications/:id/read
+   * Mark one notification as read
+   */
+  router.post('/:id/read', requireAuth, (req: Request<{ id: string }>, res: Response) => {
+    const notification = markNotificationRead(store, req.user!.username, req.params.id, clock.now());
+    if (!notification) {
+      throw new ApiError(404, 'NOTIFICATION_NOT_FOUND', 'Notification not found');
+    }
+
+    res.json(notification);
+  });
+
+  return router;
+}
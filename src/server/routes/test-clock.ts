@@ -0,0 +1,54 @@
+import { Router, Request, Response } from 'express';
+import { FakeClock } from '../../domain/time.js';
+import { Schema, optional, isDate, isNonNegativeNumber, validateBody } from '../validation.js';
+
+// Body of a clock change: either an absolute time or an offset
+interface ClockChangeInput {
+  now?: string;
+  advanceMs?: number;
+}
+
+// POST /__test/clock
+const clockChangeSchema: Schema = {
+  fields: {
+    now: optional(isDate()),
+    advanceMs: optional(isNonNegativeNumber()),
+  },
+  check: input =>
+    (input.now === undefined) === (input.advanceMs === undefined) ? 'Provide either now or advanceMs' : null,
+};
+
+/**
+ * Create the dev-only router for moving a fake clock in end-to-end tests
+ * Moving the clock fires any timers that fall due, so auctions start and
+ * close exactly as they would in real time
+ */
+export function createTestClockRouter(clock: FakeClock): Router {
+  const router = Router();
+
+  /**
+   * GET /__test/clock
+   * Get the current fake time
+   */
+  router.get('/clock', (_req: Request, res: Response) => {
+    res.json({ now: clock.now() });
+  });
+
+  /**
+   * POST /__test/clock
+   * Set the fake time ({ now }) or move it forward ({ advanceMs })
+   */
+  router.post('/clock', validateBody(clockChangeSchema, clock), (req: Request, res: Response) => {
+    const input = req.body as ClockChangeInput;
+
+    if (input.now !== undefined) {
+      clock.set(new Date(input.now));
+    } else {
+      clock.advance(input.advanceMs!);
+    }
+
+    res.json({ now: clock.now() });
+  });
+
+  return router;
+}
@@ -0,0 +1,55 @@
+import { Router, Request, Response } from 'express';
+import { Item } from '../../domain/types.js';
+import { Store } from '../../domain/store.js';
+import { Clock, realClock } from '../../domain/time.js';
+import { watchItem, unwatchItem } from '../../domain/notifications.js';
+import { requireAuth } from '../auth.js';
+import { ApiError } from '../errors.js';
+import { toPublicItem } from '../views.js';
+
+/**
+ * Create the watchlist router backed by the given store
+ * Every route needs a session and acts on the user's own watchlist
+ */
+export function createWatchlistRouter(store: Store, clock: Clock = realClock): Router {
+  const router = Router();
+
+  /**
+   * GET /api/watchlist
+   * List the watched items, most recently watched first
+   */
+  router.get('/', requireAuth, (req: Request, res: Response) => {
+    const items = store.listWatches(req.user!.username)
+      .map(entry => store.getItem(entry.itemId))
+      .filter((item): item is Item => item !== undefined);
+
+    res.json(items.map(item => toPublicItem(item, clock.now())));
+  });
+
+  /**
+   * POST /api/watchlist/:itemId
+   * Watch an item; watching it again is a no-op
+   */
+  router.post('/:itemId', requireAuth, (req: Request<{ itemId: string }>, res: Response) => {
+    if (!store.getItem(req.params.itemId)) {
+      throw new ApiError(404, 'ITEM_NOT_FOUND', 'Item not found');
+    }
+
+    const entry = watchItem(store, req.user!.username, req.params.itemId, clock.now());
+    res.status(201).json(entry);
+  });
+
+  /**
+   * DELETE /api/watchlist/:itemId
+   * Stop watching an item
+   */
+  router.delete('/:itemId', requireAuth, (req: Request<{ itemId: string }>, res: Response) => {
+    if (!unwatchItem(store, req.user!.username, req.params.itemId)) {
+      throw new ApiError(404, 'NOT_WATCHING', 'Item is not on your watchlist');
+    }
+
+    res.status(204).end();
+  });
+
+  return router;
+}
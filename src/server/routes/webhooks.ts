@@ -0,0 +1,113 @@
+import { Router, Request, Response } from 'express';
+import { Webhook } from '../../domain/types.js';
+import { Store } from '../../domain/store.js';
+import { Clock, realClock } from '../../domain/time.js';
+import { CreateWebhookInput, createWebhook, validateWebhookUrl, validateWebhookEvents } from '../../domain/webhooks.js';
+import { requireAuth } from '../auth.js';
+import { ApiError, validationError } from '../errors.js';
+import { Schema, required, optional, validateBody } from '../validation.js';
+import { WebhookDispatcher } from '../webhooks.js';
+import { toPublicWebhook } from '../views.js';
+
+// Most deliveries returned by the delivery log
+const DELIVERY_LOG_LIMIT = 50;
+
+// POST /api/webhooks
+const createWebhookSchema: Schema = {
+  fields: {
+    url: required(value => validateWebhookUrl(value)),
+    events: optional(value => validateWebhookEvents(value)),
+  },
+};
+
+/**
+ * Create the webhooks router backed by the given store
+ * Every route needs a session and only sees the user's own webhooks
+ */
+export function createWebhooksRouter(store: Store, dispatcher: WebhookDispatcher, clock: Clock = realClock): Router {
+  const router = Router();
+
+  /**
+   * Get one of the logged-in user's webhooks
+   * Throws WEBHOOK_NOT_FOUND if there is no such webhook
+   */
+  function findWebhook(req: Request<{ id: string }>): Webhook {
+    const webhook = store.getWebhook(req.params.id);
+    if (!webhook || webhook.ownerId !== req.user!.username) {
+      throw new ApiError(404, 'WEBHOOK_NOT_FOUND', 'Webhook not found');
+    }
+    return webhook;
+  }
+
+  /**
+   * POST /api/webhooks
+   * Register a webhook; the response is the only one to include its secret
+   * The URL's host must resolve to public addresses (see WebhookDispatcher)
+   */
+  router.post('/', requireAuth, validateBody(createWebhookSchema, clock), async (req: Request, res: Response) => {
+    const input = req.body as CreateWebhookInput;
+    const hostError = await dispatcher.checkUrl(input.url);
+    if (hostError) {
+      throw validationError([{ field: 'url', message: hostError }]);
+    }
+
+    const webhook = createWebhook(store, req.user!.username, { url: input.url, events: input.events }, clock.now());
+    res.status(201).json(webhook);
+  });
+
+  /**
+   * GET /api/webhooks
+   * List the user's webhooks
+   */
+  router.get('/', requireAuth, (req: Request, res: Response) => {
+    const webhooks = store.listWebhooks().filter(webhook => webhook.ownerId === req.user!.username);
+    res.json(webhooks.map(toPublicWebhook));
+  });
+
+  /**
+   * GET /api/webhooks/:id
+   * Get a webhook
+   */
+  router.get('/:id', requireAuth, (req: Request<{ id: string }>, res: Response) => {
+    res.json(toPublicWebhook(findWebhook(req)));
+  });
+
+  /**
+   * DELETE /api/webhooks/:id
+   * Remove a webhook and its delivery log
+   */
+  router.delete('/:id', requireAuth, (req: Request<{ id: string }>, res: Response) => {
+    store.deleteWebhook(findWebhook(req).id);
+    res.status(204).end();
+  });
+
+  /**
+   * GET /api/webhooks/:id/deliveries
+   * List the latest deliveries, newest first
+   */
+  router.get('/:id/deliveries', requireAuth, (req: Request<{ id: string }>, res: Response) => {
+    res.json(store.listDeliveries(findWebhook(req).id).slice(0, DELIVERY_LOG_LIMIT));
+  });
+
+  /**
+   * POST /api/webhooks/:id/deliveries/:deliveryId/redeliver
+   * Send a delivery's payload again as a new delivery, responding once the
+   * first attempt has finished
+   */
+  router.post(
+    '/:id/deliveries/:deliveryId/redeliver',
+    requireAuth,
+    async (req: Request<{ id: string; deliveryId: string }>, res: Response) => {
+      const webhook = findWebhook(req);
+
+      const original = store.getDelivery(req.params.deliveryId);
+      const delivery = original?.webhookId === webhook.id ? await dispatcher.redeliver(original.id) : undefined;
+      if (!delivery) {
+        throw new ApiError(404, 'DELIVERY_NOT_FOUND', 'Delivery not found');
+      }
+      res.status(201).json(delivery);
+    }
+  );
+
+  return router;
+}
@@ -0,0 +1,241 @@
+/**
+ * Declarative request validation
+ * Routes describe their body or query as a Schema of field checks; the
+ * validateBody/validateQuery middleware runs it and rejects the request with
+ * a VALIDATION_FAILED error listing every invalid field
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { Clock, realClock } from '../domain/time.js';
+import { FieldError, validationError } from './errors.js';
+
+// What a check can see besides the value it is checking
+export interface ValidationContext {
+  input: Record<string, unknown>; // the whole body or query
+  now: Date;
+}
+
+// Check one field's value
+// Returns an error message, or null if the value is valid
+export type Check = (value: unknown, field: string, context: ValidationContext) => string | null;
+
+// Checks for one field, run in order until one fails
+export interface FieldRules {
+  required: boolean | ((input: Record<string, unknown>) => boolean); // a function makes it depend on other fields
+  checks: Check[];
+}
+
+export interface Schema {
+  fields: Record<string, FieldRules>;
+  unknownFieldsMessage?: string; // when set, fields not listed are rejected with this message
+  check?: (input: Record<string, unknown>, context: ValidationContext) => string | null; // rule spanning fields
+}
+
+/**
+ * A field that must be present
+ * A missing field fails with the first check's message, or `<field> is required`
+ */
+export function required(...checks: Check[]): FieldRules {
+  return { required: true, checks };
+}
+
+/**
+ * A field that must be present when the condition holds for the input, and
+ * is otherwise optional
+ */
+export function requiredWhen(condition: (input: Record<string, unknown>) => boolean, ...checks: Check[]): FieldRules {
+  return { required: condition, checks };
+}
+
+/**
+ * A field whose checks only run when it is present
+ */
+export function optional(...checks: Check[]): FieldRules {
+  return { required: false, checks };
+}
+
+/**
+ * Check that a value is a string
+ */
+export function isString(message?: string): Check {
+  return (value, field) => (typeof value === 'string' ? null : message ?? `${field} must be a string`);
+}
+
+/**
+ * Check that a value is a string with at least one character
+ */
+export function isNonEmptyString(message?: string): Check {
+  return (value, field) =>
+    typeof value === 'string' && value.length > 0 ? null : message ?? `${field} must be a non-empty string`;
+}
+
+/**
+ * Check that a value is a string matching a pattern
+ */
+export function matches(pattern: RegExp, message: string): Check {
+  return value => (typeof value === 'string' && pattern.test(value) ? null : message);
+}
+
+/**
+ * Check that a value is a string of at least a given length
+ */
+export function minLength(length: number): Check {
+  return (value, field) =>
+    typeof value === 'string' && value.length >= length ? null : `${field} must be at least ${length} characters`;
+}
+
+/**
+ * Check that a value is a finite number of at least zero
+ */
+export function isNonNegativeNumber(message?: string): Check {
+  return (value, field) =>
+    typeof value === 'number' && Number.isFinite(value) && value >= 0
+      ? null
+      : message ?? `${field} must be a non-negative number`;
+}
+
+/**
+ * Check that a value is a finite number above zero
+ */
+export function isPositiveNumber(message?: string): Check {
+  return (value, field) =>
+    typeof value === 'number' && Number.isFinite(value) && value > 0
+      ? null
+      : message ?? `${field} must be a positive number`;
+}
+
+/**
+ * Check that a value is a whole number above zero
+ */
+export function isPositiveInteger(message?: string): Check {
+  return (value, field) =>
+    typeof value === 'number' && Number.isInteger(value) && value > 0
+      ? null
+      : message ?? `${field} must be a positive integer`;
+}
+
+/**
+ * Check that a value is an ISO date string
+ */
+export function isDate(message?: string): Check {
+  return (value, field) =>
+    typeof value === 'string' && !isNaN(new Date(value).getTime())
+      ? null
+      : message ?? `${field} must be a valid ISO date string`;
+}
+
+/**
+ * Check that a date string is after the current time
+ * Follow isDate, which rejects values that aren't dates
+ */
+export function isFuture(): Check {
+  return (value, field, { now }) => (new Date(value as string) > now ? null : `${field} must be in the future`);
+}
+
+/**
+ * Check that a date string is before another date field
+ * Skipped when the other field is missing or invalid
+ */
+export function isBefore(other: string): Check {
+  return (value, field, { input }) => {
+    const limit = new Date(input[other] as string);
+    return isNaN(limit.getTime()) || new Date(value as string) < limit ? null : `${field} must be before ${other}`;
+  };
+}
+
+/**
+ * Check that a value is one of a fixed set
+ */
+export function oneOf(values: readonly string[]): Check {
+  return (value, field) =>
+    values.includes(value as string) ? null : `${field} must be one of ${values.join(', ')}`;
+}
+
+/**
+ * Check that a query parameter is a whole number between min and max
+ */
+export function isIntegerParam(min: number, max: number = Infinity): Check {
+  return (value, field) => {
+    const valid = typeof value === 'string' && /^\d+$/.test(value) && +value >= min && +value <= max;
+    if (valid) return null;
+    return max === Infinity
+      ? `${field} must be a non-negative integer`
+      : `${field} must be an integer between ${min} and ${max}`;
+  };
+}
+
+/**
+ * Check that a query parameter is a non-negative decimal number
+ */
+export function isNumberParam(): Check {
+  return (value, field) =>
+    typeof value === 'string' && /^\d+(\.\d+)?$/.test(value) ? null : `${field} must be a non-negative number`;
+}
+
+/**
+ * Check one field's rules against the input
+ * Returns an error message, or null if the field is valid
+ */
+function checkField(rules: FieldRules, field: string, context: ValidationContext): string | null {
+  const value = context.input[field];
+  const required = typeof rules.required === 'function' ? rules.required(context.input) : rules.required;
+  if (value === undefined && !required) return null;
+
+  for (const check of rules.checks) {
+    const error = check(value, field, context);
+    if (error) return error;
+  }
+  return value === undefined ? `${field} is required` : null;
+}
+
+/**
+ * Validate input against a schema
+ * Returns every invalid field, in schema order
+ */
+export function validate(schema: Schema, input: Record<string, unknown>, now: Date, location: string): FieldError[] {
+  const errors: FieldError[] = [];
+  const context: ValidationContext = { input, now };
+
+  if (schema.unknownFieldsMessage) {
+    for (const field of Object.keys(input)) {
+      if (!(field in schema.fields)) errors.push({ field, message: schema.unknownFieldsMessage });
+    }
+  }
+
+  const spanningError = schema.check?.(input, context);
+  if (spanningError) {
+    errors.push({ field: location, message: spanningError });
+  }
+
+  for (const [field, rules] of Object.entries(schema.fields)) {
+    const message = checkField(rules, field, context);
+    if (message) errors.push({ field, message });
+  }
+  return errors;
+}
+
+/**
+ * Create middleware that validates the JSON body against a schema
+ */
+export function validateBody(schema: Schema, clock: Clock = realClock): RequestHandler {
+  return (req: Request, _res: Response, next: NextFunction) => {
+    const body: unknown = req.body ?? {};
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      next(validationError([{ field: 'body', message: 'Request body must be a JSON object' }]));
+      return;
+    }
+
+    const errors = validate(schema, body as Record<string, unknown>, clock.now(), 'body');
+    next(errors.length > 0 ? validationError(errors) : undefined);
+  };
+}
+
+/**
+ * Create middleware that validates the query string against a schema
+ */
+export function validateQuery(schema: Schema, clock: Clock = realClock): RequestHandler {
+  return (req: Request, _res: Response, next: NextFunction) => {
+    const errors = validate(schema, req.query as Record<string, unknown>, clock.now(), 'query');
+    next(errors.length > 0 ? validationError(errors) : undefined);
+  };
+}
@@ -0,0 +1,81 @@
+/**
+ * API representations of domain objects
+ */
+
+import { Item, PublicItem, Bid, PublicBid, Webhook, PublicWebhook, User, PublicUser } from '../domain/types.js';
+import { getMinimumBidAt } from '../domain/auctions.js';
+import { isSealedBidHidden } from '../domain/sealed.js';
+import { isLot, getClearingPrice } from '../domain/lots.js';
+import { Money, toMajorUnits } from '../domain/money.js';
+
+/**
+ * Convert an optional amount to a decimal in major units
+ */
+function toOptionalMajorUnits(money: Money | null): number | null {
+  return money === null ? null : toMajorUnits(money);
+}
+
+/**
+ * Convert an item to its public form as of `now`: prices become decimals
+ * alongside its currency, the reserve price is hidden, and the minimum next
+ * bid and a lot's clearing price are added
+ */
+export function toPublicItem(item: Item, now: Date): PublicItem {
+  const { startingPrice, reservePrice, buyNowPrice, currentBid, dutch, allocations, winningBid, ...rest } = item;
+  return {
+    ...rest,
+    currency: startingPrice.currency,
+    startingPrice: toMajorUnits(startingPrice),
+    buyNowPrice: toOptionalMajorUnits(buyNowPrice),
+    currentBid: toOptionalMajorUnits(currentBid),
+    dutch: dutch && {
+      ...dutch,
+      floorPrice: toMajorUnits(dutch.floorPrice),
+      dropAmount: toMajorUnits(dutch.dropAmount),
+    },
+    allocations: allocations.map(allocation => ({ ...allocation, price: toMajorUnits(allocation.price) })),
+    winningBid: toOptionalMajorUnits(winningBid),
+    reserveMet: reservePrice === null || (currentBid !== null && currentBid.amount >= reservePrice.amount),
+    minimumBid: toMajorUnits(getMinimumBidAt(item, now)),
+    clearingPrice: isLot(item) ? toOptionalMajorUnits(getClearingPrice(item)) : null,
+  };
+}
+
+/**
+ * Convert a bid on an item to its public form: a decimal amount alongside
+ * its currency, hidden while the item's bids are sealed
+ */
+export function toPublicBid(bid: Bid, item: Item): PublicBid {
+  return {
+    ...bid,
+    amount: isSealedBidHidden(item) ? null : toMajorUnits(bid.amount),
+    currency: bid.amount.currency,
+  };
+}
+
+/**
+ * Convert an event's data to its public form as of `now`
+ * The item is the snapshot taken when the event was published, so replayed
+ * sealed bids stay hidden
+ */
+export function toPublicEventData(data: { item: Item; bid?: Bid }, now: Date): Record<string, unknown> {
+  const publicData: Record<string, unknown> = { ...data, item: toPublicItem(data.item, now) };
+  if (data.bid) publicData.bid = toPublicBid(data.bid, data.item);
+  return publicData;
+}
+
+/**
+ * Convert a webhook to its public form, dropping the signing secret
+ */
+export function toPublicWebhook(webhook: Webhook): PublicWebhook {
+  const { secret: _secret, ...rest } = webhook;
+  return rest;
+}
+
+/**
+ * Convert a user to its public form, dropping the password hash
+ */
+export function toPublicUser(user: User): PublicUser {
+  const { passwordHash: _passwordHash, ...rest } = user;
+  return rest;
+}
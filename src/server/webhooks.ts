@@ -0,0 +1,219 @@
+/**
+ * Webhook dispatcher: turns domain events into signed HTTP deliveries and
+ * retries failed ones with exponential backoff
+ */
+
+import { lookup } from 'dns/promises';
+import { WebhookDelivery, WebhookEventType } from '../domain/types.js';
+import { Store } from '../domain/store.js';
+import { subscribe, PublishedEvent } from '../domain/events.js';
+import { Clock, realClock } from '../domain/time.js';
+import { WEBHOOK_EVENT_TYPES, DeliveryAttempt, signPayload, recordAttempt, isPrivateAddress } from '../domain/webhooks.js';
+import { toPublicEventData } from './views.js';
+
+// Receivers must answer within this long
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+export interface WebhookDispatcherOptions {
+  allowPrivateHosts?: boolean; // deliver to loopback and private addresses too
+}
+
+export interface WebhookDispatcher {
+  start(): void;
+  stop(): void;
+  /**
+   * Check that deliveries may be sent to a receiver URL
+   * Returns an error message, or null if they may
+   */
+  checkUrl(url: string): Promise<string | null>;
+  /**
+   * Send a delivery's payload again as a new delivery, resolving once its
+   * first attempt has finished
+   * Returns undefined if the delivery or its webhook no longer exists
+   */
+  redeliver(deliveryId: string): Promise<WebhookDelivery | undefined>;
+}
+
+/**
+ * Check whether an event is one webhooks can subscribe to
+ */
+function isWebhookEvent(event: PublishedEvent): event is PublishedEvent & { type: WebhookEventType } {
+  return WEBHOOK_EVENT_TYPES.includes(event.type as WebhookEventType);
+}
+
+/**
+ * Build the JSON body for an event, with its item and bid in their public forms
+ */
+function formatPayload(event: PublishedEvent, sentAt: Date): string {
+  const { id, type, ...data } = event;
+  return JSON.stringify({ id, type, createdAt: sentAt, data: toPublicEventData(data, sentAt) });
+}
+
+/**
+ * Check that a URL's host resolves only to public addresses, so webhooks
+ * can't be used to reach the server's own network
+ * Returns an error message, or null if it does
+ */
+async function checkPublicHost(url: string): Promise<string | null> {
+  const hostname = new URL(url).hostname.replace(/^\[(.*)\]$/, '$1');
+  try {
+    const addresses = await lookup(hostname, { all: true });
+    return addresses.some(({ address }) => isPrivateAddress(address))
+      ? 'url must not point to a loopback, private or link-local address'
+      : null;
+  } catch {
+    return `url host ${hostname} could not be resolved`;
+  }
+}
+
+/**
+ * POST a signed payload to a URL
+ * Any 2xx response counts as delivered
+ */
+async function post(url: string, secret: string, delivery: WebhookDelivery, sentAt: Date): Promise<DeliveryAttempt> {
+  const timestamp = Math.floor(sentAt.getTime() / 1000);
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'countdown-auction-webhooks',
+        'X-Webhook-Delivery': delivery.id,
+        'X-Webhook-Event': delivery.eventType,
+        'X-Webhook-Timestamp': String(timestamp),
+        'X-Webhook-Signature': signPayload(secret, timestamp, delivery.payload),
+      },
+      body: delivery.payload,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      redirect: 'manual',
+    });
+    await response.body?.cancel();
+    return {
+      responseStatus: response.status,
+      error: response.ok ? null : `Receiver responded ${response.status}`,
+    };
+  } catch (error) {
+    return { responseStatus: null, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Create a dispatcher that delivers a store's webhook subscriptions
+ * Pending deliveries are picked up from the store on start, so retries
+ * survive a restart. Receivers on loopback, private or link-local
+ * addresses are refused unless allowPrivateHosts is set
+ */
+export function createWebhookDispatcher(
+  store: Store,
+  clock: Clock = realClock,
+  { allowPrivateHosts = false }: WebhookDispatcherOptions = {}
+): WebhookDispatcher {
+  // Armed retry timers by delivery ID
+  const retries = new Map<string, () => void>();
+  let unsubscribe: (() => void) | null = null;
+
+  function scheduleRetry(delivery: WebhookDelivery): void {
+    retries.get(delivery.id)?.();
+    retries.delete(delivery.id);
+    if (!unsubscribe || delivery.status !== 'pending' || !delivery.nextAttemptAt) return;
+
+    retries.set(delivery.id, clock.setTimer(delivery.nextAttemptAt, () => {
+      retries.delete(delivery.id);
+      attempt(delivery.id).catch(error => console.error('[Webhooks] Delivery failed:', error));
+    }));
+  }
+
+  /**
+   * Make one attempt at a delivery and record how it went
+   */
+  async function attempt(deliveryId: string): Promise<WebhookDelivery | undefined> {
+    const delivery = store.getDelivery(deliveryId);
+    const webhook = delivery && store.getWebhook(delivery.webhookId);
+    if (!delivery || !webhook) return undefined;
+
+    // Check the host again, as it may resolve differently since registration
+    const hostError = await checkUrl(webhook.url);
+    const result = hostError
+      ? { responseStatus: null, error: hostError }
+      : await post(webhook.url, webhook.secret, delivery, clock.now());
+
+    // The webhook may have been deleted while the request was in flight
+    if (!store.getDelivery(deliveryId)) return undefined;
+    const updated = recordAttempt(store, delivery, result, clock.now());
+    scheduleRetry(updated);
+    return updated;
+  }
+
+  function checkUrl(url: string): Promise<string | null> {
+    return allowPrivateHosts ? Promise.resolve(null) : checkPublicHost(url);
+  }
+
+  function dispatch(event: PublishedEvent): void {
+    if (!isWebhookEvent(event)) return;
+
+    const now = clock.now();
+    const payload = formatPayload(event, now);
+    for (const webhook of store.listWebhooks()) {
+      if (!webhook.events.includes(event.type)) continue;
+
+      const delivery = store.insertDelivery({
+        webhookId: webhook.id,
+        eventId: event.id,
+        eventType: event.type,
+        payload,
+        status: 'pending',
+        attempts: 0,
+        responseStatus: null,
+        error: null,
+        createdAt: now,
+        lastAttemptAt: null,
+        nextAttemptAt: now,
+      });
+      attempt(delivery.id).catch(error => console.error('[Webhooks] Delivery failed:', error));
+    }
+  }
+
+  return {
+    start() {
+      if (unsubscribe) return; // Already running
+
+      unsubscribe = subscribe(dispatch);
+      const pending = store.listPendingDeliveries();
+      for (const delivery of pending) {
+        scheduleRetry(delivery);
+      }
+      console.log(`[Webhooks] Started with ${pending.length} pending deliver${pending.length === 1 ? 'y' : 'ies'}`);
+    },
+
+    stop() {
+      if (!unsubscribe) return;
+
+      unsubscribe();
+      unsubscribe = null;
+      for (const cancel of retries.values()) {
+        cancel();
+      }
+      retries.clear();
+    },
+
+    checkUrl,
+
+    async redeliver(deliveryId) {
+      const original = store.getDelivery(deliveryId);
+      if (!original || !store.getWebhook(original.webhookId)) return undefined;
+
+      const now = clock.now();
+      const delivery = store.insertDelivery({
+        ...original,
+        status: 'pending',
+        attempts: 0,
+        responseStatus: null,
+        error: null,
+        createdAt: now,
+        lastAttemptAt: null,
+        nextAttemptAt: now,
+      });
+      return attempt(delivery.id);
+    },
+  };
+}
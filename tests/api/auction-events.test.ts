@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import request from 'supertest';
+import { Express } from 'express';
+import { createApp } from '../../src/server/app.js';
+import { createMemoryStore } from '../../src/domain/store.js';
+import { createFakeClock, FakeClock } from '../../src/domain/time.js';
+import { authHeader } from './helpers.js';
+
+describe('Auction Events API', () => {
+  let app: Express;
+  let clock: FakeClock;
+  let sellerAuth: { Authorization: string };
+  let bidderAuth: { Authorization: string };
+
+  beforeEach(async () => {
+    clock = createFakeClock(new Date('2026-01-20T18:00:00Z'));
+    app = createApp({ store: createMemoryStore(), clock });
+    sellerAuth = await authHeader(app, 'seller');
+    bidderAuth = await authHeader(app, 'bidder');
+  });
+
+  function createEvent(fields: Record<string, unknown> = {}) {
+    return request(app).post('/api/auction-events').set(sellerAuth).send({
+      title: 'Spring Sale',
+      firstLotEndsAt: '2026-01-20T19:00:00Z',
+      staggerSeconds: 60,
+      ...fields,
+    });
+  }
+
+  function addLot(title: string, auth = sellerAuth) {
+    return request(app).post('/api/items').set(auth).send({ title, startingPrice: 10, eventId: '1' });
+  }
+
+  it('creates, lists and reads events', async () => {
+    const created = await createEvent({ startsAt: '2026-01-20T18:30:00Z' });
+    const list = await request(app).get('/api/auction-events');
+    const single = await request(app).get('/api/auction-events/1');
+
+    expect(created.status).toBe(201);
+    expect(created.body).toMatchObject({
+      id: '1',
+      title: 'Spring Sale',
+      description: '',
+      sellerId: 'seller',
+      startsAt: '2026-01-20T18:30:00.000Z',
+      firstLotEndsAt: '2026-01-20T19:00:00.000Z',
+      staggerSeconds: 60,
+      pausedAt: null,
+    });
+    expect(list.body).toEqual([created.body]);
+    expect(single.body).toEqual(created.body);
+  });
+
+  it('validates new events', async () => {
+    const response = await createEvent({ firstLotEndsAt: '2026-01-20T17:00:00Z', staggerSeconds: 1.5 });
+    const missing = await request(app).get('/api/auction-events/9');
+
+    expect(response.status).toBe(400);
+    expect(response.body.details).toEqual([
+      { field: 'firstLotEndsAt', message: 'firstLotEndsAt must be in the future' },
+      { field: 'staggerSeconds', message: 'staggerSeconds must be a positive integer' },
+    ]);
+    expect(missing.status).toBe(404);
+    expect(missing.body.code).toBe('EVENT_NOT_FOUND');
+  });
+
+  it('adds numbered lots that close one after another', async () => {
+    await createEvent({ startsAt: '2026-01-20T18:30:00Z' });
+
+    const first = await addLot('Vase');
+    const second = await addLot('Clock');
+    const lots = await request(app).get('/api/items?event=1&sort=lotNumber&order=desc');
+
+    expect(first.status).toBe(201);
+    expect(first.body).toMatchObject({
+      eventId: '1',
+      lotNumber: 1,
+      status: 'scheduled',
+      startsAt: '2026-01-20T18:30:00.000Z',
+      endsAt: '2026-01-20T19:00:00.000Z',
+    });
+    expect(second.body).toMatchObject({ lotNumber: 2, endsAt: '2026-01-20T19:01:00.000Z' });
+    expect(lots.body.items.map((item: { title: string }) => item.title)).toEqual(['Clock', 'Vase']);
+  });
+
+  it('rejects lots for unknown or other sellers\' events and lot times', async () => {
+    await createEvent();
+
+    const unknown = await request(app).post('/api/items').set(sellerAuth).send({ title: 'Vase', startingPrice: 10, eventId: '9' });
+    const notSeller = await addLot('Vase', bidderAuth);
+    const withTimes = await request(app).post('/api/items').set(sellerAuth).send({
+      title: 'Vase',
+      startingPrice: 10,
+      eventId: '1',
+      endsAt: '2026-01-20T20:00:00Z',
+    });
+
+    expect(unknown.status).toBe(422);
+    expect(unknown.body.code).toBe('UNKNOWN_EVENT');
+    expect(notSeller.status).toBe(403);
+    expect(notSeller.body.code).toBe('NOT_SELLER');
+    expect(withTimes.body.details).toEqual([{ field: 'endsAt', message: 'endsAt is set by the auction event' }]);
+  });
+
+  it('refuses bids while paused and shifts deadlines on resume', async () => {
+    await createEvent();
+    await addLot('Vase');
+    await addLot('Clock');
+
+    const paused = await request(app).post('/api/auction-events/1/pause').set(sellerAuth);
+    const bid = await request(app).post('/api/items/1/bid').set(bidderAuth).send({ amount: 20 });
+    const lot = await addLot('Lamp');
+    clock.set(new Date('2026-01-20T19:30:00Z'));
+    const stillOpen = await request(app).get('/api/items/1');
+    const resumed = await request(app).post('/api/auction-events/1/resume').set(sellerAuth);
+    const lots = await request(app).get('/api/items?event=1&sort=lotNumber');
+
+    expect(paused.body.pausedAt).toBe('2026-01-20T18:00:00.000Z');
+    expect(bid.status).toBe(409);
+    expect(bid.body.code).toBe('AUCTION_PAUSED');
+    expect(lot.body.code).toBe('EVENT_PAUSED');
+    expect(stillOpen.body.status).toBe('paused');
+    expect(resumed.body).toMatchObject({ pausedAt: null, firstLotEndsAt: '2026-01-20T20:30:00.000Z' });
+    expect(lots.body.items.map((item: { status: string; endsAt: string }) => [item.status, item.endsAt])).toEqual([
+      ['active', '2026-01-20T20:30:00.000Z'],
+      ['active', '2026-01-20T20:31:00.000Z'],
+    ]);
+  });
+
+  it('only lets the seller pause an event, once', async () => {
+    await createEvent();
+
+    const notSeller = await request(app).post('/api/auction-events/1/pause').set(bidderAuth);
+    const notPaused = await request(app).post('/api/auction-events/1/resume').set(sellerAuth);
+    await request(app).post('/api/auction-events/1/pause').set(sellerAuth);
+    const again = await request(app).post('/api/auction-events/1/pause').set(sellerAuth);
+
+    expect(notSeller.status).toBe(403);
+    expect(notPaused.body.code).toBe('EVENT_NOT_PAUSED');
+    expect(again.body.code).toBe('EVENT_PAUSED');
+  });
+
+  it('reschedules lots until they get bids', async () => {
+    await createEvent();
+    await addLot('Vase');
+    await addLot('Clock');
+
+    const edited = await request(app)
+      .patch('/api/auction-events/1')
+      .set(sellerAuth)
+      .send({ firstLotEndsAt: '2026-01-20T20:00:00Z', staggerSeconds: 300 });
+    const clockLot = await request(app).get('/api/items/2');
+    await request(app).post('/api/items/1/bid').set(bidderAuth).send({ amount: 20 });
+    const afterBid = await request(app).patch('/api/auction-events/1').set(sellerAuth).send({ staggerSeconds: 60 });
+    const lotEdit = await request(app).patch('/api/items/2').set(sellerAuth).send({ endsAt: '2026-01-20T21:00:00Z' });
+
+    expect(edited.status).toBe(200);
+    expect(clockLot.body.endsAt).toBe('2026-01-20T20:05:00.000Z');
+    expect(afterBid.status).toBe(409);
+    expect(afterBid.body.code).toBe('EVENT_HAS_BIDS');
+    expect(lotEdit.status).toBe(422);
+    expect(lotEdit.body.code).toBe('INVALID_END_TIME');
+  });
+
+  it('deletes events without lots', async () => {
+    await createEvent();
+    await createEvent({ title: 'Empty' });
+    await addLot('Vase');
+
+    const withLots = await request(app).delete('/api/auction-events/1').set(sellerAuth);
+    const empty = await request(app).delete('/api/auction-events/2').set(sellerAuth);
+
+    expect(withLots.status).toBe(409);
+    expect(withLots.body.code).toBe('EVENT_HAS_LOTS');
+    expect(empty.status).toBe(204);
+  });
+});
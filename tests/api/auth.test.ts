@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import request from 'supertest';
+import { Express } from 'express';
+import { createApp } from '../../src/server/app.js';
+import { createMemoryStore } from '../../src/domain/store.js';
+
+describe('Auth API', () => {
+  let app: Express;
+
+  beforeEach(() => {
+    app = createApp({ store: createMemoryStore() });
+  });
+
+  function register(username = 'alice', password = 'correct-horse') {
+    return request(app).post('/api/auth/register').send({ username, password });
+  }
+
+  describe('POST /api/auth/register', () => {
+    it('creates a user and returns a session token', async () => {
+      const response = await register();
+
+      expect(response.status).toBe(201);
+      expect(response.body.user).toMatchObject({ id: '1', username: 'alice' });
+      expect(response.body.user).not.toHaveProperty('passwordHash');
+      expect(response.body.token).toMatch(/^[0-9a-f]{64}$/);
+      expect(new Date(response.body.expiresAt).getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('returns 409 for a taken username', async () => {
+      await register();
+
+      const response = await register('alice', 'another-password');
+
+      expect(response.status).toBe(409);
+      expect(response.body.error).toBe('Username is already taken');
+    });
+
+    it('returns 400 for an invalid username', async () => {
+      const response = await register('a b');
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('username must be 3-32 letters, digits, dashes or underscores');
+    });
+
+    it('returns 400 for a short password', async () => {
+      const response = await register('alice', 'short');
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('password must be at least 8 characters');
+    });
+  });
+
+  describe('POST /api/auth/login', () => {
+    it('returns a new session for valid credentials', async () => {
+      const registered = await register();
+
+      const response = await request(app)
+        .post('/api/auth/login')
+        .send({ username: 'alice', password: 'correct-horse' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.user.username).toBe('alice');
+      expect(response.body.token).not.toBe(registered.body.token);
+    });
+
+    it('returns 401 for a wrong password', async () => {
+      await register();
+
+      const response = await request(app)
+        .post('/api/auth/login')
+        .send({ username: 'alice', password: 'wrong-password' });
+
+      expect(response.status).toBe(401);
+      expect(response.body.error).toBe('Invalid username or password');
+    });
+
+    it('returns 401 for an unknown user', async () => {
+      const response = await request(app)
+        .post('/api/auth/login')
+        .send({ username: 'nobody', password: 'correct-horse' });
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('session', () => {
+    it('identifies the user from a bearer token', async () => {
+      const { body } = await register();
+
+      const response = await request(app).get('/api/auth/me').set('Authorization', `Bearer ${body.token}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.user.username).toBe('alice');
+    });
+
+    it('returns 401 without a valid token', async () => {
+      const response = await request(app).get('/api/auth/me').set('Authorization', 'Bearer not-a-token');
+
+      expect(response.status).toBe(401);
+      expect(response.body.error).toBe('Authentication required');
+    });
+
+    it('ends the session on logout', async () => {
+      const { body } = await register();
+      const authorization = `Bearer ${body.token}`;
+
+      const logoutResponse = await request(app).post('/api/auth/logout').set('Authorization', authorization);
+      const response = await request(app).get('/api/auth/me').set('Authorization', authorization);
+
+      expect(logoutResponse.status).toBe(204);
+      expect(response.status).toBe(401);
+    });
+  });
+});
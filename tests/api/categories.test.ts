@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import request from 'supertest';
+import { Express } from 'express';
+import { createApp } from '../../src/server/app.js';
+import { createMemoryStore } from '../../src/domain/store.js';
+import { authHeader } from './helpers.js';
+
+describe('Categories API', () => {
+  let app: Express;
+  let auth: { Authorization: string };
+
+  beforeEach(async () => {
+    app = createApp({ store: createMemoryStore() });
+    auth = await authHeader(app, 'curator');
+  });
+
+  function addCategory(name: string) {
+    return request(app).post('/api/categories').set(auth).send({ name });
+  }
+
+  it('creates and lists categories by name', async () => {
+    const created = await addCategory('Watches');
+    await addCategory('Art');
+
+    const response = await request(app).get('/api/categories');
+
+    expect(created.status).toBe(201);
+    expect(created.body).toMatchObject({ id: '1', name: 'Watches', creatorId: 'curator' });
+    expect(response.body.map((category: { name: string }) => category.name)).toEqual(['Art', 'Watches']);
+  });
+
+  it('requires a session to change categories', async () => {
+    const response = await request(app).post('/api/categories').send({ name: 'Art' });
+
+    expect(response.status).toBe(401);
+  });
+
+  it('returns 400 for a blank name', async () => {
+    const response = await addCategory('   ');
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('name must be 1-50 characters');
+  });
+
+  it('returns 409 for a duplicate name', async () => {
+    await addCategory('Art');
+
+    const response = await addCategory('art');
+
+    expect(response.status).toBe(409);
+    expect(response.body.error).toBe('Category already exists');
+  });
+
+  it('renames a category', async () => {
+    await addCategory('Wathces');
+
+    const response = await request(app).patch('/api/categories/1').set(auth).send({ name: 'Watches' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.name).toBe('Watches');
+  });
+
+  it('only lets the creator rename or delete a category', async () => {
+    await addCategory('Watches');
+    const otherAuth = await authHeader(app, 'someone');
+
+    const rename = await request(app).patch('/api/categories/1').set(otherAuth).send({ name: 'Clocks' });
+    const remove = await request(app).delete('/api/categories/1').set(otherAuth);
+    const list = await request(app).get('/api/categories');
+
+    expect(rename.status).toBe(403);
+    expect(rename.body.code).toBe('NOT_CREATOR');
+    expect(remove.status).toBe(403);
+    expect(list.body.map((category: { name: string }) => category.name)).toEqual(['Watches']);
+  });
+
+  it('returns 404 for unknown categories', async () => {
+    const rename = await request(app).patch('/api/categories/99').set(auth).send({ name: 'Art' });
+    const remove = await request(app).delete('/api/categories/99').set(auth);
+
+    expect(rename.status).toBe(404);
+    expect(remove.status).toBe(404);
+    expect(remove.body.error).toBe('Category not found');
+  });
+
+  it('deletes unused categories only', async () => {
+    await addCategory('Watches');
+    await addCategory('Art');
+    await request(app).post('/api/items').set(auth).send({
+      title: 'Vintage Watch',
+      description: 'Swiss',
+      startingPrice: 100,
+      endsAt: new Date(Date.now() + 3600000).toISOString(),
+      categoryId: '1',
+    });
+
+    const inUse = await request(app).delete('/api/categories/1').set(auth);
+    const unused = await request(app).delete('/api/categories/2').set(auth);
+
+    expect(inUse.status).toBe(409);
+    expect(inUse.body.error).toBe('Category is in use');
+    expect(unused.status).toBe(204);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import request from 'supertest';
+import { Express } from 'express';
+import { createApp } from '../../src/server/app.js';
+import { Store, createMemoryStore } from '../../src/domain/store.js';
+import { authHeader } from './helpers.js';
+
+describe('API errors', () => {
+  let store: Store;
+  let app: Express;
+
+  beforeEach(() => {
+    store = createMemoryStore();
+    app = createApp({ store });
+  });
+
+  it('lists every invalid field with a VALIDATION_FAILED code', async () => {
+    const response = await request(app).post('/api/items').set(await authHeader(app, 'seller')).send({
+      startingPrice: -1,
+      endsAt: 'tomorrow',
+      tags: 'vintage',
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.body).toEqual({
+      error: 'title is required',
+      code: 'VALIDATION_FAILED',
+      details: [
+        { field: 'title', message: 'title is required' },
+        { field: 'endsAt', message: 'endsAt must be a valid ISO date string' },
+        { field: 'startingPrice', message: 'startingPrice must be a non-negative number' },
+        { field: 'tags', message: 'tags must be an array of strings' },
+      ],
+    });
+  });
+
+  it('validates query strings', async () => {
+    const response = await request(app).get('/api/items?limit=0&order=sideways');
+
+    expect(response.status).toBe(400);
+    expect(response.body.details).toEqual([
+      { field: 'order', message: 'order must be one of asc, desc' },
+      { field: 'limit', message: 'limit must be an integer between 1 and 100' },
+    ]);
+  });
+
+  it('returns MALFORMED_JSON for unparseable bodies', async () => {
+    const response = await request(app)
+      .post('/api/auth/login')
+      .set('Content-Type', 'application/json')
+      .send('{"username":');
+
+    expect(response.status).toBe(400);
+    expect(response.body).toEqual({ error: 'Request body must be valid JSON', code: 'MALFORMED_JSON' });
+  });
+
+  it('returns codes for missing sessions and resources', async () => {
+    const unauthenticated = await request(app).post('/api/items/1/bid').send({ amount: 100 });
+    const missing = await request(app).get('/api/items/999');
+    const unknownRoute = await request(app).get('/api/nothing-here');
+
+    expect(unauthenticated.status).toBe(401);
+    expect(unauthenticated.body.code).toBe('AUTH_REQUIRED');
+    expect(missing.status).toBe(404);
+    expect(missing.body.code).toBe('ITEM_NOT_FOUND');
+    expect(unknownRoute.status).toBe(404);
+    expect(unknownRoute.body).toEqual({ error: 'No route for GET /api/nothing-here', code: 'NOT_FOUND' });
+  });
+
+  it('hides unexpected errors behind INTERNAL_ERROR', async () => {
+    vi.spyOn(store, 'listItems').mockImplementation(() => {
+      throw new Error('disk on fire');
+    });
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const response = await request(app).get('/api/items');
+
+    expect(response.status).toBe(500);
+    expect(response.body).toEqual({ error: 'Internal server error', code: 'INTERNAL_ERROR' });
+    expect(consoleError).toHaveBeenCalled();
+    vi.restoreAllMocks();
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { createApp } from '../../src/server/app.js';
+import { createMemoryStore } from '../../src/domain/store.js';
+import { createItem, placeBid, closeItem } from '../../src/domain/auctions.js';
+import { clearEvents, getLatestStreamId, getStreamId, publish } from '../../src/domain/events.js';
+import { PublicItem, PublicBid } from '../../src/domain/types.js';
+
+interface StreamedEvent {
+  id: string;
+  event: string;
+  data: { item: PublicItem; bid?: PublicBid };
+}
+
+describe('Events API', () => {
+  const store = createMemoryStore();
+  const app = createApp({ store });
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    clearEvents();
+  });
+
+  /**
+   * Open the event stream, run an action once connected, and collect events
+   * until the expected number has arrived
+   */
+  async function collectEvents(
+    count: number,
+    options: { headers?: Record<string, string>; action?: () => void } = {}
+  ): Promise<{ contentType: string | null; events: StreamedEvent[] }> {
+    const controller = new AbortController();
+    const response = await fetch(`${baseUrl}/api/events`, {
+      headers: options.headers,
+      signal: controller.signal,
+    });
+    options.action?.();
+
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    const events: StreamedEvent[] = [];
+
+    while (events.length < count) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary: number;
+      while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+        const block = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+
+        const fields = Object.fromEntries(
+          block.split('\n').map(line => {
+            const separator = line.indexOf(': ');
+            return [line.slice(0, separator), line.slice(separator + 2)];
+          })
+        );
+        if (fields.event) {
+          events.push({ id: fields.id, event: fields.event, data: JSON.parse(fields.data) });
+        }
+      }
+    }
+
+    controller.abort();
+    return { contentType: response.headers.get('content-type'), events };
+  }
+
+  function createTestItem() {
+    return createItem(store, {
+      title: 'Streamed Item',
+      description: 'Watched live',
+      startingPrice: 100,
+      endsAt: new Date(Date.now() + 3600000).toISOString(),
+    }, 'seller');
+  }
+
+  it('streams item.created, bid.placed and item.closed events', async () => {
+    const { contentType, events } = await collectEvents(3, {
+      action: () => {
+        const item = createTestItem();
+        placeBid(store, item.id, { amount: 150, bidderId: 'user1' }, new Date());
+        closeItem(store, item.id, new Date());
+      },
+    });
+
+    expect(contentType).toMatch(/text\/event-stream/);
+    expect(events.map(e => e.event)).toEqual(['item.created', 'bid.placed', 'item.closed']);
+    expect(events.map(e => e.id)).toEqual([getStreamId(1), getStreamId(2), getStreamId(3)]);
+    expect(events[1].data.item.currentBid).toBe(150);
+    expect(events[1].data.bid).toMatchObject({ amount: 150, bidderId: 'user1' });
+    expect(events[2].data.item.status).toBe('closed');
+  });
+
+  it('snapshots the item at the time of each event', async () => {
+    const { events } = await collectEvents(2, {
+      action: () => {
+        const item = createTestItem();
+        placeBid(store, item.id, { amount: 150, bidderId: 'user1' }, new Date());
+      },
+    });
+
+    expect(events[0].data.item.currentBid).toBeNull();
+    expect(events[1].data.item.currentBid).toBe(150);
+  });
+
+  it('replays events after Last-Event-ID', async () => {
+    const item = createTestItem();
+    placeBid(store, item.id, { amount: 150, bidderId: 'user1' }, new Date());
+    placeBid(store, item.id, { amount: 200, bidderId: 'user2' }, new Date());
+
+    const { events } = await collectEvents(2, { headers: { 'Last-Event-ID': getStreamId(1) } });
+
+    expect(events.map(e => e.id)).toEqual([getStreamId(2), getStreamId(3)]);
+    expect(events.map(e => e.data.bid?.amount)).toEqual([150, 200]);
+  });
+
+  it('sends reset for an ID from before a restart', async () => {
+    createTestItem();
+
+    const { events } = await collectEvents(1, { headers: { 'Last-Event-ID': 'stale-500' } });
+
+    expect(events).toEqual([{ id: getLatestStreamId(), event: 'reset', data: {} }]);
+  });
+
+  it('sends reset when the missed events have left the replay log', async () => {
+    const item = createTestItem();
+    for (let i = 0; i < 1001; i++) {
+      publish({ type: 'item.updated', item });
+    }
+
+    const { events } = await collectEvents(1, { headers: { 'Last-Event-ID': getStreamId(1) } });
+
+    expect(events).toEqual([{ id: getStreamId(1002), event: 'reset', data: {} }]);
+  });
+
+  it('hides sealed bid amounts', async () => {
+    const { events } = await collectEvents(2, {
+      action: () => {
+        const item = createItem(store, {
+          title: 'Sealed Item',
+          description: 'Bids hidden until close',
+          startingPrice: 100,
+          endsAt: new Date(Date.now() + 3600000).toISOString(),
+          auctionType: 'sealed_first_price',
+        }, 'seller');
+        placeBid(store, item.id, { amount: 150, bidderId: 'user1' }, new Date());
+      },
+    });
+
+    expect(events[1].event).toBe('bid.placed');
+    expect(events[1].data.bid).toMatchObject({ amount: null, bidderId: 'user1' });
+    expect(events[1].data.item.currentBid).toBeNull();
+  });
+});
@@ -1,6 +1,9 @@
 import { describe, it, expect } from 'vitest';
 import request from 'supertest';
-import app from '../../src/server/app.js';
+import { createApp } from '../../src/server/app.js';
+import { createMemoryStore } from '../../src/domain/store.js';
+
+const app = createApp({ store: createMemoryStore() });
 
 describe('API Integration Tests', () => {
   describe('GET /health', () => {
@@ -0,0 +1,23 @@
+import request from 'supertest';
+import { Express } from 'express';
+
+// Session tokens per app, so each user registers once per app instance
+const tokens = new WeakMap<Express, Map<string, string>>();
+
+/**
+ * Get an Authorization header for a user, registering them on first use
+ */
+export async function authHeader(app: Express, username: string): Promise<{ Authorization: string }> {
+  const appTokens = tokens.get(app) ?? new Map<string, string>();
+  tokens.set(app, appTokens);
+
+  let token = appTokens.get(username);
+  if (!token) {
+    const response = await request(app)
+      .post('/api/auth/register')
+      .send({ username, password: `${username}-password` });
+    token = response.body.token as string;
+    appTokens.set(username, token);
+  }
+  return { Authorization: `Bearer ${token}` };
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from 'vitest';
+import request from 'supertest';
+import { Express } from 'express';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { createApp } from '../../src/server/app.js';
+import { createMemoryStore } from '../../src/domain/store.js';
+import { MAX_IMAGE_BYTES } from '../../src/server/images.js';
+import { authHeader } from './helpers.js';
+
+describe('Item Images API', () => {
+  let app: Express;
+  let uploadsDir: string;
+  let auth: { Authorization: string };
+  let png: Buffer;
+
+  beforeAll(async () => {
+    png = await sharp({
+      create: { width: 800, height: 600, channels: 3, background: { r: 200, g: 80, b: 40 } },
+    }).png().toBuffer();
+  });
+
+  beforeEach(async () => {
+    uploadsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'auction-uploads-'));
+    app = createApp({ store: createMemoryStore(), uploadsDir });
+    auth = await authHeader(app, 'seller');
+
+    await request(app).post('/api/items').set(auth).send({
+      title: 'Brass Lamp',
+      description: 'Photographed',
+      startingPrice: 100,
+      endsAt: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(uploadsDir, { recursive: true, force: true });
+  });
+
+  function upload(file: Buffer, headers: Record<string, string> = auth) {
+    return request(app).post('/api/items/1/images').set(headers).attach('image', file, 'photo.png');
+  }
+
+  it('stores the image with a thumbnail and adds it to the item', async () => {
+    const response = await upload(png);
+
+    expect(response.status).toBe(201);
+    expect(response.body.images).toHaveLength(1);
+    const [image] = response.body.images;
+    expect(image).toMatchObject({ width: 800, height: 600 });
+    expect(image.url).toMatch(/^\/uploads\/[\w-]+\.png$/);
+
+    const thumbnail = await sharp(path.join(uploadsDir, path.basename(image.thumbnailUrl))).metadata();
+    expect(thumbnail).toMatchObject({ format: 'webp', width: 320, height: 240 });
+  });
+
+  it('serves uploaded files', async () => {
+    const { body } = await upload(png);
+
+    const response = await request(app).get(body.images[0].url);
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toBe('image/png');
+  });
+
+  it('returns 403 for anyone but the seller', async () => {
+    const response = await upload(png, await authHeader(app, 'bidder'));
+
+    expect(response.status).toBe(403);
+  });
+
+  it('returns 400 without an image', async () => {
+    const response = await request(app).post('/api/items/1/images').set(auth).field('caption', 'none');
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('image is required');
+  });
+
+  it('returns 422 for files that are not images', async () => {
+    const response = await upload(Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"></svg>'));
+
+    expect(response.status).toBe(422);
+    expect(response.body.code).toBe('UNSUPPORTED_IMAGE');
+    expect(response.body.error).toBe('image must be a JPEG, PNG, WebP or GIF');
+    expect(fs.readdirSync(uploadsDir)).toEqual([]);
+  });
+
+  it('returns 413 for files over the size limit', async () => {
+    const response = await upload(Buffer.alloc(MAX_IMAGE_BYTES + 1));
+
+    expect(response.status).toBe(413);
+  });
+
+  it('returns 409 once the item is cancelled', async () => {
+    await request(app).post('/api/items/1/cancel').set(auth);
+
+    const response = await upload(png);
+
+    expect(response.status).toBe(409);
+    expect(response.body.code).toBe('AUCTION_CANCELLED');
+    expect(response.body.error).toBe('Auction has been cancelled');
+  });
+});
@@ -1,19 +1,23 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach } from 'vitest';
 import request from 'supertest';
-import app from '../../src/server/app.js';
-import { clearItems } from '../../src/domain/store.js';
-import { setClock, resetClock } from '../../src/server/routes/items.js';
-import { createFakeClock } from '../../src/domain/time.js';
+import { Express } from 'express';
+import { createApp } from '../../src/server/app.js';
+import { createMemoryStore } from '../../src/domain/store.js';
+import { VersionConflictError } from '../../src/domain/errors.js';
+import { createFakeClock, FakeClock } from '../../src/domain/time.js';
+import { authHeader } from './helpers.js';
 
 describe('Items API', () => {
-  // Clear store and reset clock before each test
-  beforeEach(() => {
-    clearItems();
-    resetClock();
-  });
-
-  afterEach(() => {
-    resetClock();
+  let app: Express;
+  let clock: FakeClock;
+  let sellerAuth: { Authorization: string };
+
+  // Fresh store, a fake clock at the current time and a logged-in seller
+  // before each test
+  beforeEach(async () => {
+    clock = createFakeClock(new Date());
+    app = createApp({ store: createMemoryStore(), clock });
+    sellerAuth = await authHeader(app, 'seller');
   });
 
   describe('POST /api/items', () => {
@@ -22,6 +26,7 @@ describe('Items API', () => {
 
       const response = await request(app)
         .post('/api/items')
+        .set(sellerAuth)
         .send({
           title: 'Test Item',
           description: 'A test auction item',
@@ -36,14 +41,69 @@ describe('Items API', () => {
         description: 'A test auction item',
         startingPrice: 100,
         status: 'active',
+        sellerId: 'seller',
       });
       expect(response.body.endsAt).toBeDefined();
       expect(response.body.createdAt).toBeDefined();
     });
 
+    it('stores a category and normalized tags', async () => {
+      const { body: category } = await request(app).post('/api/categories').set(sellerAuth).send({ name: 'Watches' });
+
+      const response = await request(app).post('/api/items').set(sellerAuth).send({
+        title: 'Tagged Item',
+        description: 'Has a category',
+        startingPrice: 100,
+        endsAt: new Date(Date.now() + 3600000).toISOString(),
+        categoryId: category.id,
+        tags: ['Vintage', ' swiss ', 'vintage'],
+      });
+
+      expect(response.status).toBe(201);
+      expect(response.body).toMatchObject({ categoryId: category.id, tags: ['vintage', 'swiss'] });
+    });
+
+    it('rejects an unknown category with 422 and invalid tags with 400', async () => {
+      const base = {
+        title: 'Tagged Item',
+        description: 'Bad metadata',
+        startingPrice: 100,
+        endsAt: new Date(Date.now() + 3600000).toISOString(),
+      };
+
+      const unknownCategory = await request(app).post('/api/items').set(sellerAuth).send({ ...base, categoryId: '99' });
+      const badTags = await request(app).post('/api/items').set(sellerAuth).send({ ...base, tags: ['no spaces'] });
+
+      expect(unknownCategory.status).toBe(422);
+      expect(unknownCategory.body).toMatchObject({
+        code: 'UNKNOWN_CATEGORY',
+        error: 'categoryId must match an existing category',
+      });
+      expect(badTags.status).toBe(400);
+      expect(badTags.body).toMatchObject({
+        code: 'VALIDATION_FAILED',
+        error: 'tags must be 1-30 letters, digits or dashes',
+        details: [{ field: 'tags', message: 'tags must be 1-30 letters, digits or dashes' }],
+      });
+    });
+
+    it('returns 401 without a session', async () => {
+      const response = await request(app)
+        .post('/api/items')
+        .send({
+          title: 'Anonymous Item',
+          description: 'No seller',
+          startingPrice: 100,
+          endsAt: new Date(Date.now() + 3600000).toISOString(),
+        });
+
+      expect(response.status).toBe(401);
+    });
+
     it('returns 400 if title is missing', async () => {
       const response = await request(app)
         .post('/api/items')
+        .set(sellerAuth)
         .send({
           startingPrice: 100,
           endsAt: new Date(Date.now() + 3600000).toISOString(),
@@ -56,6 +116,7 @@ describe('Items API', () => {
     it('returns 400 if endsAt is missing', async () => {
       const response = await request(app)
         .post('/api/items')
+        .set(sellerAuth)
         .send({
           title: 'Test',
           startingPrice: 100,
@@ -68,6 +129,7 @@ describe('Items API', () => {
     it('returns 400 if startingPrice is invalid', async () => {
       const response = await request(app)
         .post('/api/items')
+        .set(sellerAuth)
         .send({
           title: 'Test',
           startingPrice: -50,
@@ -83,6 +145,7 @@ describe('Items API', () => {
 
       const response = await request(app)
         .post('/api/items')
+        .set(sellerAuth)
         .send({
           title: 'Test',
           startingPrice: 100,
@@ -95,24 +158,24 @@ describe('Items API', () => {
   });
 
   describe('GET /api/items', () => {
-    it('returns empty array when no items exist', async () => {
+    it('returns an empty page when no items exist', async () => {
       const response = await request(app).get('/api/items');
 
       expect(response.status).toBe(200);
-      expect(response.body).toEqual([]);
+      expect(response.body).toEqual({ items: [], nextCursor: null });
     });
 
     it('returns all items', async () => {
       const futureDate = new Date(Date.now() + 3600000).toISOString();
 
       // Create two items
-      await request(app).post('/api/items').send({
+      await request(app).post('/api/items').set(sellerAuth).send({
         title: 'Item 1',
         description: 'First item',
         startingPrice: 50,
         endsAt: futureDate,
       });
-      await request(app).post('/api/items').send({
+      await request(app).post('/api/items').set(sellerAuth).send({
         title: 'Item 2',
         description: 'Second item',
         startingPrice: 75,
@@ -122,9 +185,145 @@ describe('Items API', () => {
       const response = await request(app).get('/api/items');
 
       expect(response.status).toBe(200);
-      expect(response.body).toHaveLength(2);
-      expect(response.body[0].title).toBe('Item 1');
-      expect(response.body[1].title).toBe('Item 2');
+      expect(response.body.items).toHaveLength(2);
+      expect(response.body.items[0].title).toBe('Item 1');
+      expect(response.body.items[1].title).toBe('Item 2');
+      expect(response.body.nextCursor).toBeNull();
+    });
+  });
+
+  describe('Searching items', () => {
+    beforeEach(async () => {
+      clock.set(new Date('2026-01-20T10:00:00Z'));
+      const listings = [
+        { title: 'Vintage Watch', description: 'Swiss automatic', startingPrice: 300, endsAt: '2026-01-20T14:00:00Z' },
+        { title: 'Pocket Watch', description: 'Silver, hand wound', startingPrice: 80, endsAt: '2026-01-20T12:00:00Z' },
+        { title: 'Oil Painting', description: 'Landscape in a vintage frame', startingPrice: 500, endsAt: '2026-01-20T13:00:00Z' },
+        { title: 'Desk Lamp', description: 'Brass', startingPrice: 40, endsAt: '2026-01-20T11:00:00Z' },
+      ];
+      for (const listing of listings) {
+        await request(app).post('/api/items').set(sellerAuth).send(listing);
+      }
+    });
+
+    function titles(response: request.Response): string[] {
+      return response.body.items.map((item: { title: string }) => item.title);
+    }
+
+    it('searches title and description for every word', async () => {
+      const response = await request(app).get('/api/items').query({ q: 'VINTAGE watch' });
+
+      expect(titles(response)).toEqual(['Vintage Watch']);
+    });
+
+    it('filters by status', async () => {
+      await request(app).post('/api/items/4/cancel').set(sellerAuth);
+
+      const active = await request(app).get('/api/items').query({ status: 'active' });
+      const cancelled = await request(app).get('/api/items').query({ status: 'closed,cancelled' });
+
+      expect(titles(active)).toEqual(['Vintage Watch', 'Pocket Watch', 'Oil Painting']);
+      expect(titles(cancelled)).toEqual(['Desk Lamp']);
+    });
+
+    it('filters by current price', async () => {
+      await request(app).post('/api/items/2/bid').set(await authHeader(app, 'user1')).send({ amount: 150 });
+
+      const response = await request(app).get('/api/items').query({ currency: 'USD', minPrice: '100', maxPrice: '300' });
+
+      expect(titles(response)).toEqual(['Vintage Watch', 'Pocket Watch']);
+    });
+
+    it('filters by end time', async () => {
+      const response = await request(app)
+        .get('/api/items')
+        .query({ endingAfter: '2026-01-20T11:00:00Z', endingBefore: '2026-01-20T14:00:00Z' });
+
+      expect(titles(response)).toEqual(['Pocket Watch', 'Oil Painting']);
+    });
+
+    it('sorts by end time, price or bid count', async () => {
+      await request(app).post('/api/items/3/bid').set(await authHeader(app, 'user1')).send({ amount: 600 });
+
+      const byEnd = await request(app).get('/api/items').query({ sort: 'endsAt' });
+      const byPrice = await request(app).get('/api/items').query({ currency: 'USD', sort: 'price', order: 'desc' });
+      const byBids = await request(app).get('/api/items').query({ sort: 'bidCount', order: 'desc' });
+
+      expect(titles(byEnd)).toEqual(['Desk Lamp', 'Pocket Watch', 'Oil Painting', 'Vintage Watch']);
+      expect(titles(byPrice)).toEqual(['Oil Painting', 'Vintage Watch', 'Pocket Watch', 'Desk Lamp']);
+      expect(titles(byBids)[0]).toBe('Oil Painting');
+    });
+
+    it('pages with a cursor', async () => {
+      const first = await request(app).get('/api/items').query({ currency: 'USD', sort: 'price', limit: '3' });
+      const second = await request(app)
+        .get('/api/items')
+        .query({ currency: 'USD', sort: 'price', limit: '3', cursor: first.body.nextCursor });
+
+      expect(titles(first)).toEqual(['Desk Lamp', 'Pocket Watch', 'Vintage Watch']);
+      expect(first.body.nextCursor).toEqual(expect.any(String));
+      expect(titles(second)).toEqual(['Oil Painting']);
+      expect(second.body.nextCursor).toBeNull();
+    });
+
+    it('keeps later pages stable when items are added', async () => {
+      const first = await request(app).get('/api/items').query({ sort: 'endsAt', limit: '2' });
+      await request(app).post('/api/items').set(sellerAuth).send({
+        title: 'Early Item',
+        description: 'Ends before the cursor',
+        startingPrice: 10,
+        endsAt: '2026-01-20T10:30:00Z',
+      });
+
+      const second = await request(app)
+        .get('/api/items')
+        .query({ sort: 'endsAt', limit: '2', cursor: first.body.nextCursor });
+
+      expect(titles(second)).toEqual(['Oil Painting', 'Vintage Watch']);
+    });
+
+    it('returns 400 for invalid parameters', async () => {
+      const badStatus = await request(app).get('/api/items').query({ status: 'open' });
+      const badSort = await request(app).get('/api/items').query({ sort: 'title' });
+      const badPrice = await request(app).get('/api/items').query({ currency: 'USD', minPrice: '-5' });
+      const badLimit = await request(app).get('/api/items').query({ limit: '0' });
+      const badCursor = await request(app).get('/api/items').query({ cursor: 'not-a-cursor' });
+
+      expect(badStatus.status).toBe(400);
+      expect(badStatus.body.error).toBe('status must be a comma-separated list of scheduled, active, paused, closed, cancelled');
+      expect(badSort.body.error).toBe('sort must be one of endsAt, price, bidCount, createdAt, lotNumber');
+      expect(badPrice.body.error).toBe('minPrice must be a non-negative number');
+      expect(badLimit.body.error).toBe('limit must be an integer between 1 and 100');
+      expect(badCursor.body.error).toBe('cursor is invalid');
+    });
+
+    it('filters by category and tag', async () => {
+      const { body: category } = await request(app).post('/api/categories').set(sellerAuth).send({ name: 'Clocks' });
+      await request(app).post('/api/items').set(sellerAuth).send({
+        title: 'Mantel Clock',
+        description: 'Chimes hourly',
+        startingPrice: 120,
+        endsAt: '2026-01-20T15:00:00Z',
+        categoryId: category.id,
+        tags: ['Vintage', 'brass'],
+      });
+
+      const byCategory = await request(app).get('/api/items').query({ category: category.id });
+      const byTag = await request(app).get('/api/items').query({ tag: 'VINTAGE' });
+
+      expect(titles(byCategory)).toEqual(['Mantel Clock']);
+      expect(titles(byTag)).toEqual(['Mantel Clock']);
+    });
+
+    it('returns 400 for a cursor from a different sort', async () => {
+      const first = await request(app).get('/api/items').query({ currency: 'USD', sort: 'price', limit: '1' });
+
+      const response = await request(app)
+        .get('/api/items')
+        .query({ sort: 'endsAt', limit: '1', cursor: first.body.nextCursor });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('cursor does not match sort and order');
     });
   });
 
@@ -133,7 +332,7 @@ describe('Items API', () => {
       const futureDate = new Date(Date.now() + 3600000).toISOString();
 
       // Create an item
-      const createResponse = await request(app).post('/api/items').send({
+      const createResponse = await request(app).post('/api/items').set(sellerAuth).send({
         title: 'Test Item',
         description: 'Description',
         startingPrice: 100,
@@ -162,9 +361,9 @@ describe('Items API', () => {
       const endsAt = new Date('2026-01-20T12:00:00Z');
 
       // Set clock to before endsAt
-      setClock(createFakeClock(new Date('2026-01-20T11:00:00Z')));
+      clock.set(new Date('2026-01-20T11:00:00Z'));
 
-      const createResponse = await request(app).post('/api/items').send({
+      const createResponse = await request(app).post('/api/items').set(sellerAuth).send({
         title: 'Expiring Item',
         description: 'Will expire',
         startingPrice: 100,
@@ -174,7 +373,7 @@ describe('Items API', () => {
       expect(createResponse.body.status).toBe('active');
 
       // Move clock past endsAt
-      setClock(createFakeClock(new Date('2026-01-20T13:00:00Z')));
+      clock.set(new Date('2026-01-20T13:00:00Z'));
 
       // Fetch item - should now be closed
       const response = await request(app).get(`/api/items/${createResponse.body.id}`);
@@ -187,16 +386,16 @@ describe('Items API', () => {
       const endsAt = new Date('2026-01-20T12:00:00Z');
 
       // Set clock to before endsAt
-      setClock(createFakeClock(new Date('2026-01-20T11:00:00Z')));
+      clock.set(new Date('2026-01-20T11:00:00Z'));
 
       // Create two items
-      await request(app).post('/api/items').send({
+      await request(app).post('/api/items').set(sellerAuth).send({
         title: 'Item 1',
         description: 'First',
         startingPrice: 50,
         endsAt: endsAt.toISOString(),
       });
-      await request(app).post('/api/items').send({
+      await request(app).post('/api/items').set(sellerAuth).send({
         title: 'Item 2',
         description: 'Second',
         startingPrice: 75,
@@ -204,24 +403,52 @@ describe('Items API', () => {
       });
 
       // Move clock past endsAt
-      setClock(createFakeClock(new Date('2026-01-20T13:00:00Z')));
+      clock.set(new Date('2026-01-20T13:00:00Z'));
 
       // Fetch all items - both should be closed
       const response = await request(app).get('/api/items');
 
       expect(response.status).toBe(200);
-      expect(response.body).toHaveLength(2);
-      expect(response.body[0].status).toBe('closed');
-      expect(response.body[1].status).toBe('closed');
+      expect(response.body.items).toHaveLength(2);
+      expect(response.body.items[0].status).toBe('closed');
+      expect(response.body.items[1].status).toBe('closed');
+    });
+
+    it('records the winner when an item closes on fetch', async () => {
+      clock.set(new Date('2026-01-20T11:00:00Z'));
+
+      const createResponse = await request(app).post('/api/items').set(sellerAuth).send({
+        title: 'Winner Item',
+        description: 'Will be won',
+        startingPrice: 100,
+        endsAt: '2026-01-20T12:00:00Z',
+      });
+
+      await request(app)
+        .post(`/api/items/${createResponse.body.id}/bid`)
+        .set(await authHeader(app, 'user1'))
+        .send({ amount: 150 });
+
+      clock.set(new Date('2026-01-20T13:00:00Z'));
+
+      const response = await request(app).get(`/api/items/${createResponse.body.id}`);
+
+      expect(response.body).toMatchObject({
+        status: 'closed',
+        outcome: 'sold',
+        winnerId: 'user1',
+        winningBid: 150,
+        closedAt: '2026-01-20T13:00:00.000Z',
+      });
     });
 
     it('keeps item active if not yet expired', async () => {
       const endsAt = new Date('2026-01-20T12:00:00Z');
 
       // Set clock to before endsAt
-      setClock(createFakeClock(new Date('2026-01-20T11:00:00Z')));
+      clock.set(new Date('2026-01-20T11:00:00Z'));
 
-      const createResponse = await request(app).post('/api/items').send({
+      const createResponse = await request(app).post('/api/items').set(sellerAuth).send({
         title: 'Active Item',
         description: 'Still active',
         startingPrice: 100,
@@ -239,9 +466,9 @@ describe('Items API', () => {
       const endsAt = new Date('2026-01-20T12:00:00Z');
 
       // Set clock to before endsAt
-      setClock(createFakeClock(new Date('2026-01-20T11:00:00Z')));
+      clock.set(new Date('2026-01-20T11:00:00Z'));
 
-      const createResponse = await request(app).post('/api/items').send({
+      const createResponse = await request(app).post('/api/items').set(sellerAuth).send({
         title: 'Persist Test',
         description: 'Check persistence',
         startingPrice: 100,
@@ -249,11 +476,11 @@ describe('Items API', () => {
       });
 
       // Move clock past endsAt and fetch to trigger close
-      setClock(createFakeClock(new Date('2026-01-20T13:00:00Z')));
+      clock.set(new Date('2026-01-20T13:00:00Z'));
       await request(app).get(`/api/items/${createResponse.body.id}`);
 
       // Move clock back (simulating a different scenario) - should still be closed
-      setClock(createFakeClock(new Date('2026-01-20T11:30:00Z')));
+      clock.set(new Date('2026-01-20T11:30:00Z'));
       const response = await request(app).get(`/api/items/${createResponse.body.id}`);
 
       expect(response.body.status).toBe('closed');
@@ -264,7 +491,7 @@ describe('Items API', () => {
     it('places a valid bid on an active item', async () => {
       const futureDate = new Date(Date.now() + 3600000).toISOString();
 
-      const createResponse = await request(app).post('/api/items').send({
+      const createResponse = await request(app).post('/api/items').set(sellerAuth).send({
         title: 'Bid Test Item',
         description: 'For bidding',
         startingPrice: 100,
@@ -273,17 +500,38 @@ describe('Items API', () => {
 
       const response = await request(app)
         .post(`/api/items/${createResponse.body.id}/bid`)
-        .send({ amount: 150, bidderId: 'user1' });
+        .set(await authHeader(app, 'user1'))
+        .send({ amount: 150 });
 
       expect(response.status).toBe(200);
       expect(response.body.currentBid).toBe(150);
       expect(response.body.bidCount).toBe(1);
     });
 
+    it('returns 403 when the seller bids on or buys their own item', async () => {
+      const createResponse = await request(app).post('/api/items').set(sellerAuth).send({
+        title: 'Own Item',
+        description: 'Not for the seller',
+        startingPrice: 100,
+        buyNowPrice: 500,
+        endsAt: new Date(Date.now() + 3600000).toISOString(),
+      });
+
+      const bid = await request(app).post(`/api/items/${createResponse.body.id}/bid`).set(sellerAuth).send({ amount: 500 });
+      const buyNow = await request(app).post(`/api/items/${createResponse.body.id}/buy-now`).set(sellerAuth).send();
+      const item = await request(app).get(`/api/items/${createResponse.body.id}`);
+
+      expect(bid.status).toBe(403);
+      expect(bid.body.code).toBe('OWN_ITEM');
+      expect(buyNow.status).toBe(403);
+      expect(buyNow.body.code).toBe('OWN_ITEM');
+      expect(item.body).toMatchObject({ status: 'active', bidCount: 0, highBidderId: null });
+    });
+
     it('increments bid count with multiple bids', async () => {
       const futureDate = new Date(Date.now() + 3600000).toISOString();
 
-      const createResponse = await request(app).post('/api/items').send({
+      const createResponse = await request(app).post('/api/items').set(sellerAuth).send({
         title: 'Multi Bid Item',
         description: 'Multiple bids',
         startingPrice: 100,
@@ -292,21 +540,23 @@ describe('Items API', () => {
 
       await request(app)
         .post(`/api/items/${createResponse.body.id}/bid`)
-        .send({ amount: 150, bidderId: 'user1' });
+        .set(await authHeader(app, 'user1'))
+        .send({ amount: 150 });
 
       const response = await request(app)
         .post(`/api/items/${createResponse.body.id}/bid`)
-        .send({ amount: 200, bidderId: 'user2' });
+        .set(await authHeader(app, 'user2'))
+        .send({ amount: 200 });
 
       expect(response.status).toBe(200);
       expect(response.body.currentBid).toBe(200);
       expect(response.body.bidCount).toBe(2);
     });
 
-    it('returns 400 if bid is not higher than current bid', async () => {
+    it('returns 422 if bid does not clear the current bid by the increment', async () => {
       const futureDate = new Date(Date.now() + 3600000).toISOString();
 
-      const createResponse = await request(app).post('/api/items').send({
+      const createResponse = await request(app).post('/api/items').set(sellerAuth).send({
         title: 'Low Bid Item',
         description: 'Test low bid',
         startingPrice: 100,
@@ -316,22 +566,25 @@ describe('Items API', () => {
       // First bid
       await request(app)
         .post(`/api/items/${createResponse.body.id}/bid`)
-        .send({ amount: 150, bidderId: 'user1' });
+        .set(await authHeader(app, 'user1'))
+        .send({ amount: 150 });
 
-      // Lower bid should fail
+      // Bid below current bid + $5 increment should fail
       const response = await request(app)
         .post(`/api/items/${createResponse.body.id}/bid`)
-        .send({ amount: 140, bidderId: 'user2' });
+        .set(await authHeader(app, 'user2'))
+        .send({ amount: 152 });
 
-      expect(response.status).toBe(400);
-      expect(response.body.error).toContain('Bid must be greater than');
-      expect(response.body.minimumBid).toBe(150);
+      expect(response.status).toBe(422);
+      expect(response.body.code).toBe('BID_TOO_LOW');
+      expect(response.body.error).toBe('Bid must be at least $155.00');
+      expect(response.body.minimumBid).toBe(155);
     });
 
-    it('returns 400 if bid is not higher than starting price', async () => {
+    it('returns 422 if bid is not higher than starting price', async () => {
       const futureDate = new Date(Date.now() + 3600000).toISOString();
 
-      const createResponse = await request(app).post('/api/items').send({
+      const createResponse = await request(app).post('/api/items').set(sellerAuth).send({
         title: 'Starting Price Item',
         description: 'Test starting price',
         startingPrice: 100,
@@ -340,19 +593,20 @@ describe('Items API', () => {
 
       const response = await request(app)
         .post(`/api/items/${createResponse.body.id}/bid`)
-        .send({ amount: 50, bidderId: 'user1' });
+        .set(await authHeader(app, 'user1'))
+        .send({ amount: 50 });
 
-      expect(response.status).toBe(400);
+      expect(response.status).toBe(422);
       expect(response.body.minimumBid).toBe(100);
     });
 
-    it('returns 400 if bidding on expired item', async () => {
+    it('returns 409 if bidding on expired item', async () => {
       const endsAt = new Date('2026-01-20T12:00:00Z');
 
       // Set clock to before endsAt
-      setClock(createFakeClock(new Date('2026-01-20T11:00:00Z')));
+      clock.set(new Date('2026-01-20T11:00:00Z'));
 
-      const createResponse = await request(app).post('/api/items').send({
+      const createResponse = await request(app).post('/api/items').set(sellerAuth).send({
         title: 'Expired Item',
         description: 'Will expire',
         startingPrice: 100,
@@ -360,20 +614,23 @@ describe('Items API', () => {
       });
 
       // Move clock past endsAt
-      setClock(createFakeClock(new Date('2026-01-20T13:00:00Z')));
+      clock.set(new Date('2026-01-20T13:00:00Z'));
 
       const response = await request(app)
         .post(`/api/items/${createResponse.body.id}/bid`)
-        .send({ amount: 150, bidderId: 'user1' });
+        .set(await authHeader(app, 'user1'))
+        .send({ amount: 150 });
 
-      expect(response.status).toBe(400);
+      expect(response.status).toBe(409);
+      expect(response.body.code).toBe('AUCTION_CLOSED');
       expect(response.body.error).toBe('Auction has ended');
     });
 
     it('returns 404 if item does not exist', async () => {
       const response = await request(app)
         .post('/api/items/999/bid')
-        .send({ amount: 150, bidderId: 'user1' });
+        .set(await authHeader(app, 'user1'))
+        .send({ amount: 150 });
 
       expect(response.status).toBe(404);
       expect(response.body.error).toBe('Item not found');
@@ -382,7 +639,7 @@ describe('Items API', () => {
     it('returns 400 if amount is missing', async () => {
       const futureDate = new Date(Date.now() + 3600000).toISOString();
 
-      const createResponse = await request(app).post('/api/items').send({
+      const createResponse = await request(app).post('/api/items').set(sellerAuth).send({
         title: 'Missing Amount Item',
         description: 'Test missing amount',
         startingPrice: 100,
@@ -391,28 +648,1384 @@ describe('Items API', () => {
 
       const response = await request(app)
         .post(`/api/items/${createResponse.body.id}/bid`)
-        .send({ bidderId: 'user1' });
+        .set(await authHeader(app, 'user1'))
+        .send({});
 
       expect(response.status).toBe(400);
       expect(response.body.error).toBe('amount must be a positive number');
     });
 
-    it('returns 400 if bidderId is missing', async () => {
+    it('returns 401 without a session', async () => {
+      const futureDate = new Date(Date.now() + 3600000).toISOString();
+
+      const createResponse = await request(app).post('/api/items').set(sellerAuth).send({
+        title: 'Anonymous Bid Item',
+        description: 'Test missing session',
+        startingPrice: 100,
+        endsAt: futureDate,
+      });
+
+      const response = await request(app)
+        .post(`/api/items/${createResponse.body.id}/bid`)
+        .send({ amount: 150, bidderId: 'user1' });
+
+      expect(response.status).toBe(401);
+      expect(response.body.error).toBe('Authentication required');
+    });
+
+    it('bids as the logged-in user, ignoring bidderId in the body', async () => {
+      const futureDate = new Date(Date.now() + 3600000).toISOString();
+
+      const createResponse = await request(app).post('/api/items').set(sellerAuth).send({
+        title: 'Spoofed Bid Item',
+        description: 'Test bidder identity',
+        startingPrice: 100,
+        endsAt: futureDate,
+      });
+
+      const response = await request(app)
+        .post(`/api/items/${createResponse.body.id}/bid`)
+        .set(await authHeader(app, 'user1'))
+        .send({ amount: 150, bidderId: 'someone-else' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.highBidderId).toBe('user1');
+
+      const bidsResponse = await request(app).get(`/api/items/${createResponse.body.id}/bids`);
+      expect(bidsResponse.body.bids[0].bidderId).toBe('user1');
+    });
+  });
+
+  describe('GET /api/items/:id/bids', () => {
+    it('records each accepted bid with bidder and clock timestamp', async () => {
+      clock.set(new Date('2026-01-20T11:00:00Z'));
+
+      const createResponse = await request(app).post('/api/items').set(sellerAuth).send({
+        title: 'History Item',
+        description: 'Bid history',
+        startingPrice: 100,
+        endsAt: '2026-01-20T12:00:00Z',
+      });
+
+      await request(app)
+        .post(`/api/items/${createResponse.body.id}/bid`)
+        .set(await authHeader(app, 'user1'))
+        .send({ amount: 150 });
+
+      const response = await request(app).get(`/api/items/${createResponse.body.id}/bids`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.total).toBe(1);
+      expect(response.body.bids[0]).toMatchObject({
+        id: '1',
+        itemId: createResponse.body.id,
+        amount: 150,
+        bidderId: 'user1',
+        timestamp: '2026-01-20T11:00:00.000Z',
+      });
+    });
+
+    it('does not record rejected bids', async () => {
+      const futureDate = new Date(Date.now() + 3600000).toISOString();
+
+      const createResponse = await request(app).post('/api/items').set(sellerAuth).send({
+        title: 'Rejected Bid Item',
+        description: 'Low bids',
+        startingPrice: 100,
+        endsAt: futureDate,
+      });
+
+      await request(app)
+        .post(`/api/items/${createResponse.body.id}/bid`)
+        .set(await authHeader(app, 'user1'))
+        .send({ amount: 50 });
+
+      const response = await request(app).get(`/api/items/${createResponse.body.id}/bids`);
+
+      expect(response.body.total).toBe(0);
+      expect(response.body.bids).toEqual([]);
+    });
+
+    it('returns bids newest first with paging', async () => {
+      const futureDate = new Date(Date.now() + 3600000).toISOString();
+
+      const createResponse = await request(app).post('/api/items').set(sellerAuth).send({
+        title: 'Paged Item',
+        description: 'Many bids',
+        startingPrice: 100,
+        endsAt: futureDate,
+      });
+
+      for (const amount of [110, 120, 130]) {
+        await request(app)
+          .post(`/api/items/${createResponse.body.id}/bid`)
+          .set(await authHeader(app, `user${amount}`))
+          .send({ amount });
+      }
+
+      const response = await request(app)
+        .get(`/api/items/${createResponse.body.id}/bids`)
+        .query({ limit: 2, offset: 1 });
+
+      expect(response.status).toBe(200);
+      expect(response.body.total).toBe(3);
+      expect(response.body.limit).toBe(2);
+      expect(response.body.offset).toBe(1);
+      expect(response.body.bids.map((b: { amount: number }) => b.amount)).toEqual([120, 110]);
+    });
+
+    it('returns 400 for an invalid limit', async () => {
       const futureDate = new Date(Date.now() + 3600000).toISOString();
 
-      const createResponse = await request(app).post('/api/items').send({
-        title: 'Missing Bidder Item',
-        description: 'Test missing bidder',
+      const createResponse = await request(app).post('/api/items').set(sellerAuth).send({
+        title: 'Invalid Limit Item',
+        description: 'Bad paging',
         startingPrice: 100,
         endsAt: futureDate,
       });
 
+      const response = await request(app)
+        .get(`/api/items/${createResponse.body.id}/bids`)
+        .query({ limit: 0 });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('limit must be an integer between 1 and 100');
+    });
+
+    it('returns 404 if item does not exist', async () => {
+      const response = await request(app).get('/api/items/999/bids');
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('Item not found');
+    });
+  });
+
+  describe('Soft Close', () => {
+    async function createSoftCloseItem(softClose: Record<string, unknown>) {
+      clock.set(new Date('2026-01-20T11:00:00Z'));
+
+      return request(app).post('/api/items').set(sellerAuth).send({
+        title: 'Soft Close Item',
+        description: 'No sniping',
+        startingPrice: 100,
+        endsAt: '2026-01-20T12:00:00Z',
+        softClose,
+      });
+    }
+
+    it('extends endsAt when a bid lands inside the window', async () => {
+      const createResponse = await createSoftCloseItem({ windowSeconds: 120, extensionSeconds: 120 });
+      expect(createResponse.body.softClose).toEqual({
+        windowSeconds: 120,
+        extensionSeconds: 120,
+        hardCloseAt: null,
+      });
+
+      clock.set(new Date('2026-01-20T11:59:30Z'));
+      const response = await request(app)
+        .post(`/api/items/${createResponse.body.id}/bid`)
+        .set(await authHeader(app, 'user1'))
+        .send({ amount: 150 });
+
+      expect(response.status).toBe(200);
+      expect(response.body.endsAt).toBe('2026-01-20T12:02:00.000Z');
+    });
+
+    it('does not extend endsAt for bids outside the window', async () => {
+      const createResponse = await createSoftCloseItem({ windowSeconds: 120, extensionSeconds: 120 });
+
+      clock.set(new Date('2026-01-20T11:50:00Z'));
+      const response = await request(app)
+        .post(`/api/items/${createResponse.body.id}/bid`)
+        .set(await authHeader(app, 'user1'))
+        .send({ amount: 150 });
+
+      expect(response.body.endsAt).toBe('2026-01-20T12:00:00.000Z');
+    });
+
+    it('keeps accepting bids until the extended deadline', async () => {
+      const createResponse = await createSoftCloseItem({ windowSeconds: 120, extensionSeconds: 120 });
+
+      clock.set(new Date('2026-01-20T11:59:30Z'));
+      await request(app)
+        .post(`/api/items/${createResponse.body.id}/bid`)
+        .set(await authHeader(app, 'user1'))
+        .send({ amount: 150 });
+
+      clock.set(new Date('2026-01-20T12:01:00Z'));
+      const response = await request(app)
+        .post(`/api/items/${createResponse.body.id}/bid`)
+        .set(await authHeader(app, 'user2'))
+        .send({ amount: 200 });
+
+      expect(response.status).toBe(200);
+      expect(response.body.status).toBe('active');
+      expect(response.body.endsAt).toBe('2026-01-20T12:04:00.000Z');
+    });
+
+    it('never extends past hardCloseAt', async () => {
+      const createResponse = await createSoftCloseItem({
+        windowSeconds: 120,
+        extensionSeconds: 120,
+        hardCloseAt: '2026-01-20T12:01:00Z',
+      });
+
+      clock.set(new Date('2026-01-20T11:59:30Z'));
       const response = await request(app)
         .post(`/api/items/${createResponse.body.id}/bid`)
+        .set(await authHeader(app, 'user1'))
         .send({ amount: 150 });
 
+      expect(response.body.endsAt).toBe('2026-01-20T12:01:00.000Z');
+    });
+
+    it('returns 400 for invalid soft close settings', async () => {
+      const response = await createSoftCloseItem({ windowSeconds: 0, extensionSeconds: 120 });
+
       expect(response.status).toBe(400);
-      expect(response.body.error).toBe('bidderId is required');
+      expect(response.body.error).toBe('softClose.windowSeconds must be a positive integer');
+    });
+
+    it('returns 400 if hardCloseAt is before endsAt', async () => {
+      const response = await createSoftCloseItem({
+        windowSeconds: 120,
+        extensionSeconds: 120,
+        hardCloseAt: '2026-01-20T11:30:00Z',
+      });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('softClose.hardCloseAt must not be before endsAt');
+    });
+  });
+
+  describe('Reserve and Buy Now', () => {
+    async function createPricedItem(prices: Record<string, number>) {
+      clock.set(new Date('2026-01-20T11:00:00Z'));
+
+      return request(app).post('/api/items').set(sellerAuth).send({
+        title: 'Priced Item',
+        description: 'Reserve and buy now',
+        startingPrice: 100,
+        endsAt: '2026-01-20T12:00:00Z',
+        ...prices,
+      });
+    }
+
+    it('hides the reserve price and exposes reserveMet', async () => {
+      const createResponse = await createPricedItem({ reservePrice: 200 });
+
+      expect(createResponse.status).toBe(201);
+      expect(createResponse.body.reservePrice).toBeUndefined();
+      expect(createResponse.body.reserveMet).toBe(false);
+
+      const response = await request(app)
+        .post(`/api/items/${createResponse.body.id}/bid`)
+        .set(await authHeader(app, 'user1'))
+        .send({ amount: 250 });
+
+      expect(response.body.reservePrice).toBeUndefined();
+      expect(response.body.reserveMet).toBe(true);
+    });
+
+    it('reports reserveMet for items without a reserve', async () => {
+      const createResponse = await createPricedItem({});
+
+      expect(createResponse.body.reserveMet).toBe(true);
+    });
+
+    it('closes without a winner when the reserve is not met', async () => {
+      const createResponse = await createPricedItem({ reservePrice: 200 });
+
+      await request(app)
+        .post(`/api/items/${createResponse.body.id}/bid`)
+        .set(await authHeader(app, 'user1'))
+        .send({ amount: 150 });
+
+      clock.set(new Date('2026-01-20T13:00:00Z'));
+      const response = await request(app).get(`/api/items/${createResponse.body.id}`);
+
+      expect(response.body).toMatchObject({
+        status: 'closed',
+        outcome: 'reserve_not_met',
+        winnerId: null,
+        winningBid: null,
+      });
+    });
+
+    it('closes the item with the buyer as winner on buy-now', async () => {
+      const createResponse = await createPricedItem({ reservePrice: 200, buyNowPrice: 500 });
+
+      const response = await request(app)
+        .post(`/api/items/${createResponse.body.id}/buy-now`)
+        .set(await authHeader(app, 'buyer1'))
+        .send();
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({
+        status: 'closed',
+        outcome: 'sold',
+        winnerId: 'buyer1',
+        winningBid: 500,
+        currentBid: 500,
+        closedAt: '2026-01-20T11:00:00.000Z',
+      });
+    });
+
+    it('closes the item when a bid reaches the buy-now price', async () => {
+      const createResponse = await createPricedItem({ buyNowPrice: 500 });
+
+      const response = await request(app)
+        .post(`/api/items/${createResponse.body.id}/bid`)
+        .set(await authHeader(app, 'user1'))
+        .send({ amount: 600 });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({
+        status: 'closed',
+        winnerId: 'user1',
+        winningBid: 500,
+      });
+    });
+
+    it('returns 422 on buy-now for items without a buy-now price', async () => {
+      const createResponse = await createPricedItem({});
+
+      const response = await request(app)
+        .post(`/api/items/${createResponse.body.id}/buy-now`)
+        .set(await authHeader(app, 'buyer1'))
+        .send();
+
+      expect(response.status).toBe(422);
+      expect(response.body.code).toBe('BUY_NOW_UNAVAILABLE');
+    });
+
+    it('returns 409 on buy-now for closed items', async () => {
+      const createResponse = await createPricedItem({ buyNowPrice: 500 });
+
+      await request(app)
+        .post(`/api/items/${createResponse.body.id}/buy-now`)
+        .set(await authHeader(app, 'buyer1'))
+        .send();
+
+      const response = await request(app)
+        .post(`/api/items/${createResponse.body.id}/buy-now`)
+        .set(await authHeader(app, 'buyer2'))
+        .send();
+
+      expect(response.status).toBe(409);
+      expect(response.body.error).toBe('Auction has ended');
+    });
+
+    it('returns 400 if reservePrice is below startingPrice', async () => {
+      const response = await createPricedItem({ reservePrice: 50 });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('reservePrice must not be less than startingPrice');
+    });
+
+    it('returns 400 if buyNowPrice is below reservePrice', async () => {
+      const response = await createPricedItem({ reservePrice: 300, buyNowPrice: 200 });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('buyNowPrice must not be less than reservePrice');
+    });
+  });
+
+  describe('Proxy Bidding', () => {
+    async function createProxyItem(prices: Record<string, number> = {}) {
+      const futureDate = new Date(Date.now() + 3600000).toISOString();
+
+      const response = await request(app).post('/api/items').set(sellerAuth).send({
+        title: 'Proxy Item',
+        description: 'Automatic bidding',
+        startingPrice: 100,
+        endsAt: futureDate,
+        ...prices,
+      });
+      return response.body.id as string;
+    }
+
+    async function bid(itemId: string, username: string, body: Record<string, unknown>) {
+      return request(app)
+        .post(`/api/items/${itemId}/bid`)
+        .set(await authHeader(app, username))
+        .send(body);
+    }
+
+    it('tells the bidder they are winning', async () => {
+      const itemId = await createProxyItem();
+
+      const response = await bid(itemId, 'user1', { amount: 110, maxAmount: 200 });
+
+      expect(response.status).toBe(200);
+      expect(response.body.currentBid).toBe(110);
+      expect(response.body.winning).toBe(true);
+    });
+
+    it('defends the lead with the leader\'s proxy', async () => {
+      const itemId = await createProxyItem();
+      await bid(itemId, 'user1', { amount: 110, maxAmount: 200 });
+
+      const response = await bid(itemId, 'user2', { amount: 150 });
+
+      expect(response.status).toBe(200);
+      expect(response.body.currentBid).toBe(155);
+      expect(response.body.bidCount).toBe(3);
+      expect(response.body.winning).toBe(false);
+    });
+
+    it('outbids the leader up to the second-highest max plus one increment', async () => {
+      const itemId = await createProxyItem();
+      await bid(itemId, 'user1', { amount: 110, maxAmount: 200 });
+
+      const response = await bid(itemId, 'user2', { amount: 150, maxAmount: 300 });
+
+      expect(response.body.currentBid).toBe(205);
+      expect(response.body.winning).toBe(true);
+    });
+
+    it('gives ties to the earlier bidder', async () => {
+      const itemId = await createProxyItem();
+      await bid(itemId, 'user1', { amount: 110, maxAmount: 200 });
+
+      const response = await bid(itemId, 'user2', { amount: 200 });
+
+      expect(response.body.currentBid).toBe(200);
+      expect(response.body.winning).toBe(false);
+    });
+
+    it('shows automatic bids in the history without revealing maxima', async () => {
+      const itemId = await createProxyItem();
+      await bid(itemId, 'user1', { amount: 110, maxAmount: 200 });
+      await bid(itemId, 'user2', { amount: 150 });
+
+      const response = await request(app).get(`/api/items/${itemId}/bids`);
+
+      expect(response.body.bids.map((b: Record<string, unknown>) => [b.bidderId, b.amount, b.isAutomatic])).toEqual([
+        ['user1', 155, true],
+        ['user2', 150, false],
+        ['user1', 110, false],
+      ]);
+      expect(JSON.stringify(response.body)).not.toContain('maxAmount');
+      expect(JSON.stringify(response.body)).not.toContain('200');
+    });
+
+    it('awards the item to the proxy leader on close', async () => {
+      clock.set(new Date('2026-01-20T11:00:00Z'));
+      const createResponse = await request(app).post('/api/items').set(sellerAuth).send({
+        title: 'Proxy Close Item',
+        description: 'Proxy wins',
+        startingPrice: 100,
+        endsAt: '2026-01-20T12:00:00Z',
+      });
+      const itemId = createResponse.body.id;
+      await bid(itemId, 'user1', { amount: 110, maxAmount: 200 });
+      await bid(itemId, 'user2', { amount: 200 });
+
+      clock.set(new Date('2026-01-20T13:00:00Z'));
+      const response = await request(app).get(`/api/items/${itemId}`);
+
+      expect(response.body.winnerId).toBe('user1');
+      expect(response.body.winningBid).toBe(200);
+    });
+
+    it('lets the leader raise their maximum without bidding against themselves', async () => {
+      const itemId = await createProxyItem();
+      await bid(itemId, 'user1', { amount: 110, maxAmount: 150 });
+
+      const raised = await bid(itemId, 'user1', { amount: 110, maxAmount: 300 });
+      const challenged = await bid(itemId, 'user2', { amount: 200 });
+
+      expect(raised.status).toBe(200);
+      expect(raised.body).toMatchObject({ currentBid: 110, bidCount: 1, winning: true });
+      expect(challenged.body).toMatchObject({ currentBid: 205, highBidderId: 'user1', winning: false });
+    });
+
+    it('raises a proxy to the reserve price once its maximum reaches it', async () => {
+      const itemId = await createProxyItem({ reservePrice: 500 });
+
+      const lone = await bid(itemId, 'user1', { amount: 110, maxAmount: 400 });
+      const competing = await bid(itemId, 'user2', { amount: 150, maxAmount: 1000 });
+      const raised = await bid(itemId, 'user1', { amount: 530, maxAmount: 600 });
+
+      expect(lone.body).toMatchObject({ currentBid: 110, reserveMet: false });
+      expect(competing.body).toMatchObject({ currentBid: 500, reserveMet: true, winning: true });
+      expect(raised.body).toMatchObject({ currentBid: 625, highBidderId: 'user2', winning: false });
+    });
+
+    it('raises a lone leader to the reserve when they raise their maximum', async () => {
+      const itemId = await createProxyItem({ reservePrice: 500 });
+      await bid(itemId, 'user1', { amount: 110 });
+
+      const response = await bid(itemId, 'user1', { amount: 110, maxAmount: 1000 });
+
+      expect(response.body).toMatchObject({ currentBid: 500, reserveMet: true, winning: true });
+    });
+
+    it('stops automatic bids at the buy-now price and sells there', async () => {
+      const itemId = await createProxyItem({ buyNowPrice: 150 });
+      await bid(itemId, 'user1', { amount: 110, maxAmount: 300 });
+
+      const outbid = await bid(itemId, 'user2', { amount: 148 });
+      const buyNow = await request(app)
+        .post(`/api/items/${itemId}/buy-now`)
+        .set(await authHeader(app, 'user3'))
+        .send();
+
+      expect(outbid.body).toMatchObject({
+        status: 'closed',
+        currentBid: 150,
+        winnerId: 'user1',
+        winningBid: 150,
+        winning: false,
+      });
+      expect(buyNow.status).toBe(409);
+    });
+
+    it('returns 400 if maxAmount is less than amount', async () => {
+      const itemId = await createProxyItem();
+
+      const response = await bid(itemId, 'user1', { amount: 150, maxAmount: 120 });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('maxAmount must be a number not less than amount');
+    });
+  });
+
+  describe('Bid Increments', () => {
+    async function createIncrementItem(extra: Record<string, unknown> = {}) {
+      const futureDate = new Date(Date.now() + 3600000).toISOString();
+
+      return request(app).post('/api/items').set(sellerAuth).send({
+        title: 'Increment Item',
+        description: 'Stepped bidding',
+        startingPrice: 100,
+        endsAt: futureDate,
+        ...extra,
+      });
+    }
+
+    it('exposes the next valid bid as minimumBid', async () => {
+      const createResponse = await createIncrementItem();
+      expect(createResponse.body.minimumBid).toBe(100);
+
+      const response = await request(app)
+        .post(`/api/items/${createResponse.body.id}/bid`)
+        .set(await authHeader(app, 'user1'))
+        .send({ amount: 100 });
+
+      expect(response.status).toBe(200);
+      expect(response.body.minimumBid).toBe(105);
+    });
+
+    it('uses a per-item increment table', async () => {
+      const createResponse = await createIncrementItem({
+        incrementTable: [{ below: null, increment: 50 }],
+      });
+
+      await request(app)
+        .post(`/api/items/${createResponse.body.id}/bid`)
+        .set(await authHeader(app, 'user1'))
+        .send({ amount: 100 });
+
+      const response = await request(app)
+        .post(`/api/items/${createResponse.body.id}/bid`)
+        .set(await authHeader(app, 'user2'))
+        .send({ amount: 120 });
+
+      expect(response.status).toBe(422);
+      expect(response.body.minimumBid).toBe(150);
+    });
+
+    it('returns 400 for an invalid increment table', async () => {
+      const response = await createIncrementItem({ incrementTable: [{ below: 100, increment: 1 }] });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('the last incrementTable tier must have below: null');
+    });
+  });
+
+  describe('Optimistic Versioning', () => {
+    async function createVersionedItem(extra: Record<string, unknown> = {}) {
+      const futureDate = new Date(Date.now() + 3600000).toISOString();
+
+      return request(app).post('/api/items').set(sellerAuth).send({
+        title: 'Versioned Item',
+        description: 'Contested bidding',
+        startingPrice: 100,
+        endsAt: futureDate,
+        ...extra,
+      });
+    }
+
+    it('returns the item version as an ETag', async () => {
+      const createResponse = await createVersionedItem();
+      expect(createResponse.body.version).toBe(1);
+
+      const response = await request(app).get(`/api/items/${createResponse.body.id}`);
+
+      expect(response.status).toBe(200);
+      expect(response.headers.etag).toBe('"1"');
+    });
+
+    it('increments the version and ETag on each bid', async () => {
+      const createResponse = await createVersionedItem();
+
+      const response = await request(app)
+        .post(`/api/items/${createResponse.body.id}/bid`)
+        .set(await authHeader(app, 'user1'))
+        .send({ amount: 150 });
+
+      expect(response.status).toBe(200);
+      expect(response.body.version).toBe(2);
+      expect(response.headers.etag).toBe('"2"');
+    });
+
+    it('accepts a bid whose If-Match matches the current version', async () => {
+      const createResponse = await createVersionedItem();
+
+      const response = await request(app)
+        .post(`/api/items/${createResponse.body.id}/bid`)
+        .set('If-Match', '"1"')
+        .set(await authHeader(app, 'user1'))
+        .send({ amount: 150 });
+
+      expect(response.status).toBe(200);
+      expect(response.body.currentBid).toBe(150);
+    });
+
+    it('returns 409 with the fresh item for a stale If-Match', async () => {
+      const createResponse = await createVersionedItem();
+      const itemId = createResponse.body.id;
+
+      await request(app)
+        .post(`/api/items/${itemId}/bid`)
+        .set('If-Match', '"1"')
+        .set(await authHeader(app, 'user1'))
+        .send({ amount: 150 });
+
+      const response = await request(app)
+        .post(`/api/items/${itemId}/bid`)
+        .set('If-Match', '"1"')
+        .set(await authHeader(app, 'user2'))
+        .send({ amount: 160 });
+
+      expect(response.status).toBe(409);
+      expect(response.headers.etag).toBe('"2"');
+      expect(response.body.code).toBe('VERSION_CONFLICT');
+      expect(response.body.error).toBe('Item has been modified');
+      expect(response.body.item).toMatchObject({ id: itemId, currentBid: 150, version: 2, minimumBid: 155 });
+      expect(response.body.item).not.toHaveProperty('reservePrice');
+
+      const bidsResponse = await request(app).get(`/api/items/${itemId}/bids`);
+      expect(bidsResponse.body.total).toBe(1);
+    });
+
+    it('returns 409 for a stale If-Match on buy-now', async () => {
+      const createResponse = await createVersionedItem({ buyNowPrice: 500 });
+      const itemId = createResponse.body.id;
+
+      await request(app)
+        .post(`/api/items/${itemId}/bid`)
+        .set(await authHeader(app, 'user1'))
+        .send({ amount: 150 });
+
+      const response = await request(app)
+        .post(`/api/items/${itemId}/buy-now`)
+        .set('If-Match', '"1"')
+        .set(await authHeader(app, 'user2'))
+        .send();
+
+      expect(response.status).toBe(409);
+      expect(response.body.item.status).toBe('active');
+    });
+
+    it('accepts a wildcard If-Match', async () => {
+      const createResponse = await createVersionedItem();
+
+      const response = await request(app)
+        .post(`/api/items/${createResponse.body.id}/bid`)
+        .set('If-Match', '*')
+        .set(await authHeader(app, 'user1'))
+        .send({ amount: 150 });
+
+      expect(response.status).toBe(200);
+    });
+
+    it('returns 400 for a malformed If-Match', async () => {
+      const createResponse = await createVersionedItem();
+
+      const response = await request(app)
+        .post(`/api/items/${createResponse.body.id}/bid`)
+        .set('If-Match', 'version-1')
+        .set(await authHeader(app, 'user1'))
+        .send({ amount: 150 });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('If-Match must be an item ETag');
+    });
+
+    it('returns 409 when the item changes between the checks and the write', async () => {
+      const store = createMemoryStore();
+      const racingApp = createApp({
+        store: {
+          ...store,
+          // Simulate another writer committing first
+          updateItem: item => {
+            throw new VersionConflictError(item.id);
+          },
+        },
+        clock,
+      });
+      const createResponse = await request(racingApp).post('/api/items').set(await authHeader(racingApp, 'seller')).send({
+        title: 'Raced Item',
+        description: 'Contested bidding',
+        startingPrice: 100,
+        endsAt: new Date(Date.now() + 3600000).toISOString(),
+      });
+
+      const response = await request(racingApp)
+        .post(`/api/items/${createResponse.body.id}/bid`)
+        .set(await authHeader(racingApp, 'user1'))
+        .send({ amount: 150 });
+
+      expect(response.status).toBe(409);
+      expect(response.body.item.currentBid).toBeNull();
+      expect(store.listBids(createResponse.body.id)).toEqual([]);
+    });
+  });
+
+  describe('Editing and Cancelling', () => {
+    async function createSellerItem(extra: Record<string, unknown> = {}) {
+      const response = await request(app).post('/api/items').set(sellerAuth).send({
+        title: 'Seller Item',
+        description: 'Owned listing',
+        startingPrice: 100,
+        endsAt: new Date(Date.now() + 3600000).toISOString(),
+        ...extra,
+      });
+      return response.body.id as string;
+    }
+
+    it('lets the seller edit title, description and endsAt before any bids', async () => {
+      const itemId = await createSellerItem();
+      const endsAt = new Date(Date.now() + 7200000).toISOString();
+
+      const response = await request(app)
+        .patch(`/api/items/${itemId}`)
+        .set(sellerAuth)
+        .send({ title: 'Renamed', description: 'Updated', endsAt });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({ title: 'Renamed', description: 'Updated', endsAt, version: 2 });
+      expect(response.headers.etag).toBe('"2"');
+    });
+
+    it('returns 403 when someone other than the seller edits', async () => {
+      const itemId = await createSellerItem();
+
+      const response = await request(app)
+        .patch(`/api/items/${itemId}`)
+        .set(await authHeader(app, 'user1'))
+        .send({ title: 'Hijacked' });
+
+      expect(response.status).toBe(403);
+      expect(response.body.error).toBe('Only the seller can change this item');
+    });
+
+    it('rejects edits after the first bid', async () => {
+      const itemId = await createSellerItem();
+      await request(app)
+        .post(`/api/items/${itemId}/bid`)
+        .set(await authHeader(app, 'user1'))
+        .send({ amount: 150 });
+
+      const response = await request(app)
+        .patch(`/api/items/${itemId}`)
+        .set(sellerAuth)
+        .send({ title: 'Too late' });
+
+      expect(response.status).toBe(409);
+      expect(response.body.code).toBe('ITEM_HAS_BIDS');
+    });
+
+    it('rejects fields that cannot be edited', async () => {
+      const itemId = await createSellerItem();
+
+      const response = await request(app)
+        .patch(`/api/items/${itemId}`)
+        .set(sellerAuth)
+        .send({ startingPrice: 1 });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Only title, description and endsAt can be edited');
+    });
+
+    it('rejects an endsAt in the past', async () => {
+      const itemId = await createSellerItem();
+
+      const response = await request(app)
+        .patch(`/api/items/${itemId}`)
+        .set(sellerAuth)
+        .send({ endsAt: new Date(Date.now() - 1000).toISOString() });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('endsAt must be in the future');
+    });
+
+    it('rejects an endsAt past the soft close hard cap', async () => {
+      const hardCloseAt = new Date(Date.now() + 7200000).toISOString();
+      const itemId = await createSellerItem({
+        softClose: { windowSeconds: 120, extensionSeconds: 120, hardCloseAt },
+      });
+
+      const response = await request(app)
+        .patch(`/api/items/${itemId}`)
+        .set(sellerAuth)
+        .send({ endsAt: new Date(Date.now() + 10800000).toISOString() });
+
+      expect(response.status).toBe(422);
+      expect(response.body.code).toBe('INVALID_END_TIME');
+      expect(response.body.error).toBe('endsAt must not be after softClose.hardCloseAt');
+    });
+
+    it('cancels an item and refuses further bids', async () => {
+      clock.set(new Date('2026-01-20T11:00:00Z'));
+      const itemId = await createSellerItem({ endsAt: '2026-01-20T12:00:00Z' });
+
+      const response = await request(app).post(`/api/items/${itemId}/cancel`).set(sellerAuth).send();
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({
+        status: 'cancelled',
+        closedAt: '2026-01-20T11:00:00.000Z',
+        outcome: null,
+        winnerId: null,
+      });
+
+      const bidResponse = await request(app)
+        .post(`/api/items/${itemId}/bid`)
+        .set(await authHeader(app, 'user1'))
+        .send({ amount: 150 });
+
+      expect(bidResponse.status).toBe(409);
+      expect(bidResponse.body.code).toBe('AUCTION_CANCELLED');
+    });
+
+    it('keeps cancelled items cancelled after their end time', async () => {
+      clock.set(new Date('2026-01-20T11:00:00Z'));
+      const itemId = await createSellerItem({ endsAt: '2026-01-20T12:00:00Z' });
+      await request(app).post(`/api/items/${itemId}/cancel`).set(sellerAuth).send();
+
+      clock.set(new Date('2026-01-20T13:00:00Z'));
+      const response = await request(app).get(`/api/items/${itemId}`);
+
+      expect(response.body.status).toBe('cancelled');
+      expect(response.body.outcome).toBeNull();
+    });
+
+    it('returns 403 when someone other than the seller cancels', async () => {
+      const itemId = await createSellerItem();
+
+      const response = await request(app)
+        .post(`/api/items/${itemId}/cancel`)
+        .set(await authHeader(app, 'user1'))
+        .send();
+
+      expect(response.status).toBe(403);
+    });
+
+    it('rejects cancelling an item twice', async () => {
+      const itemId = await createSellerItem();
+      await request(app).post(`/api/items/${itemId}/cancel`).set(sellerAuth).send();
+
+      const response = await request(app).post(`/api/items/${itemId}/cancel`).set(sellerAuth).send();
+
+      expect(response.status).toBe(409);
+      expect(response.body.error).toBe('Auction has been cancelled');
+    });
+  });
+
+  describe('Scheduled Auctions', () => {
+    beforeEach(() => {
+      clock.set(new Date('2026-01-20T10:00:00Z'));
+    });
+
+    function createScheduledItem(extra: Record<string, unknown> = {}) {
+      return request(app).post('/api/items').set(sellerAuth).send({
+        title: 'Scheduled Item',
+        description: 'Opens later',
+        startingPrice: 100,
+        startsAt: '2026-01-20T11:00:00Z',
+        endsAt: '2026-01-20T12:00:00Z',
+        ...extra,
+      });
+    }
+
+    it('creates items with a startsAt as scheduled', async () => {
+      const response = await createScheduledItem();
+
+      expect(response.status).toBe(201);
+      expect(response.body).toMatchObject({ status: 'scheduled', startsAt: '2026-01-20T11:00:00.000Z' });
+    });
+
+    it('starts items immediately without a startsAt', async () => {
+      const response = await createScheduledItem({ startsAt: undefined });
+
+      expect(response.body).toMatchObject({ status: 'active', startsAt: null });
+    });
+
+    it('returns 400 for a startsAt in the past', async () => {
+      const response = await createScheduledItem({ startsAt: '2026-01-20T09:00:00Z' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('startsAt must be in the future');
+    });
+
+    it('returns 400 for a startsAt not before endsAt', async () => {
+      const response = await createScheduledItem({ startsAt: '2026-01-20T12:00:00Z' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('startsAt must be before endsAt');
+    });
+
+    it('rejects bids before the start time', async () => {
+      const createResponse = await createScheduledItem();
+
+      const response = await request(app)
+        .post(`/api/items/${createResponse.body.id}/bid`)
+        .set(await authHeader(app, 'user1'))
+        .send({ amount: 150 });
+
+      expect(response.status).toBe(409);
+      expect(response.body.code).toBe('AUCTION_NOT_STARTED');
+    });
+
+    it('accepts bids once the start time has passed', async () => {
+      const createResponse = await createScheduledItem();
+      clock.set(new Date('2026-01-20T11:00:00Z'));
+
+      const getResponse = await request(app).get(`/api/items/${createResponse.body.id}`);
+      const bidResponse = await request(app)
+        .post(`/api/items/${createResponse.body.id}/bid`)
+        .set(await authHeader(app, 'user1'))
+        .send({ amount: 150 });
+
+      expect(getResponse.body.status).toBe('active');
+      expect(bidResponse.status).toBe(200);
+      expect(bidResponse.body.currentBid).toBe(150);
+    });
+
+    it('lets the seller edit or cancel before the start', async () => {
+      const createResponse = await createScheduledItem();
+      const itemId = createResponse.body.id;
+
+      const editResponse = await request(app)
+        .patch(`/api/items/${itemId}`)
+        .set(sellerAuth)
+        .send({ title: 'Renamed' });
+      const cancelResponse = await request(app).post(`/api/items/${itemId}/cancel`).set(sellerAuth).send();
+
+      expect(editResponse.status).toBe(200);
+      expect(editResponse.body).toMatchObject({ title: 'Renamed', status: 'scheduled' });
+      expect(cancelResponse.body.status).toBe('cancelled');
+    });
+
+    it('rejects an edited endsAt that is not after startsAt', async () => {
+      const createResponse = await createScheduledItem();
+
+      const response = await request(app)
+        .patch(`/api/items/${createResponse.body.id}`)
+        .set(sellerAuth)
+        .send({ endsAt: '2026-01-20T10:30:00Z' });
+
+      expect(response.status).toBe(422);
+      expect(response.body.error).toBe('endsAt must be after startsAt');
+    });
+  });
+
+  describe('Dutch Auctions', () => {
+    beforeEach(() => {
+      clock.set(new Date('2026-01-20T10:00:00Z'));
+    });
+
+    function createDutchItem(extra: Record<string, unknown> = {}) {
+      return request(app).post('/api/items').set(sellerAuth).send({
+        title: 'Dutch Item',
+        description: 'Falling price',
+        startingPrice: 100,
+        auctionType: 'dutch',
+        dutch: { floorPrice: 50, dropAmount: 10, dropIntervalSeconds: 60 },
+        ...extra,
+      });
+    }
+
+    it('computes endsAt from the price schedule', async () => {
+      const response = await createDutchItem();
+
+      expect(response.status).toBe(201);
+      expect(response.body).toMatchObject({
+        auctionType: 'dutch',
+        dutch: { floorPrice: 50, dropAmount: 10, dropIntervalSeconds: 60 },
+        minimumBid: 100,
+        endsAt: '2026-01-20T10:05:00.000Z',
+      });
+    });
+
+    it('shows the falling price as the minimum bid', async () => {
+      await createDutchItem();
+      clock.advance(150 * 1000);
+
+      const response = await request(app).get('/api/items/1');
+
+      expect(response.body.minimumBid).toBe(80);
+    });
+
+    it('sells to the first bidder to accept the current price', async () => {
+      await createDutchItem();
+      const bobAuth = await authHeader(app, 'bob');
+      clock.advance(2 * 60 * 1000);
+
+      const tooLow = await request(app).post('/api/items/1/bid').set(bobAuth).send({ amount: 70 });
+      const accepted = await request(app).post('/api/items/1/bid').set(bobAuth).send({ amount: 80 });
+      const late = await request(app).post('/api/items/1/bid').set(await authHeader(app, 'carol')).send({ amount: 80 });
+
+      expect(tooLow.status).toBe(422);
+      expect(tooLow.body).toMatchObject({ code: 'BID_TOO_LOW', minimumBid: 80 });
+      expect(accepted.status).toBe(200);
+      expect(accepted.body).toMatchObject({ status: 'closed', outcome: 'sold', winnerId: 'bob', winningBid: 80, winning: true });
+      expect(late.status).toBe(409);
+      expect(late.body.code).toBe('AUCTION_CLOSED');
+    });
+
+    it('closes unsold once the price reaches the floor', async () => {
+      await createDutchItem();
+      clock.advance(5 * 60 * 1000);
+
+      const response = await request(app).get('/api/items/1');
+
+      expect(response.body).toMatchObject({ status: 'closed', outcome: 'no_bids', winnerId: null });
+    });
+
+    it('rejects proxy bids and end time changes', async () => {
+      await createDutchItem();
+
+      const proxy = await request(app)
+        .post('/api/items/1/bid')
+        .set(await authHeader(app, 'bob'))
+        .send({ amount: 100, maxAmount: 120 });
+      const edit = await request(app)
+        .patch('/api/items/1')
+        .set(sellerAuth)
+        .send({ endsAt: '2026-01-20T12:00:00Z' });
+
+      expect(proxy.status).toBe(422);
+      expect(proxy.body.code).toBe('PROXY_BID_UNAVAILABLE');
+      expect(edit.status).toBe(422);
+      expect(edit.body.code).toBe('INVALID_END_TIME');
+    });
+
+    it('validates the schedule and rejects english-only fields', async () => {
+      const missing = await createDutchItem({ dutch: undefined });
+      const english = await createDutchItem({
+        endsAt: '2026-01-20T12:00:00Z',
+        reservePrice: 120,
+        dutch: { floorPrice: 100, dropAmount: 10, dropIntervalSeconds: 60 },
+      });
+      const stray = await createDutchItem({ auctionType: undefined, endsAt: '2026-01-20T12:00:00Z' });
+
+      expect(missing.status).toBe(400);
+      expect(missing.body.details).toEqual([{ field: 'dutch', message: 'dutch is required for dutch auctions' }]);
+      expect(english.body.details).toEqual([
+        { field: 'endsAt', message: 'endsAt is not available for dutch auctions' },
+        { field: 'dutch', message: 'dutch.floorPrice must be less than startingPrice' },
+        { field: 'reservePrice', message: 'reservePrice is not available for dutch auctions' },
+      ]);
+      expect(stray.body.details).toEqual([{ field: 'dutch', message: 'dutch requires auctionType dutch' }]);
+    });
+  });
+
+  describe('Sealed-Bid Auctions', () => {
+    let bobAuth: { Authorization: string };
+    let carolAuth: { Authorization: string };
+
+    beforeEach(async () => {
+      clock.set(new Date('2026-01-20T10:00:00Z'));
+      bobAuth = await authHeader(app, 'bob');
+      carolAuth = await authHeader(app, 'carol');
+    });
+
+    function createSealedItem(auctionType: string) {
+      return request(app).post('/api/items').set(sellerAuth).send({
+        title: 'Sealed Item',
+        description: 'Bids hidden until close',
+        startingPrice: 100,
+        endsAt: '2026-01-20T12:00:00Z',
+        auctionType,
+      });
+    }
+
+    it('hides bid amounts and the leader while active', async () => {
+      await createSealedItem('sealed_first_price');
+
+      const placed = await request(app).post('/api/items/1/bid').set(bobAuth).send({ amount: 250 });
+      const list = await request(app).get('/api/items');
+      const bids = await request(app).get('/api/items/1/bids');
+
+      expect(placed.status).toBe(200);
+      expect(placed.body).toMatchObject({ currentBid: null, highBidderId: null, bidCount: 1, winning: null });
+      expect(list.body.items[0]).toMatchObject({ currentBid: null, bidCount: 1, minimumBid: 100 });
+      expect(bids.body.bids).toEqual([expect.objectContaining({ bidderId: 'bob', amount: null })]);
+    });
+
+    it('lets bidders revise their sealed bid', async () => {
+      await createSealedItem('sealed_first_price');
+
+      await request(app).post('/api/items/1/bid').set(bobAuth).send({ amount: 250 });
+      const revised = await request(app).post('/api/items/1/bid').set(bobAuth).send({ amount: 180 });
+      const tooLow = await request(app).post('/api/items/1/bid').set(carolAuth).send({ amount: 90 });
+
+      expect(revised.body.bidCount).toBe(1);
+      expect(tooLow.status).toBe(422);
+      expect(tooLow.body).toMatchObject({ code: 'BID_TOO_LOW', minimumBid: 100 });
+    });
+
+    it('settles first-price auctions at the winning bid and reveals the bids', async () => {
+      await createSealedItem('sealed_first_price');
+      await request(app).post('/api/items/1/bid').set(bobAuth).send({ amount: 250 });
+      await request(app).post('/api/items/1/bid').set(carolAuth).send({ amount: 200 });
+      clock.set(new Date('2026-01-20T12:00:01Z'));
+
+      const item = await request(app).get('/api/items/1');
+      const bids = await request(app).get('/api/items/1/bids');
+
+      expect(item.body).toMatchObject({ status: 'closed', winnerId: 'bob', winningBid: 250, currentBid: 250 });
+      expect(bids.body.bids.map((bid: { amount: number }) => bid.amount)).toEqual([200, 250]);
+    });
+
+    it('settles Vickrey auctions at the second-highest bid, earliest bid winning ties', async () => {
+      await createSealedItem('sealed_vickrey');
+      await request(app).post('/api/items/1/bid').set(bobAuth).send({ amount: 250 });
+      clock.advance(1000);
+      await request(app).post('/api/items/1/bid').set(carolAuth).send({ amount: 250 });
+      clock.set(new Date('2026-01-20T12:00:01Z'));
+
+      const item = await request(app).get('/api/items/1');
+
+      expect(item.body).toMatchObject({ status: 'closed', outcome: 'sold', winnerId: 'bob', winningBid: 250 });
+    });
+
+    it('rejects proxy bids and english-only fields', async () => {
+      await createSealedItem('sealed_vickrey');
+
+      const proxy = await request(app).post('/api/items/1/bid').set(bobAuth).send({ amount: 150, maxAmount: 300 });
+      const reserve = await request(app).post('/api/items').set(sellerAuth).send({
+        title: 'Sealed Item',
+        startingPrice: 100,
+        endsAt: '2026-01-20T12:00:00Z',
+        auctionType: 'sealed_vickrey',
+        reservePrice: 200,
+      });
+
+      expect(proxy.status).toBe(422);
+      expect(proxy.body.code).toBe('PROXY_BID_UNAVAILABLE');
+      expect(reserve.body.details).toEqual([
+        { field: 'reservePrice', message: 'reservePrice is not available for sealed_vickrey auctions' },
+      ]);
+    });
+  });
+
+  describe('Multi-Unit Lots', () => {
+    let bobAuth: { Authorization: string };
+    let carolAuth: { Authorization: string };
+
+    beforeEach(async () => {
+      clock.set(new Date('2026-01-20T10:00:00Z'));
+      bobAuth = await authHeader(app, 'bob');
+      carolAuth = await authHeader(app, 'carol');
+    });
+
+    function createLot(lotPricing?: string) {
+      return request(app).post('/api/items').set(sellerAuth).send({
+        title: 'Wine',
+        description: 'Ten bottles',
+        startingPrice: 20,
+        endsAt: '2026-01-20T12:00:00Z',
+        quantity: 10,
+        lotPricing,
+      });
+    }
+
+    it('creates lots with uniform pricing by default', async () => {
+      const response = await createLot();
+
+      expect(response.status).toBe(201);
+      expect(response.body).toMatchObject({
+        quantity: 10,
+        lotPricing: 'uniform',
+        allocations: [],
+        clearingPrice: null,
+        minimumBid: 20,
+      });
+    });
+
+    it('allocates units to the top bids and reports the clearing price', async () => {
+      await createLot();
+
+      const bob = await request(app).post('/api/items/1/bid').set(bobAuth).send({ amount: 30, quantity: 6 });
+      const carol = await request(app).post('/api/items/1/bid').set(carolAuth).send({ amount: 25, quantity: 6 });
+
+      expect(bob.body).toMatchObject({ winning: true, clearingPrice: 30, minimumBid: 20 });
+      expect(carol.body).toMatchObject({
+        winning: true,
+        currentBid: 25,
+        clearingPrice: 25,
+        minimumBid: 26,
+        allocations: [
+          { bidderId: 'bob', quantity: 6, price: 25 },
+          { bidderId: 'carol', quantity: 4, price: 25 },
+        ],
+      });
+    });
+
+    it('settles pay-as-bid lots with a partial fill', async () => {
+      await createLot('pay_as_bid');
+      await request(app).post('/api/items/1/bid').set(bobAuth).send({ amount: 30, quantity: 6 });
+      await request(app).post('/api/items/1/bid').set(carolAuth).send({ amount: 25, quantity: 6 });
+      clock.set(new Date('2026-01-20T12:00:01Z'));
+
+      const item = await request(app).get('/api/items/1');
+
+      expect(item.body).toMatchObject({
+        status: 'closed',
+        outcome: 'sold',
+        winnerId: 'bob',
+        allocations: [
+          { bidderId: 'bob', quantity: 6, price: 30 },
+          { bidderId: 'carol', quantity: 4, price: 25 },
+        ],
+      });
+    });
+
+    it('rejects bids for more units than the lot has', async () => {
+      await createLot();
+
+      const response = await request(app).post('/api/items/1/bid').set(bobAuth).send({ amount: 30, quantity: 11 });
+
+      expect(response.status).toBe(422);
+      expect(response.body).toMatchObject({
+        code: 'INVALID_QUANTITY',
+        details: [{ field: 'quantity', message: 'quantity must not be more than the 10 available' }],
+      });
+    });
+
+    it('rejects proxy bids and fields that do not apply to lots', async () => {
+      await createLot();
+
+      const proxy = await request(app).post('/api/items/1/bid').set(bobAuth).send({ amount: 30, maxAmount: 50 });
+      const reserve = await request(app).post('/api/items').set(sellerAuth).send({
+        title: 'Wine',
+        startingPrice: 20,
+        endsAt: '2026-01-20T12:00:00Z',
+        quantity: 10,
+        reservePrice: 25,
+      });
+      const pricing = await request(app).post('/api/items').set(sellerAuth).send({
+        title: 'Wine',
+        startingPrice: 20,
+        endsAt: '2026-01-20T12:00:00Z',
+        lotPricing: 'uniform',
+      });
+
+      expect(proxy.status).toBe(422);
+      expect(proxy.body.code).toBe('PROXY_BID_UNAVAILABLE');
+      expect(reserve.body.details).toEqual([{ field: 'reservePrice', message: 'reservePrice is not available for lots' }]);
+      expect(pricing.body.details).toEqual([{ field: 'lotPricing', message: 'lotPricing requires a quantity above 1' }]);
+    });
+  });
+
+  describe('Currencies', () => {
+    let bobAuth: { Authorization: string };
+
+    beforeEach(async () => {
+      clock.set(new Date('2026-01-20T10:00:00Z'));
+      bobAuth = await authHeader(app, 'bob');
+    });
+
+    function createItemIn(currency: string | undefined, fields: Record<string, unknown> = {}) {
+      return request(app).post('/api/items').set(sellerAuth).send({
+        title: 'Teapot',
+        startingPrice: 1000,
+        endsAt: '2026-01-20T12:00:00Z',
+        currency,
+        ...fields,
+      });
+    }
+
+    it('prices items in US dollars by default', async () => {
+      const response = await createItemIn(undefined, { startingPrice: 19.99 });
+
+      expect(response.body).toMatchObject({ currency: 'USD', startingPrice: 19.99, minimumBid: 19.99 });
+    });
+
+    it('takes and returns amounts in the item\'s currency', async () => {
+      await createItemIn('JPY');
+
+      const bid = await request(app).post('/api/items/1/bid').set(bobAuth).send({ amount: 1000 });
+      const tooLow = await request(app).post('/api/items/1/bid').set(await authHeader(app, 'carol')).send({ amount: 1050 });
+      const bids = await request(app).get('/api/items/1/bids');
+
+      expect(bid.body).toMatchObject({ currency: 'JPY', currentBid: 1000, minimumBid: 1100 });
+      expect(tooLow.body).toMatchObject({ error: 'Bid must be at least ¥1,100', minimumBid: 1100, currency: 'JPY' });
+      expect(bids.body.bids[0]).toMatchObject({ amount: 1000, currency: 'JPY' });
+    });
+
+    it('rejects unsupported currencies and amounts finer than their minor units', async () => {
+      const unsupported = await createItemIn('XYZ');
+      const fractional = await createItemIn('JPY', { startingPrice: 1000.5, reservePrice: 1500 });
+      const tooPrecise = await createItemIn('USD', { startingPrice: 10.005 });
+
+      expect(unsupported.body.details).toEqual([
+        { field: 'currency', message: expect.stringContaining('currency must be one of') },
+      ]);
+      expect(fractional.body.details).toEqual([
+        { field: 'startingPrice', message: 'startingPrice must be a whole number for JPY' },
+      ]);
+      expect(tooPrecise.body.details).toEqual([
+        { field: 'startingPrice', message: 'startingPrice must have at most 2 decimal places for USD' },
+      ]);
+    });
+
+    it('rejects bids finer than the item\'s currency allows', async () => {
+      await createItemIn('KWD', { startingPrice: 10 });
+
+      const response = await request(app).post('/api/items/1/bid').set(bobAuth).send({ amount: 10.0005, maxAmount: 20.25 });
+
+      expect(response.status).toBe(400);
+      expect(response.body.details).toEqual([
+        { field: 'amount', message: 'amount must have at most 3 decimal places for KWD' },
+      ]);
+    });
+
+    it('filters and sorts by price within one currency', async () => {
+      await createItemIn('JPY', { title: 'Yen Teapot', startingPrice: 5000 });
+      await createItemIn('USD', { title: 'Dollar Teapot', startingPrice: 60 });
+      await createItemIn('JPY', { title: 'Cheap Yen Teapot', startingPrice: 60 });
+
+      const inDollars = await request(app).get('/api/items').query({ currency: 'USD', minPrice: '50' });
+      const inYen = await request(app).get('/api/items').query({ currency: 'JPY', sort: 'price', order: 'desc' });
+      const mixed = await request(app).get('/api/items').query({ minPrice: '50' });
+      const mixedSort = await request(app).get('/api/items').query({ sort: 'price' });
+
+      expect(inDollars.body.items.map((item: { title: string }) => item.title)).toEqual(['Dollar Teapot']);
+      expect(inYen.body.items.map((item: { title: string }) => item.title)).toEqual(['Yen Teapot', 'Cheap Yen Teapot']);
+      for (const response of [mixed, mixedSort]) {
+        expect(response.status).toBe(400);
+        expect(response.body).toMatchObject({
+          code: 'VALIDATION_FAILED',
+          details: [{ field: 'currency', message: 'currency is required with minPrice, maxPrice or sort=price' }],
+        });
+      }
     });
   });
 });
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import request from 'supertest';
+import { Express } from 'express';
+import { createApp } from '../../src/server/app.js';
+import { createMemoryStore } from '../../src/domain/store.js';
+import { authHeader } from './helpers.js';
+
+describe('Watchlist and Notifications API', () => {
+  let app: Express;
+
+  beforeEach(async () => {
+    app = createApp({ store: createMemoryStore() });
+    await request(app).post('/api/items').set(await authHeader(app, 'seller')).send({
+      title: 'Brass Lamp',
+      description: 'Watched',
+      startingPrice: 100,
+      endsAt: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+    });
+  });
+
+  async function bid(username: string, amount: number) {
+    return request(app).post('/api/items/1/bid').set(await authHeader(app, username)).send({ amount });
+  }
+
+  describe('watchlist', () => {
+    it('watches, lists and unwatches items', async () => {
+      const auth = await authHeader(app, 'alice');
+
+      const watched = await request(app).post('/api/watchlist/1').set(auth);
+      const list = await request(app).get('/api/watchlist').set(auth);
+      const removed = await request(app).delete('/api/watchlist/1').set(auth);
+      const after = await request(app).get('/api/watchlist').set(auth);
+
+      expect(watched.status).toBe(201);
+      expect(watched.body).toMatchObject({ watcherId: 'alice', itemId: '1' });
+      expect(list.body.map((item: { title: string }) => item.title)).toEqual(['Brass Lamp']);
+      expect(list.body[0]).not.toHaveProperty('reservePrice');
+      expect(removed.status).toBe(204);
+      expect(after.body).toEqual([]);
+    });
+
+    it('returns 404 for unknown items and items not watched', async () => {
+      const auth = await authHeader(app, 'alice');
+
+      const unknown = await request(app).post('/api/watchlist/999').set(auth);
+      const notWatched = await request(app).delete('/api/watchlist/1').set(auth);
+
+      expect(unknown.status).toBe(404);
+      expect(notWatched.status).toBe(404);
+      expect(notWatched.body.error).toBe('Item is not on your watchlist');
+    });
+
+    it('requires a session', async () => {
+      const response = await request(app).get('/api/watchlist');
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('notifications', () => {
+    it('delivers outbid messages with an unread count', async () => {
+      await bid('alice', 150);
+      await bid('bob', 200);
+
+      const response = await request(app).get('/api/notifications').set(await authHeader(app, 'alice'));
+
+      expect(response.status).toBe(200);
+      expect(response.body.unreadCount).toBe(1);
+      expect(response.body.notifications[0]).toMatchObject({
+        recipientId: 'alice',
+        type: 'outbid',
+        itemId: '1',
+        readAt: null,
+      });
+    });
+
+    it('marks one or all notifications read', async () => {
+      await bid('alice', 150);
+      await bid('bob', 200);
+      await bid('alice', 250);
+      await bid('bob', 300);
+      const auth = await authHeader(app, 'alice');
+      const { body } = await request(app).get('/api/notifications').set(auth);
+
+      const one = await request(app).post(`/api/notifications/${body.notifications[0].id}/read`).set(auth);
+      const afterOne = await request(app).get('/api/notifications').set(auth);
+      const all = await request(app).post('/api/notifications/read').set(auth);
+      const afterAll = await request(app).get('/api/notifications').set(auth);
+
+      expect(one.status).toBe(200);
+      expect(one.body.readAt).not.toBeNull();
+      expect(afterOne.body.unreadCount).toBe(1);
+      expect(all.status).toBe(204);
+      expect(afterAll.body.unreadCount).toBe(0);
+    });
+
+    it("returns 404 for another user's notification", async () => {
+      await bid('alice', 150);
+      await bid('bob', 200);
+
+      const response = await request(app).post('/api/notifications/1/read').set(await authHeader(app, 'bob'));
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('Notification not found');
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import request from 'supertest';
+import { Express } from 'express';
+import { createApp } from '../../src/server/app.js';
+import { Store, createMemoryStore } from '../../src/domain/store.js';
+import { createDeadlineScheduler, DeadlineScheduler } from '../../src/domain/scheduler.js';
+import { clearEvents } from '../../src/domain/events.js';
+import { createFakeClock, FakeClock } from '../../src/domain/time.js';
+import { authHeader } from './helpers.js';
+
+describe('Test Clock API', () => {
+  let store: Store;
+  let clock: FakeClock;
+  let app: Express;
+  let scheduler: DeadlineScheduler;
+
+  beforeEach(() => {
+    clearEvents();
+    store = createMemoryStore();
+    clock = createFakeClock(new Date('2026-01-20T12:00:00Z'));
+    app = createApp({ store, clock });
+    scheduler = createDeadlineScheduler(store, clock);
+    scheduler.start();
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    clearEvents();
+  });
+
+  it('reports the fake time', async () => {
+    const response = await request(app).get('/__test/clock');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ now: '2026-01-20T12:00:00.000Z' });
+  });
+
+  it('sets the time', async () => {
+    const response = await request(app).post('/__test/clock').send({ now: '2026-01-21T08:00:00Z' });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ now: '2026-01-21T08:00:00.000Z' });
+    expect(clock.now()).toEqual(new Date('2026-01-21T08:00:00Z'));
+  });
+
+  it('advances the time and fires due deadlines', async () => {
+    await request(app).post('/api/items').set(await authHeader(app, 'seller')).send({
+      title: 'Time Travel Item',
+      description: 'Closes when the clock moves',
+      startingPrice: 100,
+      endsAt: '2026-01-20T12:30:00Z',
+    });
+
+    const response = await request(app).post('/__test/clock').send({ advanceMs: 30 * 60 * 1000 });
+
+    expect(response.body).toEqual({ now: '2026-01-20T12:30:00.000Z' });
+    expect(store.getItem('1')).toMatchObject({
+      status: 'closed',
+      closedAt: new Date('2026-01-20T12:30:00Z'),
+    });
+  });
+
+  it('returns 400 unless exactly one change is given', async () => {
+    const neither = await request(app).post('/__test/clock').send({});
+    const both = await request(app).post('/__test/clock').send({ now: '2026-01-21T08:00:00Z', advanceMs: 1000 });
+
+    expect(neither.status).toBe(400);
+    expect(both.status).toBe(400);
+    expect(both.body.error).toBe('Provide either now or advanceMs');
+  });
+
+  it('returns 400 for invalid values', async () => {
+    const badDate = await request(app).post('/__test/clock').send({ now: 'tomorrow' });
+    const negative = await request(app).post('/__test/clock').send({ advanceMs: -1 });
+
+    expect(badDate.body.error).toBe('now must be a valid ISO date string');
+    expect(negative.body.error).toBe('advanceMs must be a non-negative number');
+  });
+
+  it('is not mounted with the real clock', async () => {
+    const realApp = createApp({ store: createMemoryStore() });
+
+    const response = await request(realApp).post('/__test/clock').send({ advanceMs: 1000 });
+
+    expect(response.status).toBe(404);
+  });
+});
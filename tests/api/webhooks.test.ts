@@ -0,0 +1,220 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import request from 'supertest';
+import { Express } from 'express';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { createApp } from '../../src/server/app.js';
+import { Store, createMemoryStore } from '../../src/domain/store.js';
+import { clearEvents } from '../../src/domain/events.js';
+import { createFakeClock, FakeClock } from '../../src/domain/time.js';
+import { signPayload, RETRY_BASE_MS } from '../../src/domain/webhooks.js';
+import { createWebhookDispatcher, WebhookDispatcher } from '../../src/server/webhooks.js';
+import { authHeader } from './helpers.js';
+
+// Request as seen by the local receiver
+interface Received {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+/**
+ * Wait until a condition holds, polling briefly
+ */
+async function waitFor(condition: () => boolean): Promise<void> {
+  for (let i = 0; i < 100 && !condition(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+  expect(condition()).toBe(true);
+}
+
+describe('Webhooks API', () => {
+  let store: Store;
+  let clock: FakeClock;
+  let dispatcher: WebhookDispatcher;
+  let app: Express;
+  let receiver: http.Server;
+  let receiverUrl: string;
+  let received: Received[];
+  let responseStatuses: number[]; // consumed per request; 200 once empty
+
+  beforeEach(async () => {
+    clearEvents();
+    received = [];
+    responseStatuses = [];
+    receiver = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = responseStatuses.shift() ?? 200;
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => receiver.listen(0, '127.0.0.1', resolve));
+    receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hooks`;
+
+    store = createMemoryStore();
+    clock = createFakeClock(new Date());
+    dispatcher = createWebhookDispatcher(store, clock, { allowPrivateHosts: true });
+    dispatcher.start();
+    app = createApp({ store, clock, webhooks: dispatcher });
+  });
+
+  afterEach(async () => {
+    dispatcher.stop();
+    clearEvents();
+    await new Promise(resolve => receiver.close(resolve));
+  });
+
+  async function register(events?: string[]) {
+    return request(app).post('/api/webhooks').set(await authHeader(app, 'fulfilment')).send({ url: receiverUrl, events });
+  }
+
+  async function createListing() {
+    return request(app).post('/api/items').set(await authHeader(app, 'seller')).send({
+      title: 'Brass Lamp',
+      description: 'Delivered',
+      startingPrice: 100,
+      reservePrice: 500,
+      endsAt: new Date(clock.now().getTime() + 60 * 60 * 1000).toISOString(),
+    });
+  }
+
+  it('registers webhooks and only shows the secret once', async () => {
+    const created = await register(['item.closed']);
+    const list = await request(app).get('/api/webhooks').set(await authHeader(app, 'fulfilment'));
+
+    expect(created.status).toBe(201);
+    expect(created.body).toMatchObject({ id: '1', url: receiverUrl, events: ['item.closed'] });
+    expect(created.body.secret).toMatch(/^whsec_/);
+    const { secret: _secret, ...publicWebhook } = created.body;
+    expect(list.body).toEqual([publicWebhook]);
+  });
+
+  it('returns 400 for invalid registrations', async () => {
+    const auth = await authHeader(app, 'fulfilment');
+
+    const badUrl = await request(app).post('/api/webhooks').set(auth).send({ url: 'ftp://example.com' });
+    const badEvents = await request(app).post('/api/webhooks').set(auth).send({ url: receiverUrl, events: ['item.deleted'] });
+
+    expect(badUrl.body.error).toBe('url must be an http or https URL');
+    expect(badEvents.body.error).toBe('events must be a non-empty list of item.created, bid.placed, item.extended, item.closed');
+  });
+
+  it('refuses loopback, private and link-local receivers by default', async () => {
+    const guarded = createApp({ store, clock });
+    const auth = await authHeader(guarded, 'fulfilment');
+
+    const urls = [
+      'http://127.0.0.1/hooks',
+      'http://localhost:4000/hooks',
+      'http://169.254.169.254/latest',
+      'http://10.0.0.5/',
+      'http://[::1]/',
+    ];
+    for (const url of urls) {
+      const response = await request(guarded).post('/api/webhooks').set(auth).send({ url });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toMatchObject({
+        code: 'VALIDATION_FAILED',
+        details: [{ field: 'url', message: 'url must not point to a loopback, private or link-local address' }],
+      });
+    }
+    expect(store.listWebhooks()).toEqual([]);
+  });
+
+  it('checks the receiver address again before each delivery', async () => {
+    await register(['item.created']);
+    dispatcher.stop();
+    const guarded = createWebhookDispatcher(store, clock);
+    guarded.start();
+
+    await createListing();
+    await waitFor(() => store.getDelivery('1')?.attempts === 1);
+    guarded.stop();
+
+    expect(received).toEqual([]);
+    expect(store.getDelivery('1')).toMatchObject({
+      status: 'pending',
+      responseStatus: null,
+      error: 'url must not point to a loopback, private or link-local address',
+    });
+  });
+
+  it('delivers signed payloads for subscribed events', async () => {
+    const { body: webhook } = await register(['item.created']);
+
+    await createListing();
+    await waitFor(() => received.length === 1);
+
+    const [{ headers, body }] = received;
+    const timestamp = Number(headers['x-webhook-timestamp']);
+    expect(headers['x-webhook-event']).toBe('item.created');
+    expect(headers['x-webhook-signature']).toBe(signPayload(webhook.secret, timestamp, body));
+    const payload = JSON.parse(body);
+    expect(payload).toMatchObject({ type: 'item.created', data: { item: { id: '1', title: 'Brass Lamp' } } });
+    expect(payload.data.item).not.toHaveProperty('reservePrice');
+  });
+
+  it('skips events the webhook did not subscribe to', async () => {
+    await register(['item.closed']);
+
+    await createListing();
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(received).toEqual([]);
+  });
+
+  it('retries failed deliveries with backoff and logs each attempt', async () => {
+    const { body: webhook } = await register(['item.created']);
+    const auth = await authHeader(app, 'fulfilment');
+    responseStatuses = [500, 503];
+
+    await createListing();
+    await waitFor(() => store.getDelivery('1')?.attempts === 1);
+    expect(store.getDelivery('1')).toMatchObject({
+      status: 'pending',
+      responseStatus: 500,
+      nextAttemptAt: new Date(clock.now().getTime() + RETRY_BASE_MS),
+    });
+
+    clock.advance(RETRY_BASE_MS);
+    await waitFor(() => store.getDelivery('1')?.attempts === 2);
+    clock.advance(RETRY_BASE_MS * 2);
+    await waitFor(() => store.getDelivery('1')?.attempts === 3);
+
+    const log = await request(app).get(`/api/webhooks/${webhook.id}/deliveries`).set(auth);
+    expect(received).toHaveLength(3);
+    expect(log.body).toHaveLength(1);
+    expect(log.body[0]).toMatchObject({ status: 'succeeded', attempts: 3, responseStatus: 200, error: null });
+  });
+
+  it('redelivers a delivery as a new one', async () => {
+    const { body: webhook } = await register(['item.created']);
+    const auth = await authHeader(app, 'fulfilment');
+
+    await createListing();
+    await waitFor(() => store.getDelivery('1')?.status === 'succeeded');
+
+    const response = await request(app)
+      .post(`/api/webhooks/${webhook.id}/deliveries/1/redeliver`)
+      .set(auth);
+
+    expect(response.status).toBe(201);
+    expect(response.body).toMatchObject({ id: '2', eventType: 'item.created', status: 'succeeded', attempts: 1 });
+    expect(received[1].body).toBe(received[0].body);
+  });
+
+  it("hides other users' webhooks", async () => {
+    const { body: webhook } = await register();
+    const other = await authHeader(app, 'someone-else');
+
+    const get = await request(app).get(`/api/webhooks/${webhook.id}`).set(other);
+    const remove = await request(app).delete(`/api/webhooks/${webhook.id}`).set(other);
+
+    expect(get.status).toBe(404);
+    expect(remove.status).toBe(404);
+    expect(store.getWebhook(webhook.id)).toBeDefined();
+  });
+});
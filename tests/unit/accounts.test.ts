@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Store, createMemoryStore } from '../../src/domain/store.js';
+import {
+  hashPassword,
+  verifyPassword,
+  registerUser,
+  authenticate,
+  createSession,
+  getSessionUser,
+  logout,
+  SESSION_TTL_MS,
+} from '../../src/domain/accounts.js';
+
+describe('Accounts', () => {
+  let store: Store;
+
+  beforeEach(() => {
+    store = createMemoryStore();
+  });
+
+  describe('password hashing', () => {
+    it('verifies the original password only', () => {
+      const hash = hashPassword('correct-horse');
+
+      expect(hash).not.toContain('correct-horse');
+      expect(verifyPassword('correct-horse', hash)).toBe(true);
+      expect(verifyPassword('wrong-horse', hash)).toBe(false);
+    });
+
+    it('salts each hash', () => {
+      expect(hashPassword('correct-horse')).not.toBe(hashPassword('correct-horse'));
+    });
+
+    it('rejects malformed hashes', () => {
+      expect(verifyPassword('correct-horse', 'not-a-hash')).toBe(false);
+    });
+  });
+
+  describe('registration and login', () => {
+    it('registers unique usernames', () => {
+      expect(registerUser(store, 'alice', 'correct-horse')?.username).toBe('alice');
+      expect(registerUser(store, 'alice', 'other-password')).toBeNull();
+    });
+
+    it('authenticates with the registered password', () => {
+      registerUser(store, 'alice', 'correct-horse');
+
+      expect(authenticate(store, 'alice', 'correct-horse')?.username).toBe('alice');
+      expect(authenticate(store, 'alice', 'wrong-horse')).toBeNull();
+      expect(authenticate(store, 'bob', 'correct-horse')).toBeNull();
+    });
+  });
+
+  describe('sessions', () => {
+    const now = new Date('2026-01-20T12:00:00Z');
+
+    it('resolves a token to its user until it expires', () => {
+      const user = registerUser(store, 'alice', 'correct-horse')!;
+      const { token, expiresAt } = createSession(store, user, now);
+
+      expect(expiresAt).toEqual(new Date(now.getTime() + SESSION_TTL_MS));
+      expect(getSessionUser(store, token, now)?.id).toBe(user.id);
+      expect(getSessionUser(store, token, expiresAt)).toBeUndefined();
+      expect(store.getSession(token)).toBeUndefined();
+    });
+
+    it('forgets a token on logout', () => {
+      const user = registerUser(store, 'alice', 'correct-horse')!;
+      const { token } = createSession(store, user, now);
+
+      logout(store, token);
+
+      expect(getSessionUser(store, token, now)).toBeUndefined();
+    });
+  });
+});
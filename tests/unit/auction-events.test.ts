@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createAuctionEvent, deleteAuctionEvent, getLotEndsAt, listLots } from '../../src/domain/auction-events.js';
+import { Store, createMemoryStore } from '../../src/domain/store.js';
+import {
+  placeBid,
+  editAuctionEvent,
+  pauseAuctionEvent,
+  resumeAuctionEvent,
+} from '../../src/domain/auctions.js';
+import { closeExpiredItems } from '../../src/domain/sweeper.js';
+import { createFakeClock } from '../../src/domain/time.js';
+import { start, at, createTestItem } from './helpers.js';
+
+describe('Auction events', () => {
+  let store: Store;
+
+  beforeEach(() => {
+    store = createMemoryStore();
+  });
+
+  function createEvent(startsAt?: Date) {
+    return createAuctionEvent(store, {
+      title: 'Spring Sale',
+      description: '',
+      startsAt: startsAt?.toISOString(),
+      firstLotEndsAt: at(60).toISOString(),
+      staggerSeconds: 60,
+    }, 'seller', start);
+  }
+
+  function addLot(eventId: string, title: string, minutes = 0) {
+    return createTestItem(store, { title, startingPrice: 10, eventId }, at(minutes));
+  }
+
+  describe('createItem', () => {
+    it('numbers lots in order and staggers their end times', () => {
+      const event = createEvent(at(30));
+
+      const first = addLot(event.id, 'Vase');
+      const second = addLot(event.id, 'Clock');
+
+      expect(first).toMatchObject({ eventId: event.id, lotNumber: 1, status: 'scheduled', startsAt: at(30), endsAt: at(60) });
+      expect(second).toMatchObject({ lotNumber: 2, endsAt: at(61) });
+      expect(getLotEndsAt(event, 10)).toEqual(at(69));
+    });
+
+    it('opens lots added after the event starts straight away', () => {
+      const event = createEvent(at(30));
+
+      expect(addLot(event.id, 'Vase', 45)).toMatchObject({ status: 'active', startsAt: null });
+    });
+  });
+
+  describe('pauseAuctionEvent and resumeAuctionEvent', () => {
+    it('stops lots taking bids or closing while paused', () => {
+      const event = createEvent();
+      addLot(event.id, 'Vase');
+      addLot(event.id, 'Clock');
+
+      pauseAuctionEvent(store, event.id, at(50));
+
+      expect(listLots(store, event.id).map(lot => lot.status)).toEqual(['paused', 'paused']);
+      expect(placeBid(store, '1', { amount: 20, bidderId: 'alice' }, at(55))).toBeNull();
+      expect(closeExpiredItems(store, createFakeClock(at(90)))).toBe(0);
+      expect(pauseAuctionEvent(store, event.id, at(55))).toBeNull();
+    });
+
+    it('moves every remaining deadline back by the time spent paused', () => {
+      const event = createEvent(at(30));
+      addLot(event.id, 'Vase');
+
+      pauseAuctionEvent(store, event.id, at(20));
+      const resumed = resumeAuctionEvent(store, event.id, at(35));
+
+      expect(resumed).toMatchObject({ pausedAt: null, startsAt: at(45), firstLotEndsAt: at(75) });
+      expect(store.getItem('1')).toMatchObject({ status: 'scheduled', startsAt: at(45), endsAt: at(75) });
+      expect(addLot(event.id, 'Clock', 36).endsAt).toEqual(at(76));
+    });
+
+    it('leaves lots that have already ended to close', () => {
+      const event = createEvent();
+      addLot(event.id, 'Vase');
+      addLot(event.id, 'Clock');
+
+      pauseAuctionEvent(store, event.id, at(60.5));
+
+      expect(listLots(store, event.id).map(lot => lot.status)).toEqual(['active', 'paused']);
+    });
+  });
+
+  describe('editAuctionEvent', () => {
+    it('reschedules open lots until one gets a bid', () => {
+      const event = createEvent();
+      addLot(event.id, 'Vase');
+      addLot(event.id, 'Clock');
+
+      editAuctionEvent(store, event.id, { staggerSeconds: 120 }, at(1));
+      expect(store.getItem('2')?.endsAt).toEqual(at(62));
+
+      placeBid(store, '1', { amount: 20, bidderId: 'alice' }, at(2));
+      expect(editAuctionEvent(store, event.id, { staggerSeconds: 60 }, at(3))).toBeNull();
+      expect(editAuctionEvent(store, event.id, { title: 'Summer Sale' }, at(3))?.title).toBe('Summer Sale');
+    });
+  });
+
+  describe('deleteAuctionEvent', () => {
+    it('only deletes events without lots', () => {
+      const event = createEvent();
+      const empty = createEvent();
+      addLot(event.id, 'Vase');
+
+      expect(deleteAuctionEvent(store, event.id)).toBe(false);
+      expect(deleteAuctionEvent(store, empty.id)).toBe(true);
+      expect(store.listAuctionEvents().map(e => e.id)).toEqual([event.id]);
+    });
+  });
+});
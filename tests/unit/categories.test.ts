@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Store, createMemoryStore } from '../../src/domain/store.js';
+import { createItem } from '../../src/domain/auctions.js';
+import {
+  normalizeTags,
+  validateTags,
+  createCategory,
+  renameCategory,
+  deleteCategory,
+} from '../../src/domain/categories.js';
+
+describe('Categories and tags', () => {
+  let store: Store;
+
+  beforeEach(() => {
+    store = createMemoryStore();
+  });
+
+  describe('tags', () => {
+    it('normalizes case, whitespace and duplicates', () => {
+      expect(normalizeTags([' Vintage', 'vintage', 'BRASS', ''])).toEqual(['vintage', 'brass']);
+    });
+
+    it('validates shape, count and characters', () => {
+      expect(validateTags(['vintage', 'mid-century'])).toBeNull();
+      expect(validateTags('vintage')).toBe('tags must be an array of strings');
+      expect(validateTags(Array.from({ length: 11 }, (_, i) => `tag-${i}`))).toBe('tags must have at most 10 entries');
+      expect(validateTags(['two words'])).toBe('tags must be 1-30 letters, digits or dashes');
+    });
+  });
+
+  describe('categories', () => {
+    it('keeps names unique ignoring case', () => {
+      const tools = createCategory(store, ' Tools ', 'alice')!;
+
+      expect(tools.name).toBe('Tools');
+      expect(createCategory(store, 'TOOLS', 'alice')).toBeNull();
+      expect(renameCategory(store, tools, 'tools')?.name).toBe('tools');
+      createCategory(store, 'Art', 'alice');
+      expect(renameCategory(store, tools, 'art')).toBeNull();
+    });
+
+    it('only deletes categories no item uses', () => {
+      const tools = createCategory(store, 'Tools', 'alice')!;
+      createItem(store, {
+        title: 'Hammer',
+        description: 'Claw',
+        startingPrice: 10,
+        endsAt: '2026-01-20T12:00:00Z',
+        categoryId: tools.id,
+      }, 'seller');
+      const art = createCategory(store, 'Art', 'alice')!;
+
+      expect(deleteCategory(store, tools.id)).toBe(false);
+      expect(deleteCategory(store, art.id)).toBe(true);
+      expect(store.listCategories().map(category => category.name)).toEqual(['Tools']);
+    });
+  });
+});
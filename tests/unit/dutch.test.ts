@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { getDutchPrice, getDutchEndsAt, validateDutchSchedule } from '../../src/domain/dutch.js';
+import { Store, createMemoryStore } from '../../src/domain/store.js';
+import { placeBid } from '../../src/domain/auctions.js';
+import { start, at, usd, createTestItem } from './helpers.js';
+
+describe('Dutch auctions', () => {
+  const schedule = { floorPrice: 40, dropAmount: 15, dropIntervalSeconds: 600 };
+  let store: Store;
+
+  beforeEach(() => {
+    store = createMemoryStore();
+  });
+
+  describe('getDutchPrice', () => {
+    it('drops once per interval and stops at the floor', () => {
+      const item = createTestItem(store, { auctionType: 'dutch', dutch: schedule });
+
+      expect(getDutchPrice(item, at(0))).toEqual(usd(100));
+      expect(getDutchPrice(item, at(9))).toEqual(usd(100));
+      expect(getDutchPrice(item, at(10))).toEqual(usd(85));
+      expect(getDutchPrice(item, at(30))).toEqual(usd(55));
+      expect(getDutchPrice(item, at(40))).toEqual(usd(40));
+      expect(getDutchPrice(item, at(500))).toEqual(usd(40));
+    });
+
+    it('drops in exact minor units', () => {
+      const item = createTestItem(store, {
+        startingPrice: 1,
+        auctionType: 'dutch',
+        dutch: { floorPrice: 0.1, dropAmount: 0.3, dropIntervalSeconds: 600 },
+      });
+
+      expect(getDutchPrice(item, at(30))).toEqual(usd(0.1));
+      expect(getDutchPrice(item, at(20))).toEqual(usd(0.4));
+    });
+
+    it('counts from startsAt for scheduled items', () => {
+      const item = createTestItem(store, {
+        startsAt: at(60).toISOString(),
+        auctionType: 'dutch',
+        dutch: schedule,
+      });
+
+      expect(getDutchPrice(item, at(30))).toEqual(usd(100));
+      expect(getDutchPrice(item, at(70))).toEqual(usd(85));
+    });
+  });
+
+  describe('getDutchEndsAt', () => {
+    it('ends when the price reaches the floor', () => {
+      // 100 -> 85 -> 70 -> 55 -> 40: four drops
+      const moneySchedule = { ...schedule, floorPrice: usd(40), dropAmount: usd(15) };
+
+      expect(getDutchEndsAt(usd(100), moneySchedule, start)).toEqual(at(40));
+      expect(createTestItem(store, { auctionType: 'dutch', dutch: schedule }).endsAt).toEqual(at(40));
+    });
+  });
+
+  describe('validateDutchSchedule', () => {
+    it('accepts a valid schedule', () => {
+      expect(validateDutchSchedule(schedule, 100, 'USD')).toBeNull();
+    });
+
+    it('rejects malformed schedules', () => {
+      expect(validateDutchSchedule('fast', 100, 'USD')).toBe('dutch must be an object');
+      expect(validateDutchSchedule({ ...schedule, floorPrice: 100 }, 100, 'USD')).toBe(
+        'dutch.floorPrice must be less than startingPrice'
+      );
+      expect(validateDutchSchedule({ ...schedule, dropAmount: 0 }, 100, 'USD')).toBe(
+        'dutch.dropAmount must be a positive number'
+      );
+      expect(validateDutchSchedule({ ...schedule, dropAmount: 0.5 }, 100, 'JPY')).toBe(
+        'dutch.dropAmount must be a whole number for JPY'
+      );
+      expect(validateDutchSchedule({ ...schedule, dropIntervalSeconds: 1.5 }, 100, 'USD')).toBe(
+        'dutch.dropIntervalSeconds must be a positive integer'
+      );
+    });
+  });
+
+  describe('placeBid', () => {
+    it('sells to the first bid meeting the price, at that price', () => {
+      createTestItem(store, { auctionType: 'dutch', dutch: schedule });
+
+      const result = placeBid(store, '1', { amount: 90, bidderId: 'alice' }, at(12));
+
+      expect(result?.winning).toBe(true);
+      expect(result?.item).toMatchObject({ status: 'closed', outcome: 'sold', winnerId: 'alice', winningBid: usd(85) });
+      expect(placeBid(store, '1', { amount: 90, bidderId: 'bob' }, at(13))).toBeNull();
+    });
+
+    it('rejects bids below the current price', () => {
+      createTestItem(store, { auctionType: 'dutch', dutch: schedule });
+
+      expect(placeBid(store, '1', { amount: 80, bidderId: 'alice' }, at(12))).toBeNull();
+      expect(store.getItem('1')?.bidCount).toBe(0);
+    });
+  });
+});
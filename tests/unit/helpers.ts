@@ -0,0 +1,35 @@
+import { Store } from '../../src/domain/store.js';
+import { createItem } from '../../src/domain/auctions.js';
+import { Item, CreateItemInput } from '../../src/domain/types.js';
+import { Money, toMoney } from '../../src/domain/money.js';
+
+// When test items are listed, unless a test says otherwise
+export const start = new Date('2026-01-20T12:00:00Z');
+
+/**
+ * Minutes after start
+ */
+export function at(minutes: number): Date {
+  return new Date(start.getTime() + minutes * 60 * 1000);
+}
+
+/**
+ * A US dollar amount as Money
+ */
+export function usd(amount: number): Money {
+  return toMoney(amount, 'USD');
+}
+
+/**
+ * List an item for 'seller' at `createdAt`, ending an hour after start
+ * unless the overrides say otherwise
+ */
+export function createTestItem(store: Store, overrides: Partial<CreateItemInput> = {}, createdAt: Date = start): Item {
+  return createItem(store, {
+    title: 'Test Item',
+    description: '',
+    startingPrice: 100,
+    endsAt: at(60).toISOString(),
+    ...overrides,
+  }, 'seller', createdAt);
+}
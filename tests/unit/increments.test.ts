@@ -0,0 +1,94 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  getIncrement,
+  validateIncrementTable,
+  setDefaultIncrementTable,
+  resetDefaultIncrementTable,
+  DEFAULT_INCREMENT_TABLE,
+} from '../../src/domain/increments.js';
+import { toMoney } from '../../src/domain/money.js';
+import { usd } from './helpers.js';
+
+describe('bid increments', () => {
+  afterEach(() => {
+    resetDefaultIncrementTable();
+  });
+
+  describe('getIncrement', () => {
+    it('uses the default table tiers', () => {
+      expect(getIncrement(usd(10))).toEqual(usd(1));
+      expect(getIncrement(usd(49.99))).toEqual(usd(1));
+      expect(getIncrement(usd(50))).toEqual(usd(5));
+      expect(getIncrement(usd(499))).toEqual(usd(5));
+      expect(getIncrement(usd(500))).toEqual(usd(25));
+      expect(getIncrement(usd(10000))).toEqual(usd(25));
+    });
+
+    it('uses a per-item table when given', () => {
+      const table = [
+        { below: 100, increment: 10 },
+        { below: null, increment: 50 },
+      ];
+
+      expect(getIncrement(usd(10), table)).toEqual(usd(10));
+      expect(getIncrement(usd(100), table)).toEqual(usd(50));
+    });
+
+    it('uses the configured global table', () => {
+      setDefaultIncrementTable([{ below: null, increment: 2 }]);
+
+      expect(getIncrement(usd(1000))).toEqual(usd(2));
+    });
+
+    it('scales the default table for the price\'s currency', () => {
+      expect(getIncrement(toMoney(1000, 'JPY'))).toEqual(toMoney(100, 'JPY'));
+      expect(getIncrement(toMoney(10000, 'JPY'))).toEqual(toMoney(500, 'JPY'));
+      expect(getIncrement(toMoney(100000, 'JPY'))).toEqual(toMoney(2500, 'JPY'));
+      expect(getIncrement(toMoney(24.999, 'KWD'))).toEqual(toMoney(0.5, 'KWD'));
+      expect(getIncrement(toMoney(40, 'EUR'))).toEqual(toMoney(1, 'EUR'));
+    });
+
+    it('uses a per-item table as given in any currency', () => {
+      expect(getIncrement(toMoney(1000, 'JPY'), [{ below: null, increment: 10 }])).toEqual(toMoney(10, 'JPY'));
+    });
+  });
+
+  describe('validateIncrementTable', () => {
+    it('accepts the default table', () => {
+      expect(validateIncrementTable(DEFAULT_INCREMENT_TABLE, 'USD')).toBeNull();
+    });
+
+    it('rejects an empty table', () => {
+      expect(validateIncrementTable([], 'USD')).toBe('incrementTable must be a non-empty array');
+    });
+
+    it('rejects non-positive increments', () => {
+      expect(validateIncrementTable([{ below: null, increment: 0 }], 'USD')).toBe(
+        'incrementTable increments must be positive numbers'
+      );
+    });
+
+    it('rejects bounds that do not increase', () => {
+      expect(validateIncrementTable([
+        { below: 100, increment: 1 },
+        { below: 50, increment: 5 },
+        { below: null, increment: 10 },
+      ], 'USD')).toBe('incrementTable bounds must be increasing positive numbers');
+    });
+
+    it('rejects amounts finer than the currency allows', () => {
+      expect(validateIncrementTable([{ below: null, increment: 0.5 }], 'JPY')).toBe(
+        'incrementTable increments must be a whole number for JPY'
+      );
+      expect(validateIncrementTable([{ below: 10.005, increment: 1 }, { below: null, increment: 5 }], 'USD')).toBe(
+        'incrementTable bounds must have at most 2 decimal places for USD'
+      );
+    });
+
+    it('requires the last tier to be unbounded', () => {
+      expect(validateIncrementTable([{ below: 100, increment: 1 }], 'USD')).toBe(
+        'the last incrementTable tier must have below: null'
+      );
+    });
+  });
+});
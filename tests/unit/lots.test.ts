@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { allocateUnits, getClearingPrice, getLotMinimumBid } from '../../src/domain/lots.js';
+import { Store, createMemoryStore } from '../../src/domain/store.js';
+import { placeBid, closeItem } from '../../src/domain/auctions.js';
+import { LotPricing } from '../../src/domain/types.js';
+import { at, usd, createTestItem } from './helpers.js';
+
+describe('Multi-unit lots', () => {
+  let store: Store;
+
+  beforeEach(() => {
+    store = createMemoryStore();
+  });
+
+  function createLot(lotPricing: LotPricing = 'uniform') {
+    return createTestItem(store, { title: 'Wine', startingPrice: 20, quantity: 10, lotPricing });
+  }
+
+  function bid(bidderId: string, amount: number, quantity: number, minutes: number) {
+    return placeBid(store, '1', { amount, quantity, bidderId }, at(minutes));
+  }
+
+  describe('allocateUnits', () => {
+    it('fills the highest bids first and partly fills the last', () => {
+      const item = createLot('pay_as_bid');
+      bid('alice', 30, 4, 1);
+      bid('bob', 25, 5, 2);
+      bid('carol', 22, 3, 3);
+
+      expect(allocateUnits(item, store.listBids('1'))).toEqual([
+        { bidderId: 'alice', quantity: 4, price: usd(30) },
+        { bidderId: 'bob', quantity: 5, price: usd(25) },
+        { bidderId: 'carol', quantity: 1, price: usd(22) },
+      ]);
+    });
+
+    it('charges every winner the clearing price under uniform pricing', () => {
+      const item = createLot('uniform');
+      bid('alice', 30, 4, 1);
+      bid('bob', 25, 8, 2);
+
+      expect(allocateUnits(item, store.listBids('1'))).toEqual([
+        { bidderId: 'alice', quantity: 4, price: usd(25) },
+        { bidderId: 'bob', quantity: 6, price: usd(25) },
+      ]);
+    });
+  });
+
+  describe('placeBid', () => {
+    it('tracks the clearing price and minimum bid as units fill', () => {
+      createLot();
+
+      bid('alice', 30, 6, 1);
+      const partlyFilled = store.getItem('1')!;
+      expect(getClearingPrice(partlyFilled)).toEqual(usd(30));
+      expect(getLotMinimumBid(partlyFilled)).toEqual(usd(20));
+
+      const result = bid('bob', 25, 4, 2);
+      expect(result?.winning).toBe(true);
+      expect(result?.item.currentBid).toEqual(usd(25));
+      expect(getLotMinimumBid(result!.item)).toEqual(usd(26));
+    });
+
+    it("replaces a bidder's earlier bid and tells squeezed-out bidders", () => {
+      createLot();
+      bid('alice', 30, 6, 1);
+      bid('bob', 25, 4, 2);
+
+      bid('alice', 40, 10, 3);
+
+      expect(store.getItem('1')?.allocations).toEqual([{ bidderId: 'alice', quantity: 10, price: usd(40) }]);
+      expect(store.listNotifications('bob').map(n => n.type)).toEqual(['outbid']);
+    });
+
+    it('rejects bids for more units than the lot has', () => {
+      createLot();
+
+      expect(bid('alice', 30, 11, 1)).toBeNull();
+    });
+  });
+
+  describe('closeItem', () => {
+    it('settles every allocation and tells each winner their share', () => {
+      createLot('pay_as_bid');
+      bid('alice', 30, 4, 1);
+      bid('bob', 25, 8, 2);
+
+      const closed = closeItem(store, '1', at(60));
+
+      expect(closed).toMatchObject({ outcome: 'sold', winnerId: 'alice', winningBid: usd(30) });
+      expect(closed?.allocations).toEqual([
+        { bidderId: 'alice', quantity: 4, price: usd(30) },
+        { bidderId: 'bob', quantity: 6, price: usd(25) },
+      ]);
+      expect(store.listNotifications('bob')[0].message).toBe('You won 6 of 10 units of "Wine" at $25.00 each');
+    });
+  });
+});
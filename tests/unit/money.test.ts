@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { toMoney, toMajorUnits, formatMoney, validatePrecision } from '../../src/domain/money.js';
+
+describe('money', () => {
+  describe('toMoney and toMajorUnits', () => {
+    it('converts between decimal amounts and minor units', () => {
+      expect(toMoney(19.99, 'USD')).toEqual({ amount: 1999, currency: 'USD' });
+      expect(toMoney(1250, 'JPY')).toEqual({ amount: 1250, currency: 'JPY' });
+      expect(toMoney(1.005, 'KWD')).toEqual({ amount: 1005, currency: 'KWD' });
+      expect(toMajorUnits({ amount: 1999, currency: 'USD' })).toBe(19.99);
+      expect(toMajorUnits({ amount: 1005, currency: 'KWD' })).toBe(1.005);
+    });
+
+    it('keeps sums exact', () => {
+      const sum = toMoney(0.1, 'USD').amount + toMoney(0.2, 'USD').amount;
+
+      expect(toMajorUnits({ amount: sum, currency: 'USD' })).toBe(0.3);
+    });
+  });
+
+  describe('validatePrecision', () => {
+    it('accepts amounts that fit the currency', () => {
+      expect(validatePrecision(10.5, 'amount', 'USD')).toBeNull();
+      expect(validatePrecision(1.125, 'amount', 'BHD')).toBeNull();
+      expect(validatePrecision(1e21, 'amount', 'JPY')).toBeNull();
+    });
+
+    it('rejects amounts finer than the minor unit', () => {
+      expect(validatePrecision(10.005, 'amount', 'USD')).toBe('amount must have at most 2 decimal places for USD');
+      expect(validatePrecision(100.5, 'amount', 'JPY')).toBe('amount must be a whole number for JPY');
+      expect(validatePrecision(1e-7, 'amount', 'USD')).toBe('amount must have at most 2 decimal places for USD');
+    });
+  });
+
+  describe('formatMoney', () => {
+    it('formats with the currency symbol and digits', () => {
+      expect(formatMoney({ amount: 125000, currency: 'USD' })).toBe('$1,250.00');
+      expect(formatMoney({ amount: 1250, currency: 'JPY' })).toBe('¥1,250');
+    });
+  });
+});
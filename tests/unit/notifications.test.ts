@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Store, createMemoryStore } from '../../src/domain/store.js';
+import { createItem, placeBid, closeItem } from '../../src/domain/auctions.js';
+import { watchItem, unwatchItem, markNotificationRead, markAllNotificationsRead } from '../../src/domain/notifications.js';
+import { notifyEndingItems } from '../../src/domain/sweeper.js';
+import { createFakeClock, FakeClock } from '../../src/domain/time.js';
+
+describe('Watchlists and notifications', () => {
+  let store: Store;
+  let clock: FakeClock;
+
+  beforeEach(() => {
+    store = createMemoryStore();
+    clock = createFakeClock(new Date('2026-01-20T12:00:00Z'));
+    createItem(store, {
+      title: 'Brass Lamp',
+      description: 'Watched',
+      startingPrice: 100,
+      endsAt: '2026-01-20T13:00:00Z',
+    }, 'seller', clock.now());
+  });
+
+  function messages(username: string): string[] {
+    return store.listNotifications(username).map(n => n.message);
+  }
+
+  it('tells the previous leader they were outbid', () => {
+    placeBid(store, '1', { amount: 150, bidderId: 'alice' }, clock.now());
+    placeBid(store, '1', { amount: 200, bidderId: 'bob' }, clock.now());
+
+    expect(messages('alice')).toEqual(['You were outbid on "Brass Lamp": the current bid is $200.00']);
+    expect(messages('bob')).toEqual([]);
+  });
+
+  it("doesn't notify a leader whose proxy defends the lead", () => {
+    placeBid(store, '1', { amount: 150, maxAmount: 500, bidderId: 'alice' }, clock.now());
+    placeBid(store, '1', { amount: 200, bidderId: 'bob' }, clock.now());
+
+    expect(messages('alice')).toEqual([]);
+  });
+
+  it('tells the winner when the item closes', () => {
+    placeBid(store, '1', { amount: 150, bidderId: 'alice' }, clock.now());
+
+    closeItem(store, '1', new Date('2026-01-20T13:00:00Z'));
+
+    expect(store.listNotifications('alice')[0]).toMatchObject({
+      type: 'won',
+      itemId: '1',
+      message: 'You won "Brass Lamp" for $150.00',
+    });
+  });
+
+  it('warns watchers once when the item is about to end', () => {
+    watchItem(store, 'alice', '1', clock.now());
+    watchItem(store, 'bob', '1', clock.now());
+    unwatchItem(store, 'bob', '1');
+
+    expect(notifyEndingItems(store, clock)).toBe(0);
+
+    clock.set(new Date('2026-01-20T12:50:00Z'));
+    expect(notifyEndingItems(store, clock)).toBe(1);
+    clock.set(new Date('2026-01-20T12:51:00Z'));
+    expect(notifyEndingItems(store, clock)).toBe(0);
+
+    expect(messages('alice')).toEqual(['"Brass Lamp" ends in 10 minutes']);
+    expect(messages('bob')).toEqual([]);
+  });
+
+  it('tells a late watcher the time actually left', () => {
+    clock.set(new Date('2026-01-20T12:57:30Z'));
+    watchItem(store, 'alice', '1', clock.now());
+
+    expect(notifyEndingItems(store, clock)).toBe(1);
+    expect(messages('alice')).toEqual(['"Brass Lamp" ends in 3 minutes']);
+  });
+
+  it('marks notifications read for their recipient only', () => {
+    placeBid(store, '1', { amount: 150, bidderId: 'alice' }, clock.now());
+    placeBid(store, '1', { amount: 200, bidderId: 'bob' }, clock.now());
+    placeBid(store, '1', { amount: 250, bidderId: 'alice' }, clock.now());
+    placeBid(store, '1', { amount: 300, bidderId: 'bob' }, clock.now());
+    const [latest] = store.listNotifications('alice');
+
+    expect(markNotificationRead(store, 'bob', latest.id, clock.now())).toBeNull();
+    expect(markNotificationRead(store, 'alice', latest.id, clock.now())?.readAt).toEqual(clock.now());
+    expect(markAllNotificationsRead(store, 'alice', clock.now())).toBe(1);
+    expect(store.listNotifications('alice').every(n => n.readAt !== null)).toBe(true);
+  });
+});
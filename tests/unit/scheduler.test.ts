@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createDeadlineScheduler, DeadlineScheduler } from '../../src/domain/scheduler.js';
+import { Store, createMemoryStore } from '../../src/domain/store.js';
+import { createItem, placeBid, editItem, cancelItem } from '../../src/domain/auctions.js';
+import { clearEvents } from '../../src/domain/events.js';
+import { createFakeClock, FakeClock } from '../../src/domain/time.js';
+import { VersionConflictError } from '../../src/domain/errors.js';
+
+describe('Deadline scheduler', () => {
+  let store: Store;
+  let clock: FakeClock;
+  let scheduler: DeadlineScheduler;
+
+  beforeEach(() => {
+    clearEvents();
+    store = createMemoryStore();
+    clock = createFakeClock(new Date('2026-01-20T12:00:00Z'));
+    scheduler = createDeadlineScheduler(store, clock);
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    clearEvents();
+  });
+
+  function createListing(endsAt: string, extra: { startsAt?: string; softClose?: { windowSeconds: number; extensionSeconds: number } } = {}) {
+    return createItem(store, {
+      title: 'Timed Item',
+      description: 'Closes on the dot',
+      startingPrice: 100,
+      endsAt,
+      ...extra,
+    }, 'seller');
+  }
+
+  it('closes an item exactly when it ends', () => {
+    createListing('2026-01-20T12:10:00Z');
+    scheduler.start();
+
+    clock.advance(10 * 60 * 1000 - 1);
+    expect(store.getItem('1')?.status).toBe('active');
+
+    clock.advance(1);
+    expect(store.getItem('1')).toMatchObject({
+      status: 'closed',
+      closedAt: new Date('2026-01-20T12:10:00Z'),
+    });
+  });
+
+  it('closes overdue items as soon as it starts', () => {
+    createListing('2026-01-20T11:00:00Z');
+
+    scheduler.start();
+    clock.advance(0);
+
+    expect(store.getItem('1')?.status).toBe('closed');
+  });
+
+  it('arms a single timer for the earliest deadline', () => {
+    createListing('2026-01-20T14:00:00Z');
+    createListing('2026-01-20T13:00:00Z');
+    scheduler.start();
+
+    expect(scheduler.nextDeadline()).toEqual(new Date('2026-01-20T13:00:00Z'));
+
+    clock.advance(60 * 60 * 1000);
+
+    expect(store.getItem('2')?.status).toBe('closed');
+    expect(store.getItem('1')?.status).toBe('active');
+    expect(scheduler.nextDeadline()).toEqual(new Date('2026-01-20T14:00:00Z'));
+  });
+
+  it('picks up items created after it starts', () => {
+    scheduler.start();
+    expect(scheduler.nextDeadline()).toBeNull();
+
+    createListing('2026-01-20T12:05:00Z');
+
+    expect(scheduler.nextDeadline()).toEqual(new Date('2026-01-20T12:05:00Z'));
+  });
+
+  it('starts scheduled items and then closes them', () => {
+    createListing('2026-01-20T13:00:00Z', { startsAt: '2026-01-20T12:30:00Z' });
+    scheduler.start();
+
+    clock.advance(30 * 60 * 1000);
+    expect(store.getItem('1')?.status).toBe('active');
+    expect(scheduler.nextDeadline()).toEqual(new Date('2026-01-20T13:00:00Z'));
+
+    clock.advance(30 * 60 * 1000);
+    expect(store.getItem('1')?.status).toBe('closed');
+  });
+
+  it('re-arms when a late bid extends the deadline', () => {
+    createListing('2026-01-20T12:10:00Z', { softClose: { windowSeconds: 60, extensionSeconds: 120 } });
+    scheduler.start();
+
+    clock.advance(9 * 60 * 1000 + 30 * 1000);
+    placeBid(store, '1', { amount: 150, bidderId: 'alice' }, clock.now());
+
+    clock.advance(30 * 1000);
+    expect(store.getItem('1')?.status).toBe('active');
+
+    clock.advance(120 * 1000);
+    expect(store.getItem('1')).toMatchObject({
+      status: 'closed',
+      closedAt: new Date('2026-01-20T12:12:00Z'),
+    });
+  });
+
+  it('re-arms when the seller moves the end time', () => {
+    createListing('2026-01-20T12:10:00Z');
+    scheduler.start();
+
+    editItem(store, '1', { endsAt: '2026-01-20T12:05:00Z' });
+    clock.advance(5 * 60 * 1000);
+
+    expect(store.getItem('1')?.status).toBe('closed');
+  });
+
+  it('forgets cancelled items', () => {
+    createListing('2026-01-20T12:10:00Z');
+    scheduler.start();
+
+    cancelItem(store, '1', clock.now());
+
+    expect(scheduler.nextDeadline()).toBeNull();
+  });
+
+  it('retries items modified by another writer', () => {
+    createListing('2026-01-20T12:10:00Z');
+    let conflicts = 1;
+    const racingStore: Store = {
+      ...store,
+      updateItem: item => {
+        if (conflicts-- > 0) throw new VersionConflictError(item.id);
+        return store.updateItem(item);
+      },
+    };
+    scheduler = createDeadlineScheduler(racingStore, clock);
+    scheduler.start();
+
+    clock.advance(10 * 60 * 1000);
+    expect(store.getItem('1')?.status).toBe('active');
+
+    clock.advance(1000);
+    expect(store.getItem('1')?.status).toBe('closed');
+  });
+
+  it('stops firing once stopped', () => {
+    createListing('2026-01-20T12:10:00Z');
+    scheduler.start();
+
+    scheduler.stop();
+    clock.advance(60 * 60 * 1000);
+
+    expect(store.getItem('1')?.status).toBe('active');
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { rankStandingBids, getSealedSettlement } from '../../src/domain/sealed.js';
+import { Store, createMemoryStore } from '../../src/domain/store.js';
+import { placeBid, closeItem } from '../../src/domain/auctions.js';
+import { at, usd, createTestItem } from './helpers.js';
+
+describe('Sealed-bid auctions', () => {
+  let store: Store;
+
+  beforeEach(() => {
+    store = createMemoryStore();
+  });
+
+  function bid(bidderId: string, amount: number, minutes: number) {
+    return placeBid(store, '1', { amount, bidderId }, at(minutes));
+  }
+
+  describe('rankStandingBids', () => {
+    it("keeps each bidder's latest bid, highest first, earliest first on ties", () => {
+      createTestItem(store, { auctionType: 'sealed_first_price' });
+      bid('alice', 300, 1);
+      bid('bob', 200, 2);
+      bid('carol', 200, 3);
+      bid('alice', 150, 4);
+
+      const ranked = rankStandingBids(store.listBids('1'));
+
+      expect(ranked.map(b => [b.bidderId, b.amount])).toEqual([
+        ['bob', usd(200)],
+        ['carol', usd(200)],
+        ['alice', usd(150)],
+      ]);
+    });
+  });
+
+  describe('getSealedSettlement', () => {
+    it('charges the winner their own bid in first-price auctions', () => {
+      const item = createTestItem(store, { auctionType: 'sealed_first_price' });
+      bid('alice', 300, 1);
+      bid('bob', 250, 2);
+
+      expect(getSealedSettlement(item, store.listBids('1'))).toEqual({ bidderId: 'alice', amount: usd(300) });
+    });
+
+    it('charges the runner-up bid in Vickrey auctions', () => {
+      const item = createTestItem(store, { auctionType: 'sealed_vickrey' });
+      bid('alice', 300, 1);
+      bid('bob', 250, 2);
+
+      expect(getSealedSettlement(item, store.listBids('1'))).toEqual({ bidderId: 'alice', amount: usd(250) });
+    });
+
+    it('charges a lone Vickrey bidder the starting price', () => {
+      const item = createTestItem(store, { auctionType: 'sealed_vickrey' });
+      bid('alice', 300, 1);
+
+      expect(getSealedSettlement(item, store.listBids('1'))).toEqual({ bidderId: 'alice', amount: usd(100) });
+    });
+  });
+
+  describe('placeBid and closeItem', () => {
+    it('records sealed bids without revealing the leader', () => {
+      createTestItem(store, { auctionType: 'sealed_first_price' });
+
+      const first = bid('alice', 300, 1);
+      const revised = bid('alice', 320, 2);
+
+      expect(first?.winning).toBeNull();
+      expect(revised?.item).toMatchObject({ currentBid: null, highBidderId: null, bidCount: 1 });
+      expect(bid('bob', 99, 3)).toBeNull();
+    });
+
+    it('settles and reveals the winner at close', () => {
+      createTestItem(store, { auctionType: 'sealed_vickrey' });
+      bid('alice', 300, 1);
+      bid('bob', 300, 2);
+
+      const closed = closeItem(store, '1', at(60));
+
+      expect(closed).toMatchObject({
+        status: 'closed',
+        outcome: 'sold',
+        winnerId: 'alice',
+        winningBid: usd(300),
+        currentBid: usd(300),
+        highBidderId: 'alice',
+      });
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { searchItems, encodeCursor, decodeCursor, ItemQuery } from '../../src/domain/search.js';
+import { Item } from '../../src/domain/types.js';
+import { toMoney } from '../../src/domain/money.js';
+
+describe('item search', () => {
+  function item(id: string, currentBid: number | null): Item {
+    return {
+      id,
+      title: `Item ${id}`,
+      description: '',
+      sellerId: 'seller',
+      startingPrice: toMoney(100, 'USD'),
+      reservePrice: null,
+      buyNowPrice: null,
+      currentBid: currentBid === null ? null : toMoney(currentBid, 'USD'),
+      bidCount: currentBid === null ? 0 : 1,
+      highBidderId: null,
+      startsAt: null,
+      endsAt: new Date('2026-01-20T12:00:00Z'),
+      status: 'active',
+      createdAt: new Date('2026-01-20T10:00:00Z'),
+      auctionType: 'english',
+      dutch: null,
+      quantity: 1,
+      lotPricing: null,
+      softClose: null,
+      incrementTable: null,
+      eventId: null,
+      lotNumber: null,
+      categoryId: null,
+      tags: [],
+      images: [],
+      allocations: [],
+      outcome: null,
+      winnerId: null,
+      winningBid: null,
+      closedAt: null,
+      version: 1,
+    };
+  }
+
+  const byPrice: ItemQuery = { sort: 'price', order: 'desc', limit: 2 };
+
+  describe('searchItems', () => {
+    it('breaks ties by ID in the sort direction', () => {
+      const items = [item('2', null), item('10', null), item('1', 150)];
+
+      const page = searchItems(items, byPrice);
+
+      expect(page.items.map(i => i.id)).toEqual(['1', '10']);
+    });
+
+    it('resumes after the cursor item', () => {
+      const items = [item('2', null), item('10', null), item('1', 150)];
+
+      const first = searchItems(items, byPrice);
+      const second = searchItems(items, { ...byPrice, cursor: decodeCursor(first.nextCursor!)! });
+
+      expect(second.items.map(i => i.id)).toEqual(['2']);
+      expect(second.nextCursor).toBeNull();
+    });
+  });
+
+  describe('cursors', () => {
+    it('round-trips through encodeCursor', () => {
+      const cursor = { sort: 'endsAt' as const, order: 'asc' as const, value: 1000, id: '7' };
+
+      expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor);
+    });
+
+    it('rejects strings that are not cursors', () => {
+      expect(decodeCursor('not-a-cursor')).toBeNull();
+      expect(decodeCursor(Buffer.from('{"sort":"title"}').toString('base64url'))).toBeNull();
+      expect(decodeCursor(Buffer.from('null').toString('base64url'))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,347 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Store, NewItem, createMemoryStore } from '../../src/domain/store.js';
+import { createSqliteStore } from '../../src/domain/sqlite-store.js';
+import { createItem, placeBid, closeItem } from '../../src/domain/auctions.js';
+import { VersionConflictError } from '../../src/domain/errors.js';
+import { toMoney } from '../../src/domain/money.js';
+import { usd } from './helpers.js';
+
+function newItem(overrides: Partial<NewItem> = {}): NewItem {
+  return {
+    title: 'Stored Item',
+    description: 'Persisted',
+    sellerId: 'seller',
+    startingPrice: usd(100),
+    reservePrice: null,
+    buyNowPrice: null,
+    currentBid: null,
+    bidCount: 0,
+    highBidderId: null,
+    startsAt: null,
+    endsAt: new Date('2026-01-20T12:00:00Z'),
+    status: 'active',
+    createdAt: new Date('2026-01-20T10:00:00Z'),
+    auctionType: 'english',
+    dutch: null,
+    quantity: 1,
+    lotPricing: null,
+    softClose: null,
+    incrementTable: null,
+    eventId: null,
+    lotNumber: null,
+    categoryId: null,
+    tags: [],
+    images: [],
+    allocations: [],
+    outcome: null,
+    winnerId: null,
+    winningBid: null,
+    closedAt: null,
+    ...overrides,
+  };
+}
+
+describe.each([
+  ['memory', () => createMemoryStore()],
+  ['sqlite', () => createSqliteStore(':memory:')],
+])('%s store', (_name, createStore) => {
+  let store: Store;
+
+  beforeEach(() => {
+    store = createStore();
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  it('inserts items with generated IDs and reads them back', () => {
+    const softClose = { windowSeconds: 120, extensionSeconds: 60, hardCloseAt: new Date('2026-01-20T13:00:00Z') };
+    const incrementTable = [{ below: null, increment: 10 }];
+
+    const prices = { startingPrice: toMoney(1000, 'JPY'), reservePrice: toMoney(1500, 'JPY') };
+
+    const first = store.insertItem(newItem({ softClose, incrementTable, ...prices }));
+    const second = store.insertItem(newItem({ title: 'Second' }));
+
+    expect(first.id).toBe('1');
+    expect(second.id).toBe('2');
+    expect(store.getItem('1')).toEqual({ ...newItem({ softClose, incrementTable, ...prices }), id: '1', version: 1 });
+    expect(store.listItems().map(item => item.title)).toEqual(['Stored Item', 'Second']);
+  });
+
+  it('returns undefined for unknown items', () => {
+    expect(store.getItem('999')).toBeUndefined();
+  });
+
+  it('returns copies that only change through updateItem', () => {
+    const item = store.insertItem(newItem());
+
+    item.status = 'closed';
+    expect(store.getItem(item.id)?.status).toBe('active');
+
+    store.updateItem(item);
+    expect(store.getItem(item.id)?.status).toBe('closed');
+  });
+
+  it('bumps the version on update and rejects stale writes', () => {
+    const item = store.insertItem(newItem());
+
+    expect(store.updateItem({ ...item, currentBid: usd(110) })).toBe(2);
+    expect(store.getItem(item.id)?.version).toBe(2);
+
+    expect(() => store.updateItem({ ...item, currentBid: usd(120) })).toThrow(VersionConflictError);
+    expect(store.getItem(item.id)).toMatchObject({ currentBid: usd(110), version: 2 });
+  });
+
+  it('stores bids per item, oldest first', () => {
+    const item = store.insertItem(newItem());
+    const other = store.insertItem(newItem());
+
+    store.insertBid({ itemId: item.id, amount: usd(110), quantity: 1, bidderId: 'a', timestamp: new Date('2026-01-20T10:00:00Z'), isAutomatic: false });
+    store.insertBid({ itemId: other.id, amount: usd(500), quantity: 1, bidderId: 'b', timestamp: new Date('2026-01-20T10:01:00Z'), isAutomatic: false });
+    store.insertBid({ itemId: item.id, amount: usd(120), quantity: 1, bidderId: 'c', timestamp: new Date('2026-01-20T10:02:00Z'), isAutomatic: true });
+
+    expect(store.listBids(item.id)).toEqual([
+      { id: '1', itemId: item.id, amount: usd(110), quantity: 1, bidderId: 'a', timestamp: new Date('2026-01-20T10:00:00Z'), isAutomatic: false },
+      { id: '3', itemId: item.id, amount: usd(120), quantity: 1, bidderId: 'c', timestamp: new Date('2026-01-20T10:02:00Z'), isAutomatic: true },
+    ]);
+  });
+
+  it('stores private maximums per bidder', () => {
+    const item = store.insertItem(newItem());
+
+    expect(store.getMaxBid(item.id, 'a')).toBeUndefined();
+    store.setMaxBid(item.id, 'a', usd(200));
+    store.setMaxBid(item.id, 'a', usd(300));
+
+    expect(store.getMaxBid(item.id, 'a')).toEqual(usd(300));
+  });
+
+  it('stores categories and item tags', () => {
+    const createdAt = new Date('2026-01-20T10:00:00Z');
+    const tools = store.insertCategory({ name: 'Tools', creatorId: 'alice', createdAt });
+    const art = store.insertCategory({ name: 'Art', creatorId: null, createdAt });
+    const item = store.insertItem(newItem({ categoryId: tools.id, tags: ['brass', 'vintage'] }));
+
+    store.updateCategory({ ...tools, name: 'Hand Tools' });
+
+    expect(store.getItem(item.id)).toMatchObject({ categoryId: tools.id, tags: ['brass', 'vintage'] });
+    expect(store.getCategory(tools.id)).toMatchObject({ name: 'Hand Tools', creatorId: 'alice' });
+    expect(store.listCategories().map(category => category.name)).toEqual(['Art', 'Hand Tools']);
+
+    store.deleteCategory(art.id);
+    expect(store.getCategory(art.id)).toBeUndefined();
+  });
+
+  it('stores auction events and their lots', () => {
+    const event = store.insertAuctionEvent({
+      title: 'Spring Sale',
+      description: '',
+      sellerId: 'seller',
+      startsAt: null,
+      firstLotEndsAt: new Date('2026-01-20T19:00:00Z'),
+      staggerSeconds: 60,
+      pausedAt: null,
+      createdAt: new Date('2026-01-20T10:00:00Z'),
+    });
+    const lot = store.insertItem(newItem({ eventId: event.id, lotNumber: 1 }));
+
+    store.updateAuctionEvent({ ...event, pausedAt: new Date('2026-01-20T18:00:00Z') });
+
+    expect(store.getItem(lot.id)).toMatchObject({ eventId: event.id, lotNumber: 1 });
+    expect(store.listAuctionEvents()).toEqual([{ ...event, pausedAt: new Date('2026-01-20T18:00:00Z') }]);
+
+    store.deleteAuctionEvent(store.insertAuctionEvent({ ...event, title: 'Empty' }).id);
+    expect(store.listAuctionEvents().map(e => e.title)).toEqual(['Spring Sale']);
+  });
+
+  it('stores watchlists and notifications per user, newest first', () => {
+    const first = store.insertItem(newItem());
+    const second = store.insertItem(newItem({ title: 'Second' }));
+    const createdAt = new Date('2026-01-20T10:00:00Z');
+
+    store.addWatch({ watcherId: 'alice', itemId: first.id, createdAt });
+    store.addWatch({ watcherId: 'alice', itemId: second.id, createdAt });
+    store.addWatch({ watcherId: 'alice', itemId: first.id, createdAt });
+    store.addWatch({ watcherId: 'bob', itemId: first.id, createdAt });
+    store.removeWatch('bob', first.id);
+
+    expect(store.listWatches('alice').map(entry => entry.itemId)).toEqual([second.id, first.id]);
+    expect(store.listWatchers(first.id)).toEqual(['alice']);
+
+    const note = { recipientId: 'alice', type: 'outbid' as const, itemId: first.id, message: 'Outbid', createdAt, readAt: null };
+    store.insertNotification(note);
+    const latest = store.insertNotification({ ...note, type: 'won' });
+    store.updateNotification({ ...latest, readAt: createdAt });
+
+    expect(store.listNotifications('alice').map(n => [n.type, n.readAt])).toEqual([['won', createdAt], ['outbid', null]]);
+    expect(store.listNotifications('bob')).toEqual([]);
+  });
+
+  it('stores webhooks and deletes their deliveries with them', () => {
+    const item = store.insertItem(newItem());
+    const createdAt = new Date('2026-01-20T10:00:00Z');
+    const webhook = store.insertWebhook({
+      ownerId: 'alice',
+      url: 'http://localhost:4000/hooks',
+      events: ['item.closed'],
+      secret: 'whsec_test',
+      createdAt,
+    });
+    const delivery = store.insertDelivery({
+      webhookId: webhook.id,
+      eventId: 1,
+      eventType: 'item.closed',
+      payload: JSON.stringify({ itemId: item.id }),
+      status: 'pending',
+      attempts: 0,
+      responseStatus: null,
+      error: null,
+      createdAt,
+      lastAttemptAt: null,
+      nextAttemptAt: createdAt,
+    });
+
+    expect(store.getWebhook(webhook.id)).toEqual(webhook);
+    expect(store.listPendingDeliveries()).toEqual([delivery]);
+
+    store.updateDelivery({ ...delivery, status: 'succeeded', attempts: 1, responseStatus: 200, nextAttemptAt: null });
+    expect(store.listDeliveries(webhook.id)[0]).toMatchObject({ status: 'succeeded', attempts: 1 });
+    expect(store.listPendingDeliveries()).toEqual([]);
+
+    store.deleteWebhook(webhook.id);
+    expect(store.listWebhooks()).toEqual([]);
+    expect(store.getDelivery(delivery.id)).toBeUndefined();
+  });
+
+  it('stores users by ID and unique username', () => {
+    const createdAt = new Date('2026-01-20T10:00:00Z');
+    const user = store.insertUser({ username: 'alice', passwordHash: 'salt:hash', createdAt });
+
+    expect(user).toEqual({ id: '1', username: 'alice', passwordHash: 'salt:hash', createdAt });
+    expect(store.getUser('1')).toEqual(user);
+    expect(store.getUserByUsername('alice')).toEqual(user);
+    expect(store.getUserByUsername('bob')).toBeUndefined();
+    expect(() => store.insertUser({ username: 'alice', passwordHash: 'x:y', createdAt })).toThrow();
+  });
+
+  it('stores and deletes sessions by token', () => {
+    const user = store.insertUser({ username: 'alice', passwordHash: 'salt:hash', createdAt: new Date() });
+    const session = {
+      token: 'abc123',
+      userId: user.id,
+      createdAt: new Date('2026-01-20T10:00:00Z'),
+      expiresAt: new Date('2026-01-27T10:00:00Z'),
+    };
+
+    store.insertSession(session);
+    expect(store.getSession('abc123')).toEqual(session);
+
+    store.deleteSession('abc123');
+    expect(store.getSession('abc123')).toBeUndefined();
+  });
+
+  it('rolls back every write when a transaction throws', () => {
+    const item = store.insertItem(newItem());
+
+    expect(() =>
+      store.transaction(() => {
+        store.insertBid({ itemId: item.id, amount: usd(110), quantity: 1, bidderId: 'a', timestamp: new Date(), isAutomatic: false });
+        store.updateItem({ ...item, currentBid: usd(110) });
+        store.transaction(() => store.setMaxBid(item.id, 'a', usd(200)));
+        throw new Error('abort');
+      })
+    ).toThrow('abort');
+
+    expect(store.listBids(item.id)).toEqual([]);
+    expect(store.getItem(item.id)?.currentBid).toBeNull();
+    expect(store.getMaxBid(item.id, 'a')).toBeUndefined();
+  });
+
+  it('rolls back only a nested transaction that throws when the outer one catches', () => {
+    const item = store.insertItem(newItem());
+
+    store.transaction(() => {
+      store.setMaxBid(item.id, 'a', usd(200));
+      try {
+        store.transaction(() => {
+          store.setMaxBid(item.id, 'b', usd(300));
+          throw new Error('abort');
+        });
+      } catch {
+        // Keep the outer writes
+      }
+    });
+
+    expect(store.getMaxBid(item.id, 'a')).toEqual(usd(200));
+    expect(store.getMaxBid(item.id, 'b')).toBeUndefined();
+  });
+
+  it('runs the auction rules end to end', () => {
+    const item = createItem(store, {
+      title: 'Auctioned',
+      description: 'Full flow',
+      startingPrice: 100,
+      endsAt: '2026-01-20T12:00:00Z',
+    }, 'seller');
+    placeBid(store, item.id, { amount: 110, quantity: 1, bidderId: 'alice', maxAmount: 200 }, new Date('2026-01-20T10:00:00Z'));
+    placeBid(store, item.id, { amount: 150, bidderId: 'bob' }, new Date('2026-01-20T10:05:00Z'));
+    closeItem(store, item.id, new Date('2026-01-20T12:00:00Z'));
+
+    expect(store.getItem(item.id)).toMatchObject({
+      status: 'closed',
+      currentBid: usd(155),
+      bidCount: 3,
+      highBidderId: 'alice',
+      outcome: 'sold',
+      winnerId: 'alice',
+      winningBid: usd(155),
+    });
+  });
+
+  it('rejects a bid placed against a stale version without writing it', () => {
+    const item = createItem(store, {
+      title: 'Auctioned',
+      description: 'Contested',
+      startingPrice: 100,
+      endsAt: '2026-01-20T12:00:00Z',
+    }, 'seller');
+    placeBid(store, item.id, { amount: 110, quantity: 1, bidderId: 'alice' }, new Date('2026-01-20T10:00:00Z'), item.version);
+
+    expect(() =>
+      placeBid(store, item.id, { amount: 150, bidderId: 'bob' }, new Date('2026-01-20T10:05:00Z'), item.version)
+    ).toThrow(VersionConflictError);
+    expect(store.listBids(item.id)).toHaveLength(1);
+    expect(store.getMaxBid(item.id, 'bob')).toBeUndefined();
+  });
+});
+
+describe('sqlite store file', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'auction-store-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps data across reopening the same file', () => {
+    const filename = path.join(dir, 'nested', 'auction.db');
+
+    const first = createSqliteStore(filename);
+    const item = first.insertItem(newItem());
+    first.insertBid({ itemId: item.id, amount: usd(110), quantity: 1, bidderId: 'a', timestamp: new Date(), isAutomatic: false });
+    first.close();
+
+    const reopened = createSqliteStore(filename);
+    expect(reopened.getItem(item.id)?.title).toBe('Stored Item');
+    expect(reopened.listBids(item.id)).toHaveLength(1);
+    reopened.close();
+  });
+});
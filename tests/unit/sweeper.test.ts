@@ -1,24 +1,28 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import {
+  startScheduledItems,
   closeExpiredItems,
   startSweeper,
   stopSweeper,
   isSweeperRunning,
-  setSweeperClock,
-  resetSweeperClock,
 } from '../../src/domain/sweeper.js';
-import { createItem, clearItems, getItemById } from '../../src/domain/store.js';
-import { createFakeClock } from '../../src/domain/time.js';
+import { Store, createMemoryStore } from '../../src/domain/store.js';
+import { createItem, placeBid, cancelItem } from '../../src/domain/auctions.js';
+import { createFakeClock, FakeClock } from '../../src/domain/time.js';
+import { VersionConflictError } from '../../src/domain/errors.js';
+import { toMoney } from '../../src/domain/money.js';
 
 describe('Sweeper', () => {
+  let store: Store;
+  let clock: FakeClock;
+
   beforeEach(() => {
-    clearItems();
-    resetSweeperClock();
+    store = createMemoryStore();
+    clock = createFakeClock(new Date('2026-01-20T12:00:00Z'));
     stopSweeper();
   });
 
   afterEach(() => {
-    resetSweeperClock();
     stopSweeper();
   });
 
@@ -26,110 +30,242 @@ describe('Sweeper', () => {
     it('closes expired items', () => {
       // Set clock to a fixed time
       const now = new Date('2026-01-20T12:00:00Z');
-      setSweeperClock(createFakeClock(now));
+      clock.set(now);
 
       // Create an item that ended an hour ago
-      createItem({
+      createItem(store, {
         title: 'Expired Item',
         description: 'Already expired',
         startingPrice: 100,
         endsAt: '2026-01-20T11:00:00Z',
-      });
+      }, 'seller');
 
-      const closedCount = closeExpiredItems();
+      const closedCount = closeExpiredItems(store, clock);
 
       expect(closedCount).toBe(1);
-      const item = getItemById('1');
+      const item = store.getItem('1');
       expect(item?.status).toBe('closed');
     });
 
     it('does not close active items', () => {
       // Set clock to a fixed time
       const now = new Date('2026-01-20T12:00:00Z');
-      setSweeperClock(createFakeClock(now));
+      clock.set(now);
 
       // Create an item that ends in the future
-      createItem({
+      createItem(store, {
         title: 'Active Item',
         description: 'Still active',
         startingPrice: 100,
         endsAt: '2026-01-20T14:00:00Z',
-      });
+      }, 'seller');
 
-      const closedCount = closeExpiredItems();
+      const closedCount = closeExpiredItems(store, clock);
 
       expect(closedCount).toBe(0);
-      const item = getItemById('1');
+      const item = store.getItem('1');
       expect(item?.status).toBe('active');
     });
 
     it('closes multiple expired items', () => {
       // Set clock to a fixed time
       const now = new Date('2026-01-20T12:00:00Z');
-      setSweeperClock(createFakeClock(now));
+      clock.set(now);
 
       // Create multiple expired items
-      createItem({
+      createItem(store, {
         title: 'Expired 1',
         description: 'Expired',
         startingPrice: 50,
         endsAt: '2026-01-20T10:00:00Z',
-      });
-      createItem({
+      }, 'seller');
+      createItem(store, {
         title: 'Expired 2',
         description: 'Expired',
         startingPrice: 75,
         endsAt: '2026-01-20T11:00:00Z',
-      });
+      }, 'seller');
       // One active item
-      createItem({
+      createItem(store, {
         title: 'Active',
         description: 'Still active',
         startingPrice: 100,
         endsAt: '2026-01-20T14:00:00Z',
-      });
+      }, 'seller');
 
-      const closedCount = closeExpiredItems();
+      const closedCount = closeExpiredItems(store, clock);
 
       expect(closedCount).toBe(2);
-      expect(getItemById('1')?.status).toBe('closed');
-      expect(getItemById('2')?.status).toBe('closed');
-      expect(getItemById('3')?.status).toBe('active');
+      expect(store.getItem('1')?.status).toBe('closed');
+      expect(store.getItem('2')?.status).toBe('closed');
+      expect(store.getItem('3')?.status).toBe('active');
     });
 
     it('does not double-close already closed items', () => {
       // Set clock to a fixed time
       const now = new Date('2026-01-20T12:00:00Z');
-      setSweeperClock(createFakeClock(now));
+      clock.set(now);
 
       // Create an expired item
-      createItem({
+      createItem(store, {
         title: 'Expired Item',
         description: 'Expired',
         startingPrice: 100,
         endsAt: '2026-01-20T11:00:00Z',
-      });
+      }, 'seller');
 
       // First sweep
-      const firstCount = closeExpiredItems();
+      const firstCount = closeExpiredItems(store, clock);
       expect(firstCount).toBe(1);
 
       // Second sweep - should not close again
-      const secondCount = closeExpiredItems();
+      const secondCount = closeExpiredItems(store, clock);
       expect(secondCount).toBe(0);
     });
 
+    it('closes an untaken dutch item unsold at its floor time', () => {
+      createItem(store, {
+        title: 'Dutch Item',
+        description: 'Falling price',
+        startingPrice: 100,
+        auctionType: 'dutch',
+        dutch: { floorPrice: 80, dropAmount: 10, dropIntervalSeconds: 60 },
+      }, 'seller', clock.now());
+
+      // 100 -> 90 -> 80 over two minutes
+      clock.advance(2 * 60 * 1000 - 1);
+      expect(closeExpiredItems(store, clock)).toBe(0);
+
+      clock.advance(1);
+      expect(closeExpiredItems(store, clock)).toBe(1);
+      expect(store.getItem('1')).toMatchObject({ status: 'closed', outcome: 'no_bids', winnerId: null });
+    });
+
+    it('records the highest bidder as winner on close', () => {
+      const now = new Date('2026-01-20T12:00:00Z');
+      clock.set(now);
+
+      createItem(store, {
+        title: 'Sold Item',
+        description: 'Has bids',
+        startingPrice: 100,
+        endsAt: '2026-01-20T11:00:00Z',
+      }, 'seller');
+      placeBid(store, '1', { amount: 150, bidderId: 'alice' }, new Date('2026-01-20T10:00:00Z'));
+      placeBid(store, '1', { amount: 200, bidderId: 'bob' }, new Date('2026-01-20T10:30:00Z'));
+
+      closeExpiredItems(store, clock);
+
+      expect(store.getItem('1')).toMatchObject({
+        status: 'closed',
+        outcome: 'sold',
+        winnerId: 'bob',
+        winningBid: toMoney(200, 'USD'),
+        closedAt: now,
+      });
+    });
+
+    it('skips items modified by another writer during the sweep', () => {
+      createItem(store, {
+        title: 'Contested Item',
+        description: 'Changed mid-sweep',
+        startingPrice: 100,
+        endsAt: '2026-01-20T11:00:00Z',
+      }, 'seller');
+      const racingStore: Store = {
+        ...store,
+        updateItem: item => {
+          throw new VersionConflictError(item.id);
+        },
+      };
+
+      expect(closeExpiredItems(racingStore, clock)).toBe(0);
+      expect(store.getItem('1')?.status).toBe('active');
+      expect(closeExpiredItems(store, clock)).toBe(1);
+    });
+
+    it('marks items that close without bids as no_bids', () => {
+      const now = new Date('2026-01-20T12:00:00Z');
+      clock.set(now);
+
+      createItem(store, {
+        title: 'Unsold Item',
+        description: 'No bids',
+        startingPrice: 100,
+        endsAt: '2026-01-20T11:00:00Z',
+      }, 'seller');
+
+      closeExpiredItems(store, clock);
+
+      expect(store.getItem('1')).toMatchObject({
+        status: 'closed',
+        outcome: 'no_bids',
+        winnerId: null,
+        winningBid: null,
+        closedAt: now,
+      });
+    });
+
+    it('leaves cancelled items alone', () => {
+      createItem(store, {
+        title: 'Withdrawn Item',
+        description: 'Cancelled',
+        startingPrice: 100,
+        endsAt: '2026-01-20T11:00:00Z',
+      }, 'seller');
+      cancelItem(store, '1', new Date('2026-01-20T10:00:00Z'));
+
+      expect(closeExpiredItems(store, clock)).toBe(0);
+      expect(store.getItem('1')).toMatchObject({ status: 'cancelled', outcome: null });
+    });
+
     it('returns 0 when no items exist', () => {
-      const closedCount = closeExpiredItems();
+      const closedCount = closeExpiredItems(store, clock);
       expect(closedCount).toBe(0);
     });
   });
 
+  describe('startScheduledItems', () => {
+    it('starts scheduled items whose start time has passed', () => {
+      createItem(store, {
+        title: 'Due Item',
+        description: 'Should start',
+        startingPrice: 100,
+        startsAt: '2026-01-20T11:00:00Z',
+        endsAt: '2026-01-20T14:00:00Z',
+      }, 'seller');
+      createItem(store, {
+        title: 'Later Item',
+        description: 'Should wait',
+        startingPrice: 100,
+        startsAt: '2026-01-20T13:00:00Z',
+        endsAt: '2026-01-20T14:00:00Z',
+      }, 'seller');
+
+      expect(startScheduledItems(store, clock)).toBe(1);
+      expect(store.getItem('1')?.status).toBe('active');
+      expect(store.getItem('2')?.status).toBe('scheduled');
+    });
+
+    it('does not close scheduled items that have not started', () => {
+      createItem(store, {
+        title: 'Later Item',
+        description: 'Should wait',
+        startingPrice: 100,
+        startsAt: '2026-01-20T13:00:00Z',
+        endsAt: '2026-01-20T14:00:00Z',
+      }, 'seller');
+
+      expect(closeExpiredItems(store, clock)).toBe(0);
+      expect(store.getItem('1')?.status).toBe('scheduled');
+    });
+  });
+
   describe('startSweeper / stopSweeper', () => {
     it('starts and stops the sweeper', () => {
       expect(isSweeperRunning()).toBe(false);
 
-      startSweeper(1000);
+      startSweeper(store, clock, 1000);
       expect(isSweeperRunning()).toBe(true);
 
       stopSweeper();
@@ -137,8 +273,8 @@ describe('Sweeper', () => {
     });
 
     it('does not start multiple sweepers', () => {
-      startSweeper(1000);
-      startSweeper(1000); // Should not start another
+      startSweeper(store, clock, 1000);
+      startSweeper(store, clock, 1000); // Should not start another
 
       expect(isSweeperRunning()).toBe(true);
 
@@ -149,23 +285,60 @@ describe('Sweeper', () => {
     it('runs closeExpiredItems on start', () => {
       // Set clock to a fixed time
       const now = new Date('2026-01-20T12:00:00Z');
-      setSweeperClock(createFakeClock(now));
+      clock.set(now);
 
       // Create an expired item
-      createItem({
+      createItem(store, {
         title: 'Expired Item',
         description: 'Expired',
         startingPrice: 100,
         endsAt: '2026-01-20T11:00:00Z',
-      });
+      }, 'seller');
 
       // Start sweeper - should immediately close expired items
-      startSweeper(60000);
+      startSweeper(store, clock, 60000);
 
-      const item = getItemById('1');
+      const item = store.getItem('1');
       expect(item?.status).toBe('closed');
 
       stopSweeper();
     });
+
+    it('starts and then closes items whose whole window has passed', () => {
+      createItem(store, {
+        title: 'Missed Item',
+        description: 'Started and ended while down',
+        startingPrice: 100,
+        startsAt: '2026-01-20T10:00:00Z',
+        endsAt: '2026-01-20T11:00:00Z',
+      }, 'seller');
+
+      startSweeper(store, clock, 60000);
+
+      expect(store.getItem('1')).toMatchObject({ status: 'closed', outcome: 'no_bids' });
+
+      stopSweeper();
+    });
+
+    it('sweeps again each interval as the clock moves', () => {
+      createItem(store, {
+        title: 'Soon Item',
+        description: 'Ends in 90 seconds',
+        startingPrice: 100,
+        endsAt: '2026-01-20T12:01:30Z',
+      }, 'seller');
+
+      startSweeper(store, clock, 60000);
+      clock.advance(60000);
+      expect(store.getItem('1')?.status).toBe('active');
+
+      clock.advance(60000);
+      expect(store.getItem('1')).toMatchObject({
+        status: 'closed',
+        closedAt: new Date('2026-01-20T12:02:00Z'),
+      });
+
+      stopSweeper();
+    });
   });
 });
@@ -3,6 +3,7 @@ import {
   createFakeClock,
   getRemainingTime,
   isExpired,
+  hasStarted,
   formatCountdown,
 } from '../../src/domain/time.js';
 
@@ -15,6 +16,42 @@ describe('time utilities', () => {
       expect(clock.now()).toEqual(fixedDate);
       expect(clock.now()).toEqual(fixedDate);
     });
+
+    it('fires due timers in order as it advances', () => {
+      const clock = createFakeClock(new Date('2024-01-15T12:00:00Z'));
+      const fired: string[] = [];
+
+      clock.setTimer(new Date('2024-01-15T12:00:20Z'), () => fired.push(`b at ${clock.now().toISOString()}`));
+      clock.setTimer(new Date('2024-01-15T12:00:10Z'), () => fired.push(`a at ${clock.now().toISOString()}`));
+      clock.setTimer(new Date('2024-01-15T12:01:00Z'), () => fired.push('later'));
+
+      clock.advance(30_000);
+
+      expect(fired).toEqual(['a at 2024-01-15T12:00:10.000Z', 'b at 2024-01-15T12:00:20.000Z']);
+      expect(clock.now()).toEqual(new Date('2024-01-15T12:00:30Z'));
+    });
+
+    it('jumps to a set time, firing timers on the way', () => {
+      const clock = createFakeClock(new Date('2024-01-15T12:00:00Z'));
+      let fired = false;
+
+      clock.setTimer(new Date('2024-01-15T18:00:00Z'), () => { fired = true; });
+      clock.set(new Date('2024-01-16T00:00:00Z'));
+
+      expect(fired).toBe(true);
+      expect(clock.now()).toEqual(new Date('2024-01-16T00:00:00Z'));
+    });
+
+    it('does not fire cancelled timers', () => {
+      const clock = createFakeClock(new Date('2024-01-15T12:00:00Z'));
+      let fired = false;
+
+      const cancel = clock.setTimer(new Date('2024-01-15T12:00:10Z'), () => { fired = true; });
+      cancel();
+      clock.advance(60_000);
+
+      expect(fired).toBe(false);
+    });
   });
 
   describe('getRemainingTime', () => {
@@ -65,6 +102,21 @@ describe('time utilities', () => {
     });
   });
 
+  describe('hasStarted', () => {
+    it('returns false before the start time', () => {
+      const clock = createFakeClock(new Date('2024-01-15T12:00:00Z'));
+
+      expect(hasStarted(new Date('2024-01-15T13:00:00Z'), clock)).toBe(false);
+    });
+
+    it('returns true at or after the start time', () => {
+      const clock = createFakeClock(new Date('2024-01-15T12:00:00Z'));
+
+      expect(hasStarted(new Date('2024-01-15T12:00:00Z'), clock)).toBe(true);
+      expect(hasStarted(new Date('2024-01-15T11:00:00Z'), clock)).toBe(true);
+    });
+  });
+
   describe('formatCountdown', () => {
     it('formats hours, minutes, seconds correctly', () => {
       const ms = (2 * 3600 + 30 * 60 + 45) * 1000; // 2:30:45
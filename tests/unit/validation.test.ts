@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  Schema,
+  validate,
+  required,
+  optional,
+  requiredWhen,
+  isString,
+  isNonNegativeNumber,
+  isDate,
+  isFuture,
+  isIntegerParam,
+  oneOf,
+} from '../../src/server/validation.js';
+
+describe('Request validation', () => {
+  const now = new Date('2026-01-20T12:00:00Z');
+
+  const schema: Schema = {
+    fields: {
+      title: required(isString()),
+      price: required(isNonNegativeNumber()),
+      endsAt: optional(isDate(), isFuture()),
+      color: optional(oneOf(['red', 'blue'])),
+    },
+  };
+
+  it('accepts valid input and skips missing optional fields', () => {
+    expect(validate(schema, { title: 'Lamp', price: 0 }, now, 'body')).toEqual([]);
+  });
+
+  it('reports every invalid field in schema order', () => {
+    const errors = validate(schema, { price: -1, color: 'green' }, now, 'body');
+
+    expect(errors).toEqual([
+      { field: 'title', message: 'title must be a string' },
+      { field: 'price', message: 'price must be a non-negative number' },
+      { field: 'color', message: 'color must be one of red, blue' },
+    ]);
+  });
+
+  it('stops at the first failing check for a field', () => {
+    expect(validate(schema, { title: 'Lamp', price: 1, endsAt: 'soon' }, now, 'body')).toEqual([
+      { field: 'endsAt', message: 'endsAt must be a valid ISO date string' },
+    ]);
+    expect(validate(schema, { title: 'Lamp', price: 1, endsAt: '2026-01-20T11:00:00Z' }, now, 'body')).toEqual([
+      { field: 'endsAt', message: 'endsAt must be in the future' },
+    ]);
+  });
+
+  it('falls back to "is required" when no check rejects a missing field', () => {
+    const errors = validate({ fields: { note: required() } }, {}, now, 'body');
+
+    expect(errors).toEqual([{ field: 'note', message: 'note is required' }]);
+  });
+
+  it('requires a field only when its condition holds', () => {
+    const shipping: Schema = {
+      fields: { method: optional(), address: requiredWhen(input => input.method === 'post', isString()) },
+    };
+
+    expect(validate(shipping, { method: 'pickup' }, now, 'body')).toEqual([]);
+    expect(validate(shipping, { method: 'post' }, now, 'body')).toEqual([
+      { field: 'address', message: 'address must be a string' },
+    ]);
+  });
+
+  it('rejects unknown fields and checks rules spanning fields', () => {
+    const strict: Schema = {
+      fields: { from: optional(), to: optional() },
+      unknownFieldsMessage: 'Only from and to are allowed',
+      check: input => (input.from === undefined && input.to === undefined ? 'Provide from or to' : null),
+    };
+
+    expect(validate(strict, { size: 1 }, now, 'query')).toEqual([
+      { field: 'size', message: 'Only from and to are allowed' },
+      { field: 'query', message: 'Provide from or to' },
+    ]);
+  });
+
+  it('checks integer query parameters against their range', () => {
+    const paging: Schema = { fields: { limit: optional(isIntegerParam(1, 100)), offset: optional(isIntegerParam(0)) } };
+
+    expect(validate(paging, { limit: '100', offset: '0' }, now, 'query')).toEqual([]);
+    expect(validate(paging, { limit: '0', offset: '-1' }, now, 'query')).toEqual([
+      { field: 'limit', message: 'limit must be an integer between 1 and 100' },
+      { field: 'offset', message: 'offset must be a non-negative integer' },
+    ]);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createHmac } from 'crypto';
+import { Store, createMemoryStore } from '../../src/domain/store.js';
+import { WebhookDelivery } from '../../src/domain/types.js';
+import {
+  validateWebhookInput,
+  createWebhook,
+  signPayload,
+  getRetryDelay,
+  recordAttempt,
+  MAX_DELIVERY_ATTEMPTS,
+  isPrivateAddress,
+} from '../../src/domain/webhooks.js';
+
+describe('Webhooks', () => {
+  let store: Store;
+  let delivery: WebhookDelivery;
+  const now = new Date('2026-01-20T12:00:00Z');
+
+  beforeEach(() => {
+    store = createMemoryStore();
+    const webhook = createWebhook(store, 'alice', { url: 'https://example.com/hooks' }, now);
+    delivery = store.insertDelivery({
+      webhookId: webhook.id,
+      eventId: 1,
+      eventType: 'item.closed',
+      payload: '{}',
+      status: 'pending',
+      attempts: 0,
+      responseStatus: null,
+      error: null,
+      createdAt: now,
+      lastAttemptAt: null,
+      nextAttemptAt: now,
+    });
+  });
+
+  it('subscribes to every event type by default', () => {
+    expect(store.getWebhook('1')?.events).toEqual(['item.created', 'bid.placed', 'item.extended', 'item.closed']);
+  });
+
+  it('validates the URL and event types', () => {
+    expect(validateWebhookInput({ url: 'http://localhost:4000/hooks', events: ['bid.placed'] })).toBeNull();
+    expect(validateWebhookInput({ url: 'not a url' })).toBe('url must be an http or https URL');
+    expect(validateWebhookInput({ url: 'https://example.com', events: [] })).toMatch(/^events must be/);
+  });
+
+  it('recognises loopback, private and link-local addresses', () => {
+    const internal = [
+      '127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '0.0.0.0',
+      '::1', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1',
+    ];
+
+    expect(internal.filter(address => !isPrivateAddress(address))).toEqual([]);
+    expect(['93.184.216.34', '172.32.0.1', '2606:4700::1111'].filter(isPrivateAddress)).toEqual([]);
+  });
+
+  it('signs the timestamp and body with HMAC-SHA256', () => {
+    const expected = createHmac('sha256', 'whsec_test').update('1768910400.{"id":1}').digest('hex');
+
+    expect(signPayload('whsec_test', 1768910400, '{"id":1}')).toBe(`sha256=${expected}`);
+  });
+
+  it('doubles the retry delay after each failure', () => {
+    expect([1, 2, 3].map(getRetryDelay)).toEqual([10000, 20000, 40000]);
+  });
+
+  it('keeps failed deliveries pending until attempts run out', () => {
+    const failure = { responseStatus: 500, error: 'Receiver responded 500' };
+
+    const retried = recordAttempt(store, delivery, failure, now);
+    expect(retried).toMatchObject({ status: 'pending', attempts: 1, nextAttemptAt: new Date(now.getTime() + 10000) });
+
+    const exhausted = recordAttempt(store, { ...retried, attempts: MAX_DELIVERY_ATTEMPTS - 1 }, failure, now);
+    expect(exhausted).toMatchObject({ status: 'failed', attempts: MAX_DELIVERY_ATTEMPTS, nextAttemptAt: null });
+    expect(store.getDelivery(delivery.id)).toEqual(exhausted);
+  });
+});